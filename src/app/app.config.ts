@@ -5,18 +5,23 @@ import {
 import {
   type ApplicationConfig,
   importProvidersFrom,
+  isDevMode,
   provideBrowserGlobalErrorListeners,
   provideZonelessChangeDetection,
 } from '@angular/core';
 import { ReactiveFormsModule } from '@angular/forms';
 import { provideAnimationsAsync } from '@angular/platform-browser/animations/async';
+import { provideMockBackend } from './mock-backend/mock-backend.interceptor';
+import { provideWidgetErrorBoundary } from './widget-orchestrator/services/widget-error-boundary.service';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
+    provideWidgetErrorBoundary(),
     provideZonelessChangeDetection(),
     provideAnimationsAsync(),
     provideHttpClient(withInterceptorsFromDi()),
+    provideMockBackend({ enabled: isDevMode() }),
     importProvidersFrom(ReactiveFormsModule),
   ],
 };
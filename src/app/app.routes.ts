@@ -7,8 +7,9 @@ export const Routes: Route[] = [
     path: 'overview',
     component: App,
     children: [
+      { path: '', redirectTo: 'demo', pathMatch: 'full' },
       {
-        path: '',
+        path: ':dashboardId',
         component: OverviewComponent,
       },
     ],
@@ -5,7 +5,14 @@ import {
   trigger,
 } from '@angular/animations';
 import { Component, inject } from '@angular/core';
-import { RouterModule, RouterOutlet } from '@angular/router';
+import { toSignal } from '@angular/core/rxjs-interop';
+import {
+  ActivatedRoute,
+  Router,
+  RouterModule,
+  RouterOutlet,
+} from '@angular/router';
+import { map } from 'rxjs';
 import { DashboardDemoComponent } from './demo/dashboard-demo.component';
 
 import { NgxUserMetadataService } from '@tmdjr/ngx-user-metadata';
@@ -20,9 +27,30 @@ export const slideInAnimation = trigger('routeAnimations', [
 @Component({
   selector: 'mfe-user-journey-dashboard',
   imports: [DashboardDemoComponent],
-  template: `<ngx-dashboard-demo></ngx-dashboard-demo>`,
+  template: `<ngx-dashboard-demo
+    [dashboardId]="dashboardId()"
+    (dashboardIdChange)="openDashboard($event)"
+  ></ngx-dashboard-demo>`,
 })
-export class OverviewComponent {}
+export class OverviewComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+
+  readonly dashboardId = toSignal(
+    this.route.paramMap.pipe(
+      map((params) => params.get('dashboardId') ?? 'demo')
+    ),
+    { initialValue: 'demo' }
+  );
+
+  openDashboard(dashboardId: string) {
+    if (dashboardId !== this.dashboardId()) {
+      this.router.navigate([dashboardId], {
+        relativeTo: this.route.parent,
+      });
+    }
+  }
+}
 
 @Component({
   selector: 'mfe-user-journey-dashboard',
@@ -1,6 +1,13 @@
 import { HttpClient } from '@angular/common/http';
 import { inject, Injectable } from '@angular/core';
-import { BehaviorSubject, forkJoin, of, switchMap, tap } from 'rxjs';
+import {
+  BehaviorSubject,
+  Subject,
+  forkJoin,
+  of,
+  switchMap,
+  tap,
+} from 'rxjs';
 
 export interface IUserAssessmentTest {
   _id: string;
@@ -37,6 +44,11 @@ export interface SubjectLevel {
   enabled: boolean;
 }
 
+export interface TestInfo {
+  assessmentTests: IUserAssessmentTest[];
+  subjectLevels: SubjectLevel[];
+}
+
 @Injectable({
   providedIn: 'root',
 })
@@ -50,6 +62,10 @@ export class AssessmentTestService {
     new BehaviorSubject<IUserAssessmentTest | null>(null);
   userAssessmentTest$ = this.userAssessmentTest.asObservable();
 
+  // Emits whenever the user's assessments or subject levels may have changed
+  private readonly userDataChanged = new Subject<void>();
+  userDataChanged$ = this.userDataChanged.asObservable();
+
   fetchAssessmentTest(id: string) {
     return this.httpClient
       .get<IAssessmentTest>(`/api/assessment-test/${id}`)
@@ -76,37 +92,30 @@ export class AssessmentTestService {
         ),
         tap(([test]) => {
           this.userAssessmentTest.next(test);
+          this.userDataChanged.next();
         })
       );
   }
 
   submitTest(answers: string[]) {
-    return this.httpClient.post<IUserAssessmentTest>(
-      '/api/assessment-test/submit-test',
-      {
+    return this.httpClient
+      .post<IUserAssessmentTest>('/api/assessment-test/submit-test', {
         testId: this.userAssessmentTest.value?._id,
         answers,
-      }
-    );
+      })
+      .pipe(tap(() => this.userDataChanged.next()));
   }
 
   fetchUserSubjectsEligibility(subjects: string[]) {
-    // return this.httpClient
-    //   .get<SubjectLevel[]>(
-    //     `/api/assessment-test/user-subjects-eligibility?subjects=${subjects.join(
-    //       ','
-    //     )}`
-    //   )
-    //   .pipe(catchError(() => of([])));
-    return of([]); // Temporarily disable until backend is fixed
+    return this.httpClient.get<SubjectLevel[]>(
+      '/api/assessment-test/user-subjects-eligibility',
+      { params: { subjects: subjects.join(',') } }
+    );
   }
 
   fetchUsersAssessments() {
-    // return this.httpClient
-    //   .get<IUserAssessmentTest[]>(
-    //     '/api/assessment-test/user-asssessments'
-    //   )
-    //   .pipe(catchError(() => of([])));
-    return of([]); // Temporarily disable until backend is fixed
+    return this.httpClient.get<IUserAssessmentTest[]>(
+      '/api/assessment-test/user-asssessments'
+    );
   }
 }
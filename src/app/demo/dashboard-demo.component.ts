@@ -1,4 +1,11 @@
-import { Component, OnInit, inject } from '@angular/core';
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  inject,
+} from '@angular/core';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatSnackBar } from '@angular/material/snack-bar';
@@ -14,6 +21,7 @@ import {
   AssessmentDataProvider,
   StaticDataProvider,
 } from '../widget-orchestrator/services/data-providers.service';
+import { ASSESSMENT_TRANSFORMS } from '../widgets/assessment-data.transforms';
 
 @Component({
   selector: 'ngx-dashboard-demo',
@@ -47,7 +55,8 @@ import {
 
       <!-- Widget Dashboard -->
       <ngx-widget-dashboard
-        dashboardId="demo"
+        [dashboardId]="dashboardId"
+        (dashboardIdChange)="dashboardIdChange.emit($event)"
         [autoLoad]="true"
         [autoSave]="true"
         class="demo-dashboard"
@@ -111,14 +120,19 @@ import {
   ],
 })
 export class DashboardDemoComponent implements OnInit {
+  @Input() dashboardId = 'demo';
+  @Output() dashboardIdChange = new EventEmitter<string>();
+
   private readonly orchestrator = inject(WidgetOrchestratorService);
   private readonly registry = inject(WidgetRegistryService);
   private readonly communication = inject(WidgetCommunicationService);
   private readonly snackBar = inject(MatSnackBar);
   private readonly assessmentService = inject(AssessmentDataProvider);
+  private readonly apiDataProvider = inject(ApiDataProvider);
 
   ngOnInit(): void {
     this.setupDataProviders();
+    this.setupDataTransforms();
     this.setupDemoEventHandlers();
   }
 
@@ -180,7 +194,17 @@ export class DashboardDemoComponent implements OnInit {
     // Register data providers with the orchestrator
     this.orchestrator.registerDataProvider(this.assessmentService);
     this.orchestrator.registerDataProvider(new StaticDataProvider());
-    this.orchestrator.registerDataProvider(new ApiDataProvider());
+    this.orchestrator.registerDataProvider(this.apiDataProvider);
+  }
+
+  /**
+   * Setup named data transforms
+   */
+  private setupDataTransforms(): void {
+    Object.entries(ASSESSMENT_TRANSFORMS).forEach(
+      ([name, transform]) =>
+        this.orchestrator.registerTransform(name, transform)
+    );
   }
 
   /**
@@ -18,8 +18,8 @@ import { MatCardModule } from '@angular/material/card';
 import { MatGridListModule } from '@angular/material/grid-list';
 import { MatIconModule } from '@angular/material/icon';
 import { MatMenuModule } from '@angular/material/menu';
-import { combineLatest } from 'rxjs';
-import { map } from 'rxjs/operators';
+import { combineLatest, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
 
 import { AssessmentTestService } from '../assessment-test.service';
 // import { GraphWidgetComponent } from '../widgets/graph-widget.component';
@@ -144,12 +144,12 @@ export class DynamicGridListComponent {
   }
 
   widgets = combineLatest([
-    this.assessmentTest.fetchUsersAssessments(),
-    this.assessmentTest.fetchUserSubjectsEligibility([
-      'ANGULAR',
-      'NESTJS',
-      'RXJS',
-    ]),
+    this.assessmentTest
+      .fetchUsersAssessments()
+      .pipe(catchError(() => of([]))),
+    this.assessmentTest
+      .fetchUserSubjectsEligibility(['ANGULAR', 'NESTJS', 'RXJS'])
+      .pipe(catchError(() => of([]))),
   ]).pipe(
     map(([assessmentTests, subjectLevels]) => {
       const testInfoWidgetData = { assessmentTests, subjectLevels };
@@ -0,0 +1,288 @@
+import {
+  IAssessmentTest,
+  ITestQuestion,
+  IUserAssessmentTest,
+} from '../assessment-test.service';
+
+export type MockScenario =
+  | 'new-user'
+  | 'in-progress'
+  | 'advanced'
+  | 'partial-outage'
+  | 'server-error';
+
+export interface MockScenarioSeed {
+  /** Subjects the user may take assessments in */
+  enabledSubjects: string[];
+
+  /** Tests the user has already taken, by assessment test ID */
+  userAssessments: {
+    assessmentTestId: string;
+    correctAnswers: number;
+    completed: boolean;
+  }[];
+
+  /** Endpoints that respond with a server error */
+  failingEndpoints: string[];
+}
+
+export const MOCK_USER_ID = 'mock-user';
+
+export const MOCK_SUBJECTS = ['ANGULAR', 'NESTJS', 'RXJS'];
+
+const question = (
+  text: string,
+  choices: string[],
+  answer: string,
+  explanation: string
+): ITestQuestion => ({
+  question: text,
+  choices: choices.map((value) => ({ value })),
+  answer,
+  correctResponse: `Correct! ${explanation}`,
+  incorrectResponse: `Not quite. ${explanation}`,
+});
+
+export const MOCK_ASSESSMENT_TESTS: IAssessmentTest[] = [
+  {
+    _id: 'angular-1',
+    name: 'Angular Fundamentals',
+    subject: 'ANGULAR',
+    lastUpdated: '2026-01-12T09:00:00.000Z',
+    testQuestions: [
+      question(
+        'Which decorator marks a class as an Angular component?',
+        ['@Injectable', '@Component', '@NgModule', '@Directive'],
+        '@Component',
+        '@Component attaches a template and metadata to a class.'
+      ),
+      question(
+        'What does the inject() function require?',
+        [
+          'A running zone',
+          'An injection context',
+          'A constructor parameter',
+          'A providers array',
+        ],
+        'An injection context',
+        'inject() only works during construction or inside runInInjectionContext.'
+      ),
+      question(
+        'Which block renders content conditionally in templates?',
+        ['@for', '@switch', '@if', '@defer'],
+        '@if',
+        '@if replaces the *ngIf structural directive.'
+      ),
+    ],
+  },
+  {
+    _id: 'angular-2',
+    name: 'Angular Signals',
+    subject: 'ANGULAR',
+    lastUpdated: '2026-02-03T09:00:00.000Z',
+    testQuestions: [
+      question(
+        'Which API derives a read-only signal from other signals?',
+        ['signal()', 'effect()', 'computed()', 'linkedSignal()'],
+        'computed()',
+        'computed() memoises a value derived from its signal dependencies.'
+      ),
+      question(
+        'How do you update a writable signal based on its value?',
+        ['set()', 'update()', 'mutate()', 'next()'],
+        'update()',
+        'update() receives the current value and returns the next one.'
+      ),
+      question(
+        'What does input.required() guarantee?',
+        [
+          'The input has a default value',
+          'The input must be bound by the parent',
+          'The input is immutable',
+          'The input is transformed',
+        ],
+        'The input must be bound by the parent',
+        'Reading an unbound required input throws at runtime.'
+      ),
+    ],
+  },
+  {
+    _id: 'nestjs-1',
+    name: 'NestJS Fundamentals',
+    subject: 'NESTJS',
+    lastUpdated: '2026-01-20T09:00:00.000Z',
+    testQuestions: [
+      question(
+        'Which decorator defines a NestJS controller?',
+        ['@Controller', '@Module', '@Injectable', '@Route'],
+        '@Controller',
+        '@Controller groups route handlers under a path prefix.'
+      ),
+      question(
+        'Where are providers registered?',
+        [
+          'In a controller',
+          'In a module',
+          'In main.ts',
+          'In a guard',
+        ],
+        'In a module',
+        'Modules declare the providers available to their injector.'
+      ),
+      question(
+        'What runs before a route handler to allow or deny access?',
+        ['Pipe', 'Interceptor', 'Guard', 'Filter'],
+        'Guard',
+        'Guards decide whether a request reaches the handler.'
+      ),
+    ],
+  },
+  {
+    _id: 'rxjs-1',
+    name: 'RxJS Fundamentals',
+    subject: 'RXJS',
+    lastUpdated: '2026-01-28T09:00:00.000Z',
+    testQuestions: [
+      question(
+        'Which operator cancels the previous inner observable?',
+        ['mergeMap', 'concatMap', 'switchMap', 'exhaustMap'],
+        'switchMap',
+        'switchMap unsubscribes from the previous inner observable.'
+      ),
+      question(
+        'Which subject replays its latest value to new subscribers?',
+        ['Subject', 'BehaviorSubject', 'AsyncSubject', 'Observable'],
+        'BehaviorSubject',
+        'BehaviorSubject always holds a current value.'
+      ),
+      question(
+        'What does combineLatest emit?',
+        [
+          'Only the first value of each source',
+          'The latest value of every source when any emits',
+          'Values in subscription order',
+          'Only when all sources complete',
+        ],
+        'The latest value of every source when any emits',
+        'combineLatest waits for each source to emit once, then tracks the latest values.'
+      ),
+    ],
+  },
+  {
+    _id: 'rxjs-2',
+    name: 'RxJS Error Handling',
+    subject: 'RXJS',
+    lastUpdated: '2026-02-14T09:00:00.000Z',
+    testQuestions: [
+      question(
+        'Which operator replaces an error with a fallback observable?',
+        ['retry', 'catchError', 'finalize', 'throwError'],
+        'catchError',
+        'catchError lets you recover by returning another observable.'
+      ),
+      question(
+        'What happens to a stream after it errors?',
+        [
+          'It keeps emitting',
+          'It completes normally',
+          'It terminates',
+          'It restarts automatically',
+        ],
+        'It terminates',
+        'An errored observable emits no further values.'
+      ),
+      question(
+        'Which operator resubscribes to a failed source?',
+        ['repeat', 'retry', 'defer', 'share'],
+        'retry',
+        'retry resubscribes up to the configured count.'
+      ),
+    ],
+  },
+];
+
+export const MOCK_SCENARIOS: Record<MockScenario, MockScenarioSeed> =
+  {
+    'new-user': {
+      enabledSubjects: ['ANGULAR'],
+      userAssessments: [],
+      failingEndpoints: [],
+    },
+    'in-progress': {
+      enabledSubjects: ['ANGULAR', 'RXJS'],
+      userAssessments: [
+        {
+          assessmentTestId: 'angular-1',
+          correctAnswers: 3,
+          completed: true,
+        },
+        {
+          assessmentTestId: 'angular-2',
+          correctAnswers: 0,
+          completed: false,
+        },
+        {
+          assessmentTestId: 'rxjs-1',
+          correctAnswers: 1,
+          completed: true,
+        },
+      ],
+      failingEndpoints: [],
+    },
+    advanced: {
+      enabledSubjects: MOCK_SUBJECTS,
+      userAssessments: MOCK_ASSESSMENT_TESTS.map((test) => ({
+        assessmentTestId: test._id,
+        correctAnswers: test.testQuestions.length,
+        completed: true,
+      })),
+      failingEndpoints: [],
+    },
+    'partial-outage': {
+      enabledSubjects: ['ANGULAR', 'RXJS'],
+      userAssessments: [
+        {
+          assessmentTestId: 'angular-1',
+          correctAnswers: 2,
+          completed: true,
+        },
+      ],
+      failingEndpoints: ['user-subjects-eligibility'],
+    },
+    'server-error': {
+      enabledSubjects: ['ANGULAR'],
+      userAssessments: [],
+      failingEndpoints: [
+        'user-asssessments',
+        'user-subjects-eligibility',
+        'start-test',
+        'submit-test',
+      ],
+    },
+  };
+
+/**
+ * Build a user assessment record for a test
+ */
+export function createUserAssessment(
+  test: IAssessmentTest,
+  answers: string[],
+  completed: boolean
+): IUserAssessmentTest {
+  const score = answers.filter(
+    (answer, index) => test.testQuestions[index]?.answer === answer
+  ).length;
+
+  return {
+    _id: `${MOCK_USER_ID}-${test._id}-${Date.now()}`,
+    assessmentTestId: test._id,
+    userId: MOCK_USER_ID,
+    testName: test.name,
+    score,
+    passed: completed && score / test.testQuestions.length >= 0.7,
+    completed,
+    subject: test.subject,
+    userAnswers: answers,
+    lastUpdated: new Date().toISOString(),
+  };
+}
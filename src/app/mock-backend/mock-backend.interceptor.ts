@@ -0,0 +1,54 @@
+import {
+  HTTP_INTERCEPTORS,
+  HttpEvent,
+  HttpHandler,
+  HttpInterceptor,
+  HttpRequest,
+} from '@angular/common/http';
+import { Injectable, Provider, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import {
+  MOCK_BACKEND_CONFIG,
+  MockBackendConfig,
+  MockBackendService,
+} from './mock-backend.service';
+
+/**
+ * Mock Backend Interceptor
+ * Answers assessment test and dashboard API requests in-memory when enabled
+ */
+@Injectable()
+export class MockBackendInterceptor implements HttpInterceptor {
+  private readonly mockBackend = inject(MockBackendService);
+
+  intercept(
+    request: HttpRequest<any>,
+    next: HttpHandler
+  ): Observable<HttpEvent<any>> {
+    if (
+      !this.mockBackend.isEnabled() ||
+      !this.mockBackend.matches(request)
+    ) {
+      return next.handle(request);
+    }
+
+    return this.mockBackend.handle(request);
+  }
+}
+
+/**
+ * Provide the mock backend interceptor
+ */
+export function provideMockBackend(
+  config: Partial<MockBackendConfig> = {}
+): Provider[] {
+  return [
+    { provide: MOCK_BACKEND_CONFIG, useValue: config },
+    {
+      provide: HTTP_INTERCEPTORS,
+      useClass: MockBackendInterceptor,
+      multi: true,
+    },
+  ];
+}
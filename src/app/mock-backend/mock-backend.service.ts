@@ -0,0 +1,505 @@
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable, of, throwError, timer } from 'rxjs';
+import { delay, mergeMap } from 'rxjs/operators';
+
+import {
+  IUserAssessmentTest,
+  SubjectLevel,
+} from '../assessment-test.service';
+import { summarizeDashboard } from '../widget-orchestrator/services/dashboard-storage.service';
+import {
+  MOCK_ASSESSMENT_TESTS,
+  MOCK_SCENARIOS,
+  MOCK_SUBJECTS,
+  MockScenario,
+  createUserAssessment,
+} from './mock-backend.fixtures';
+
+export interface MockBackendConfig {
+  /** Whether requests are answered by the mock backend */
+  enabled: boolean;
+
+  /** Seeded fixture scenario */
+  scenario: MockScenario;
+
+  /** Simulated network latency in milliseconds */
+  latency: number;
+}
+
+export const MOCK_BACKEND_CONFIG = new InjectionToken<
+  Partial<MockBackendConfig>
+>('MOCK_BACKEND_CONFIG');
+
+/**
+ * Settings that may be changed at runtime and kept across reloads
+ */
+type MockBackendOverrides = Partial<
+  Pick<MockBackendConfig, 'scenario' | 'latency'>
+>;
+
+const DEFAULT_MOCK_BACKEND_CONFIG: MockBackendConfig = {
+  enabled: false,
+  scenario: 'in-progress',
+  latency: 300,
+};
+
+/**
+ * Mock Backend Service
+ * In-memory stand-in for the assessment test and dashboard APIs
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MockBackendService {
+  private readonly storageKey = 'mock-backend';
+  private readonly apiPrefix = '/api/assessment-test';
+  private readonly dashboardsPrefix = '/api/dashboards';
+  private readonly dashboardsStorageKey = 'mock-backend-dashboards';
+  private config: MockBackendConfig;
+  private userAssessments: IUserAssessmentTest[] = [];
+
+  constructor() {
+    const provided: MockBackendConfig = {
+      ...DEFAULT_MOCK_BACKEND_CONFIG,
+      ...inject(MOCK_BACKEND_CONFIG, { optional: true }),
+    };
+
+    // Stored settings only tune a mock backend the build enabled
+    this.config = {
+      ...provided,
+      ...(provided.enabled ? this.loadOverrides() : {}),
+    };
+
+    if (!this.isScenario(this.config.scenario)) {
+      this.config.scenario = DEFAULT_MOCK_BACKEND_CONFIG.scenario;
+    }
+
+    this.seed();
+  }
+
+  /**
+   * Get current mock backend configuration
+   */
+  getConfig(): MockBackendConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Check if mock backend is enabled
+   */
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Enable or disable the mock backend until the next reload
+   */
+  setEnabled(enabled: boolean): void {
+    this.config.enabled = enabled;
+  }
+
+  /**
+   * Switch to another fixture scenario and reseed
+   */
+  setScenario(scenario: MockScenario): void {
+    this.config.scenario = scenario;
+    this.saveOverrides();
+    this.seed();
+  }
+
+  /**
+   * Set simulated latency
+   */
+  setLatency(latency: number): void {
+    this.config.latency = Math.max(0, latency);
+    this.saveOverrides();
+  }
+
+  /**
+   * Reset fixtures for the current scenario
+   */
+  reset(): void {
+    this.seed();
+  }
+
+  /**
+   * Check if request targets a mocked endpoint
+   */
+  matches(request: HttpRequest<any>): boolean {
+    const path = this.getPath(request);
+    return (
+      path.startsWith(`${this.apiPrefix}/`) ||
+      path === this.dashboardsPrefix ||
+      path.startsWith(`${this.dashboardsPrefix}/`)
+    );
+  }
+
+  /**
+   * Handle a mocked request
+   */
+  handle(request: HttpRequest<any>): Observable<HttpEvent<any>> {
+    const url = new URL(request.urlWithParams, 'http://mock.local');
+    if (url.pathname === this.dashboardsPrefix) {
+      return this.listDashboards(
+        request,
+        url.searchParams.get('prefix') ?? ''
+      );
+    }
+
+    if (url.pathname.startsWith(`${this.dashboardsPrefix}/`)) {
+      return this.handleDashboard(
+        request,
+        decodeURIComponent(
+          url.pathname.slice(this.dashboardsPrefix.length + 1)
+        )
+      );
+    }
+
+    const endpoint = url.pathname.slice(this.apiPrefix.length + 1);
+    const seed = MOCK_SCENARIOS[this.config.scenario];
+
+    if (seed.failingEndpoints.includes(endpoint)) {
+      return this.error(request, 503, 'Service Unavailable');
+    }
+
+    switch (`${request.method} ${endpoint}`) {
+      case 'GET user-asssessments':
+        return this.respond(request, this.userAssessments);
+
+      case 'GET user-subjects-eligibility':
+        return this.respond(
+          request,
+          this.getSubjectLevels(
+            url.searchParams.get('subjects')?.split(',') ??
+              MOCK_SUBJECTS
+          )
+        );
+
+      case 'POST start-test':
+        return this.startTest(request);
+
+      case 'POST submit-test':
+        return this.submitTest(request);
+    }
+
+    const test = MOCK_ASSESSMENT_TESTS.find(
+      (t) => t._id === endpoint
+    );
+    if (request.method === 'GET' && test) {
+      return this.respond(request, test);
+    }
+
+    return this.error(request, 404, 'Not Found');
+  }
+
+  /**
+   * Start (or resume) the next assessment test for a subject
+   */
+  private startTest(
+    request: HttpRequest<any>
+  ): Observable<HttpEvent<any>> {
+    const subject = request.body?.subject;
+    const seed = MOCK_SCENARIOS[this.config.scenario];
+
+    if (!seed.enabledSubjects.includes(subject)) {
+      return this.error(request, 403, 'Forbidden');
+    }
+
+    const nextTest = MOCK_ASSESSMENT_TESTS.find(
+      (test) =>
+        test.subject === subject &&
+        !this.userAssessments.some(
+          (a) => a.assessmentTestId === test._id && a.passed
+        )
+    );
+
+    if (!nextTest) {
+      return this.error(request, 409, 'Conflict');
+    }
+
+    let userAssessment = this.userAssessments.find(
+      (a) => a.assessmentTestId === nextTest._id && !a.completed
+    );
+
+    if (!userAssessment) {
+      userAssessment = createUserAssessment(nextTest, [], false);
+      this.userAssessments = [
+        ...this.userAssessments,
+        userAssessment,
+      ];
+    }
+
+    return this.respond(request, userAssessment);
+  }
+
+  /**
+   * Grade submitted answers
+   */
+  private submitTest(
+    request: HttpRequest<any>
+  ): Observable<HttpEvent<any>> {
+    const { testId, answers } = request.body ?? {};
+    const existing = this.userAssessments.find(
+      (a) => a._id === testId
+    );
+    const test = MOCK_ASSESSMENT_TESTS.find(
+      (t) => t._id === existing?.assessmentTestId
+    );
+
+    if (!existing || !test) {
+      return this.error(request, 404, 'Not Found');
+    }
+
+    const graded = {
+      ...createUserAssessment(test, answers ?? [], true),
+      _id: existing._id,
+    };
+
+    this.userAssessments = this.userAssessments.map((a) =>
+      a._id === testId ? graded : a
+    );
+
+    return this.respond(request, graded);
+  }
+
+  /**
+   * List stored dashboards by key prefix
+   */
+  private listDashboards(
+    request: HttpRequest<any>,
+    prefix: string
+  ): Observable<HttpEvent<any>> {
+    if (request.method !== 'GET') {
+      return this.error(request, 405, 'Method Not Allowed');
+    }
+
+    return this.respond(
+      request,
+      Object.entries(this.loadDashboards())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, stored]) => summarizeDashboard(key, stored))
+    );
+  }
+
+  /**
+   * Load, save or delete a dashboard, rejecting stale revisions
+   */
+  private handleDashboard(
+    request: HttpRequest<any>,
+    key: string
+  ): Observable<HttpEvent<any>> {
+    const dashboards = this.loadDashboards();
+    const current = dashboards[key];
+
+    switch (request.method) {
+      case 'GET':
+        return current
+          ? this.respond(request, current)
+          : this.error(request, 404, 'Not Found');
+
+      case 'PUT': {
+        const { document, expectedRevision } = request.body ?? {};
+        const currentRevision = current?.revision ?? 0;
+
+        if (
+          current &&
+          expectedRevision !== undefined &&
+          expectedRevision !== currentRevision
+        ) {
+          return this.error(request, 409, 'Conflict', current);
+        }
+
+        const revision = currentRevision + 1;
+        this.saveDashboards({
+          ...dashboards,
+          [key]: { revision, document },
+        });
+        return this.respond(request, { revision });
+      }
+
+      case 'DELETE': {
+        const { [key]: _removed, ...remaining } = dashboards;
+        this.saveDashboards(remaining);
+        return this.respond(request, null);
+      }
+    }
+
+    return this.error(request, 405, 'Method Not Allowed');
+  }
+
+  /**
+   * Compute subject levels from user assessments
+   */
+  private getSubjectLevels(subjects: string[]): SubjectLevel[] {
+    const seed = MOCK_SCENARIOS[this.config.scenario];
+
+    return subjects.map((subject) => {
+      const subjectTests = MOCK_ASSESSMENT_TESTS.filter(
+        (test) => test.subject === subject
+      );
+      const passedTestIds = new Set(
+        this.userAssessments
+          .filter((a) => a.subject === subject && a.passed)
+          .map((a) => a.assessmentTestId)
+      );
+
+      return {
+        subject,
+        levelCount: passedTestIds.size,
+        totalCount: subjectTests.length,
+        enabled: seed.enabledSubjects.includes(subject),
+      };
+    });
+  }
+
+  /**
+   * Seed user assessments from the current scenario
+   */
+  private seed(): void {
+    const seed = MOCK_SCENARIOS[this.config.scenario];
+
+    this.userAssessments = seed.userAssessments.flatMap((entry) => {
+      const test = MOCK_ASSESSMENT_TESTS.find(
+        (t) => t._id === entry.assessmentTestId
+      );
+      if (!test) {
+        return [];
+      }
+
+      const answers = entry.completed
+        ? test.testQuestions.map((q, index) =>
+            index < entry.correctAnswers
+              ? q.answer
+              : q.choices.find((c) => c.value !== q.answer)!.value
+          )
+        : [];
+
+      return [createUserAssessment(test, answers, entry.completed)];
+    });
+  }
+
+  /**
+   * Build a successful response
+   */
+  private respond(
+    request: HttpRequest<any>,
+    body: any
+  ): Observable<HttpEvent<any>> {
+    return of(
+      new HttpResponse({ status: 200, body, url: request.url })
+    ).pipe(delay(this.config.latency));
+  }
+
+  /**
+   * Build an error response
+   */
+  private error(
+    request: HttpRequest<any>,
+    status: number,
+    statusText: string,
+    body?: any
+  ): Observable<never> {
+    return timer(this.config.latency).pipe(
+      mergeMap(() =>
+        throwError(
+          () =>
+            new HttpErrorResponse({
+              status,
+              statusText,
+              url: request.url,
+              error: body ?? {
+                message: `Mock backend: ${statusText}`,
+              },
+            })
+        )
+      )
+    );
+  }
+
+  /**
+   * Get request path without origin or query string
+   */
+  private getPath(request: HttpRequest<any>): string {
+    return new URL(request.url, 'http://mock.local').pathname;
+  }
+
+  /**
+   * Load stored dashboards
+   * Kept in localStorage so every tab sees the same "server" state
+   */
+  private loadDashboards(): Record<string, any> {
+    try {
+      const stored = localStorage.getItem(this.dashboardsStorageKey);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load mock dashboards:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Persist stored dashboards
+   */
+  private saveDashboards(dashboards: Record<string, any>): void {
+    localStorage.setItem(
+      this.dashboardsStorageKey,
+      JSON.stringify(dashboards)
+    );
+  }
+
+  /**
+   * Check if a value names a known fixture scenario
+   */
+  private isScenario(value: unknown): value is MockScenario {
+    return typeof value === 'string' && value in MOCK_SCENARIOS;
+  }
+
+  /**
+   * Load runtime overrides from storage, ignoring unknown values
+   */
+  private loadOverrides(): MockBackendOverrides {
+    try {
+      const stored = JSON.parse(
+        localStorage.getItem(this.storageKey) ?? '{}'
+      );
+      const overrides: MockBackendOverrides = {};
+
+      if (this.isScenario(stored?.scenario)) {
+        overrides.scenario = stored.scenario;
+      }
+      if (
+        typeof stored?.latency === 'number' &&
+        stored.latency >= 0
+      ) {
+        overrides.latency = stored.latency;
+      }
+      return overrides;
+    } catch (error) {
+      console.warn('Failed to load mock backend settings:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Persist runtime overrides to storage
+   */
+  private saveOverrides(): void {
+    const { scenario, latency } = this.config;
+    const overrides: MockBackendOverrides = { scenario, latency };
+
+    try {
+      localStorage.setItem(
+        this.storageKey,
+        JSON.stringify(overrides)
+      );
+    } catch (error) {
+      console.warn('Failed to save mock backend settings:', error);
+    }
+  }
+}
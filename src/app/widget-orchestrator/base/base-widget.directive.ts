@@ -4,6 +4,7 @@ import {
   input,
   OnDestroy,
   OnInit,
+  signal,
 } from '@angular/core';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
@@ -21,14 +22,23 @@ export abstract class BaseWidget
 {
   // Required properties from IWidget interface
   id = '';
-  config!: WidgetConfig;
   data = input<any>();
 
+  // Signal-backed so computed properties track configuration changes
+  private readonly _config = signal<WidgetConfig>(undefined!);
+  get config(): WidgetConfig {
+    return this._config();
+  }
+  set config(config: WidgetConfig) {
+    this._config.set(config);
+  }
+
   // Services
   protected readonly communication = inject(
     WidgetCommunicationService
   );
   protected readonly destroy$ = new Subject<void>();
+  private readonly unsubscribers: (() => void)[] = [];
 
   // Widget lifecycle hooks
   ngOnInit(): void {
@@ -38,6 +48,7 @@ export abstract class BaseWidget
 
   ngOnDestroy(): void {
     this.onDestroy?.();
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -91,7 +102,9 @@ export abstract class BaseWidget
     eventType: string,
     handler: (event: WidgetEvent) => void
   ): void {
-    this.communication.subscribe(eventType, handler);
+    this.unsubscribers.push(
+      this.communication.subscribe(eventType, handler)
+    );
   }
 
   /**
@@ -101,7 +114,9 @@ export abstract class BaseWidget
     sourceId: string,
     handler: (event: WidgetEvent) => void
   ): void {
-    this.communication.subscribeToWidget(sourceId, handler);
+    this.unsubscribers.push(
+      this.communication.subscribeToWidget(sourceId, handler)
+    );
   }
 
   /**
@@ -136,9 +151,14 @@ export abstract class BaseWidget
    */
   private setupEventHandling(): void {
     // Subscribe to targeted events for this widget
-    this.communication.subscribeToTargetedEvents(this.id, (event) => {
-      this.onEvent(event);
-    });
+    this.unsubscribers.push(
+      this.communication.subscribeToTargetedEvents(
+        this.id,
+        (event) => {
+          this.onEvent(event);
+        }
+      )
+    );
 
     // Subscribe to configuration change events
     this.subscribeToEvents('WIDGET_CONFIG_CHANGED', (event) => {
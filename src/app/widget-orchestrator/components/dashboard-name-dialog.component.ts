@@ -0,0 +1,112 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  inject,
+} from '@angular/core';
+import {
+  FormControl,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import {
+  MAT_DIALOG_DATA,
+  MatDialogModule,
+  MatDialogRef,
+} from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+export interface DashboardNameDialogData {
+  /** Dialog heading, e.g. 'New dashboard' */
+  heading: string;
+
+  /** Confirm button label */
+  confirmLabel: string;
+
+  /** Initial name */
+  name?: string;
+}
+
+/**
+ * Dashboard Name Dialog Component
+ * Asks for a dashboard name when creating, renaming or cloning
+ */
+@Component({
+  selector: 'ngx-dashboard-name-dialog',
+  standalone: true,
+  imports: [
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatDialogModule,
+    MatFormFieldModule,
+    MatInputModule,
+  ],
+  template: `
+    <h2 mat-dialog-title>{{ data.heading }}</h2>
+
+    <mat-dialog-content>
+      <mat-form-field appearance="outline" class="name-field">
+        <mat-label>Name</mat-label>
+        <input
+          matInput
+          [formControl]="name"
+          cdkFocusInitial
+          maxlength="60"
+          (keydown.enter)="save()"
+        />
+        <mat-error>Enter a name</mat-error>
+      </mat-form-field>
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button (click)="cancel()">Cancel</button>
+      <button
+        mat-flat-button
+        [disabled]="name.invalid"
+        (click)="save()"
+      >
+        {{ data.confirmLabel }}
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [
+    `
+      .name-field {
+        width: 100%;
+        min-width: 320px;
+      }
+    `,
+  ],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DashboardNameDialogComponent {
+  readonly data = inject<DashboardNameDialogData>(MAT_DIALOG_DATA);
+  private readonly dialogRef = inject(
+    MatDialogRef<DashboardNameDialogComponent, string>
+  );
+
+  readonly name = new FormControl(this.data.name ?? '', {
+    nonNullable: true,
+    validators: [Validators.required, Validators.pattern(/\S/)],
+  });
+
+  /**
+   * Close without a name
+   */
+  cancel(): void {
+    this.dialogRef.close();
+  }
+
+  /**
+   * Close with the trimmed name
+   */
+  save(): void {
+    if (this.name.invalid) {
+      this.name.markAsTouched();
+      return;
+    }
+
+    this.dialogRef.close(this.name.value.trim());
+  }
+}
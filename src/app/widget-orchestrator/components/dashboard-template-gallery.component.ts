@@ -0,0 +1,292 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  inject,
+  signal,
+} from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import {
+  MAT_DIALOG_DATA,
+  MatDialogModule,
+  MatDialogRef,
+} from '@angular/material/dialog';
+import { MatIconModule } from '@angular/material/icon';
+
+import { DashboardTemplate, WidgetLayout } from '../interfaces';
+import {
+  DashboardTemplateIssue,
+  DashboardTemplateRegistryService,
+} from '../services/dashboard-template-registry.service';
+import { WidgetRegistryService } from '../services/widget-registry.service';
+
+export interface DashboardTemplateGalleryData {
+  /** Dialog heading */
+  heading: string;
+
+  /** Offer an empty dashboard next to the templates */
+  allowBlank?: boolean;
+}
+
+/** Gallery result: a template, null for a blank dashboard */
+export type DashboardTemplateGalleryResult = DashboardTemplate | null;
+
+interface TemplatePreview {
+  template: DashboardTemplate;
+  cols: number;
+  widgets: {
+    name: string;
+    icon: string;
+    layout: WidgetLayout;
+    invalid: boolean;
+  }[];
+  issues: DashboardTemplateIssue[];
+}
+
+/**
+ * Dashboard Template Gallery Component
+ * Previews registered dashboard templates and picks one
+ */
+@Component({
+  selector: 'ngx-dashboard-template-gallery',
+  standalone: true,
+  imports: [MatButtonModule, MatDialogModule, MatIconModule],
+  template: `
+    <h2 mat-dialog-title>{{ data.heading }}</h2>
+
+    <mat-dialog-content>
+      <div class="template-list">
+        @if (data.allowBlank) {
+        <button
+          type="button"
+          class="template-card"
+          [class.selected]="selected() === null"
+          (click)="selected.set(null)"
+        >
+          <div class="template-preview blank">
+            <mat-icon>add</mat-icon>
+          </div>
+          <div class="template-name">Blank dashboard</div>
+          <div class="template-description">
+            Start with no widgets
+          </div>
+        </button>
+        } @for (preview of previews; track preview.template.id) {
+        <button
+          type="button"
+          class="template-card"
+          [class.selected]="selected() === preview.template"
+          (click)="selected.set(preview.template)"
+          (dblclick)="choose(preview.template)"
+        >
+          <div
+            class="template-preview"
+            [style.grid-template-columns]="
+              'repeat(' + preview.cols + ', 1fr)'
+            "
+          >
+            @for (widget of preview.widgets; track $index) {
+            <div
+              class="preview-widget"
+              [class.invalid]="widget.invalid"
+              [style.grid-column]="
+                widget.layout.x! + 1 + ' / span ' + widget.layout.cols
+              "
+              [style.grid-row]="
+                widget.layout.y! + 1 + ' / span ' + widget.layout.rows
+              "
+              [title]="widget.name"
+            >
+              <mat-icon>{{ widget.icon }}</mat-icon>
+            </div>
+            }
+          </div>
+          <div class="template-name">
+            {{ preview.template.name }}
+            <span class="template-version">
+              v{{ preview.template.version }}
+            </span>
+          </div>
+          <div class="template-description">
+            {{ preview.template.description }}
+          </div>
+          @for (issue of preview.issues; track $index) {
+          <div class="template-issue">
+            <mat-icon>warning</mat-icon>
+            {{ issue.message }}
+          </div>
+          }
+        </button>
+        }
+      </div>
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button (click)="cancel()">Cancel</button>
+      <button
+        mat-flat-button
+        [disabled]="selected() === undefined"
+        (click)="choose(selected()!)"
+      >
+        {{ selectedLabel() }}
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [
+    `
+      .template-list {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+        gap: 16px;
+        min-width: 480px;
+      }
+
+      .template-card {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        padding: 12px;
+        border: 1px solid var(--mat-sys-outline-variant);
+        border-radius: 8px;
+        background: none;
+        color: inherit;
+        font: inherit;
+        text-align: left;
+        cursor: pointer;
+      }
+
+      .template-card.selected {
+        border-color: var(--mat-sys-primary);
+        box-shadow: 0 0 0 1px var(--mat-sys-primary);
+      }
+
+      .template-preview {
+        display: grid;
+        grid-auto-rows: 14px;
+        gap: 2px;
+        height: 96px;
+        margin-bottom: 8px;
+        overflow: hidden;
+        border-radius: 4px;
+        background: var(--mat-sys-surface-container);
+      }
+
+      .template-preview.blank {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        color: var(--mat-sys-on-surface-variant);
+      }
+
+      .preview-widget {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        border-radius: 2px;
+        background: var(--mat-sys-primary-container);
+        color: var(--mat-sys-on-primary-container);
+      }
+
+      .preview-widget.invalid {
+        background: var(--mat-sys-error-container);
+        color: var(--mat-sys-on-error-container);
+      }
+
+      .preview-widget mat-icon {
+        font-size: 16px;
+        width: 16px;
+        height: 16px;
+      }
+
+      .template-name {
+        font-weight: 500;
+      }
+
+      .template-version,
+      .template-description {
+        font-size: 12px;
+        color: var(--mat-sys-on-surface-variant);
+      }
+
+      .template-issue {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 12px;
+        color: var(--mat-sys-error);
+      }
+
+      .template-issue mat-icon {
+        font-size: 16px;
+        width: 16px;
+        height: 16px;
+      }
+    `,
+  ],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DashboardTemplateGalleryComponent {
+  readonly data =
+    inject<DashboardTemplateGalleryData>(MAT_DIALOG_DATA);
+  private readonly dialogRef = inject(
+    MatDialogRef<
+      DashboardTemplateGalleryComponent,
+      DashboardTemplateGalleryResult
+    >
+  );
+  private readonly templates = inject(
+    DashboardTemplateRegistryService
+  );
+  private readonly widgetRegistry = inject(WidgetRegistryService);
+
+  readonly previews = this.templates
+    .getAllTemplates()
+    .map((template) => this.createPreview(template));
+
+  readonly selected = signal<
+    DashboardTemplateGalleryResult | undefined
+  >(undefined);
+  readonly selectedLabel = computed(() =>
+    this.selected() === null ? 'Create blank' : 'Use template'
+  );
+
+  /**
+   * Close without a choice
+   */
+  cancel(): void {
+    this.dialogRef.close();
+  }
+
+  /**
+   * Close with the chosen template
+   */
+  choose(template: DashboardTemplateGalleryResult): void {
+    this.dialogRef.close(template);
+  }
+
+  /**
+   * Lay out a template's widgets for the preview grid
+   */
+  private createPreview(
+    template: DashboardTemplate
+  ): TemplatePreview {
+    const issues = this.templates.checkTemplate(template);
+    const invalid = new Set(issues.map((issue) => issue.index));
+
+    return {
+      template,
+      cols: template.dashboard?.grid?.cols ?? 12,
+      widgets: template.widgets.map((widget, index) => {
+        const definition = this.widgetRegistry.getWidget(widget.type);
+
+        return {
+          name: definition?.name ?? widget.type,
+          icon: definition?.icon ?? 'widgets',
+          layout: { x: 0, y: 0, ...widget.config.layout },
+          invalid: invalid.has(index),
+        };
+      }),
+      issues,
+    };
+  }
+}
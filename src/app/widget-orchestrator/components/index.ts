@@ -1,2 +1,5 @@
+export * from './dashboard-name-dialog.component';
+export * from './dashboard-template-gallery.component';
+export * from './widget-config-dialog.component';
 export * from './widget-container.component';
 export * from './widget-dashboard.component';
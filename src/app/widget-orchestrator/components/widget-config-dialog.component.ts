@@ -0,0 +1,638 @@
+import { NgTemplateOutlet } from '@angular/common';
+import {
+  ChangeDetectionStrategy,
+  Component,
+  inject,
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  AbstractControl,
+  FormControl,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  ValidatorFn,
+  Validators,
+} from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import {
+  MAT_DIALOG_DATA,
+  MatDialogModule,
+  MatDialogRef,
+} from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { debounceTime, take } from 'rxjs/operators';
+
+import {
+  WidgetConfig,
+  WidgetConfigSchema,
+  WidgetInstance,
+} from '../interfaces';
+import { WidgetOrchestratorService } from '../services/widget-orchestrator.service';
+
+export interface WidgetConfigDialogData {
+  /** Widget instance being configured */
+  instance: WidgetInstance;
+
+  /** Resolved configuration schema for the widget type */
+  schema: WidgetConfigSchema;
+}
+
+type ConfigFieldKind =
+  | 'group'
+  | 'text'
+  | 'number'
+  | 'boolean'
+  | 'select'
+  | 'color'
+  | 'list'
+  | 'json';
+
+interface ConfigField {
+  key: string;
+  label: string;
+  description?: string;
+  kind: ConfigFieldKind;
+  schema: WidgetConfigSchema;
+  control?: FormControl<any>;
+  options?: (string | number)[];
+  multiple?: boolean;
+  children?: ConfigField[];
+}
+
+// Keys previewed live; data source changes only apply on save
+const PREVIEW_KEYS: (keyof WidgetConfig)[] = [
+  'title',
+  'description',
+  'appearance',
+  'settings',
+];
+
+/**
+ * Widget Config Dialog Component
+ * Renders a reactive form from a widget's configuration schema
+ */
+@Component({
+  selector: 'ngx-widget-config-dialog',
+  standalone: true,
+  imports: [
+    NgTemplateOutlet,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatDialogModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatSlideToggleModule,
+  ],
+  template: `
+    <h2 mat-dialog-title>
+      Configure {{ data.instance.definition.name }}
+    </h2>
+
+    <mat-dialog-content>
+      <form [formGroup]="form" class="config-form">
+        <ng-container
+          *ngTemplateOutlet="
+            fieldList;
+            context: { $implicit: fields }
+          "
+        ></ng-container>
+      </form>
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button (click)="cancel()">Cancel</button>
+      <button
+        mat-flat-button
+        [disabled]="form.invalid"
+        (click)="save()"
+      >
+        Save
+      </button>
+    </mat-dialog-actions>
+
+    <ng-template #fieldList let-fields>
+      @for (field of fields; track field.key) { @switch (field.kind) {
+      @case ('group') {
+      <fieldset class="config-section">
+        <legend>{{ field.label }}</legend>
+        <ng-container
+          *ngTemplateOutlet="
+            fieldList;
+            context: { $implicit: field.children }
+          "
+        ></ng-container>
+      </fieldset>
+      } @case ('boolean') {
+      <mat-slide-toggle
+        class="config-toggle"
+        [formControl]="field.control!"
+      >
+        {{ field.label }}
+      </mat-slide-toggle>
+      } @case ('select') {
+      <mat-form-field appearance="outline">
+        <mat-label>{{ field.label }}</mat-label>
+        <mat-select
+          [formControl]="field.control!"
+          [multiple]="field.multiple"
+        >
+          @if (!field.multiple) {
+          <mat-option [value]="null">None</mat-option>
+          } @for (option of field.options; track option) {
+          <mat-option [value]="option">{{ option }}</mat-option>
+          }
+        </mat-select>
+        @if (field.description) {
+        <mat-hint>{{ field.description }}</mat-hint>
+        }
+        <mat-error>{{ getErrorMessage(field) }}</mat-error>
+      </mat-form-field>
+      } @case ('color') {
+      <label class="config-color">
+        <input type="color" [formControl]="field.control!" />
+        {{ field.label }}
+      </label>
+      } @case ('json') {
+      <mat-form-field appearance="outline">
+        <mat-label>{{ field.label }}</mat-label>
+        <textarea
+          matInput
+          rows="4"
+          class="config-json"
+          [formControl]="field.control!"
+        ></textarea>
+        @if (field.description) {
+        <mat-hint>{{ field.description }}</mat-hint>
+        }
+        <mat-error>{{ getErrorMessage(field) }}</mat-error>
+      </mat-form-field>
+      } @default {
+      <mat-form-field appearance="outline">
+        <mat-label>{{ field.label }}</mat-label>
+        <input
+          matInput
+          [type]="field.kind === 'number' ? 'number' : 'text'"
+          [formControl]="field.control!"
+        />
+        @if (field.description) {
+        <mat-hint>{{ field.description }}</mat-hint>
+        } @else if (field.kind === 'list') {
+        <mat-hint>Comma-separated values</mat-hint>
+        }
+        <mat-error>{{ getErrorMessage(field) }}</mat-error>
+      </mat-form-field>
+      } } }
+    </ng-template>
+  `,
+  styles: [
+    `
+      .config-form {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        min-width: 360px;
+      }
+
+      .config-section {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin: 8px 0 0 0;
+        padding: 12px 16px;
+        border: 1px solid var(--mat-sys-outline-variant);
+        border-radius: 8px;
+      }
+
+      .config-section legend {
+        padding: 0 4px;
+        font-weight: 500;
+        color: var(--mat-sys-on-surface-variant);
+      }
+
+      .config-toggle {
+        margin: 4px 0 12px 0;
+      }
+
+      .config-color {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin-bottom: 12px;
+      }
+
+      .config-json {
+        font-family: monospace;
+      }
+    `,
+  ],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class WidgetConfigDialogComponent {
+  readonly data = inject<WidgetConfigDialogData>(MAT_DIALOG_DATA);
+  private readonly dialogRef = inject(
+    MatDialogRef<WidgetConfigDialogComponent, Partial<WidgetConfig>>
+  );
+  private readonly orchestrator = inject(WidgetOrchestratorService);
+
+  readonly form = new FormGroup({});
+  readonly fields: ConfigField[];
+
+  private readonly originalConfig: WidgetConfig = structuredClone(
+    this.data.instance.config
+  );
+  private previewed = false;
+  private closed = false;
+
+  constructor() {
+    this.fields = this.buildFields(
+      this.data.schema,
+      this.originalConfig,
+      this.form
+    );
+
+    // Preview valid changes on the live widget
+    this.form.valueChanges
+      .pipe(debounceTime(200), takeUntilDestroyed())
+      .subscribe(() => this.preview());
+
+    // Revert the preview unless changes were saved
+    this.dialogRef
+      .beforeClosed()
+      .pipe(take(1))
+      .subscribe((result) => {
+        this.closed = true;
+        if (!result && this.previewed) {
+          this.orchestrator.updateWidgetConfig(
+            this.data.instance.id,
+            this.pickPreviewKeys(this.originalConfig)
+          );
+        }
+      });
+  }
+
+  /**
+   * Close without applying changes
+   */
+  cancel(): void {
+    this.dialogRef.close();
+  }
+
+  /**
+   * Close with the updated configuration
+   */
+  save(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    this.dialogRef.close(this.buildConfig());
+  }
+
+  /**
+   * Get validation message for a field
+   */
+  getErrorMessage(field: ConfigField): string {
+    const errors = field.control?.errors ?? {};
+
+    if (errors['required']) return 'This field is required';
+    if (errors['minlength'])
+      return `Must be at least ${errors['minlength'].requiredLength} characters`;
+    if (errors['maxlength'])
+      return `Must be at most ${errors['maxlength'].requiredLength} characters`;
+    if (errors['pattern']) return 'Invalid format';
+    if (errors['min']) return `Must be at least ${errors['min'].min}`;
+    if (errors['max']) return `Must be at most ${errors['max'].max}`;
+    if (errors['integer']) return 'Must be a whole number';
+    if (errors['json']) return errors['json'];
+    return '';
+  }
+
+  /**
+   * Apply previewable changes to the widget
+   */
+  private preview(): void {
+    if (this.closed || this.form.invalid) {
+      return;
+    }
+
+    this.previewed = true;
+    this.orchestrator.updateWidgetConfig(
+      this.data.instance.id,
+      this.pickPreviewKeys(this.buildConfig())
+    );
+  }
+
+  /**
+   * Merge form values into the original configuration
+   */
+  private buildConfig(): Partial<WidgetConfig> {
+    return this.mergeValues(
+      this.originalConfig,
+      this.toConfigValue(this.fields)
+    );
+  }
+
+  /**
+   * Build form fields and controls for an object schema
+   */
+  private buildFields(
+    schema: WidgetConfigSchema,
+    value: Record<string, any> | undefined,
+    group: FormGroup
+  ): ConfigField[] {
+    return Object.entries(
+      schema.properties ?? {}
+    ).flatMap<ConfigField>(([key, propertySchema]) => {
+      if (propertySchema.readOnly) {
+        return [];
+      }
+
+      const required = schema.required?.includes(key) ?? false;
+      const current = value?.[key];
+      const label = propertySchema.title ?? key;
+
+      if (
+        propertySchema.type === 'object' &&
+        propertySchema.properties
+      ) {
+        // Optional sections with required fields only show once configured
+        if (
+          !required &&
+          current === undefined &&
+          propertySchema.required?.length
+        ) {
+          return [];
+        }
+
+        const childGroup = new FormGroup({});
+        const children = this.buildFields(
+          propertySchema,
+          current,
+          childGroup
+        );
+        if (children.length === 0) {
+          return [];
+        }
+
+        group.addControl(key, childGroup);
+        return [
+          {
+            key,
+            label,
+            kind: 'group',
+            schema: propertySchema,
+            children,
+          },
+        ];
+      }
+
+      const kind = this.getFieldKind(propertySchema);
+      const control = new FormControl(
+        this.toFormValue(kind, propertySchema, current),
+        this.getValidators(propertySchema, kind, required)
+      );
+      group.addControl(key, control);
+
+      return [
+        {
+          key,
+          label,
+          description: propertySchema.description,
+          kind,
+          schema: propertySchema,
+          control,
+          options: propertySchema.enum ?? propertySchema.items?.enum,
+          multiple: propertySchema.type === 'array',
+        },
+      ];
+    });
+  }
+
+  /**
+   * Pick the form control type for a schema
+   */
+  private getFieldKind(schema: WidgetConfigSchema): ConfigFieldKind {
+    switch (schema.type) {
+      case 'boolean':
+        return 'boolean';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'string':
+        if (schema.enum) return 'select';
+        return schema.format === 'color' ? 'color' : 'text';
+      case 'array':
+        if (schema.items?.enum) return 'select';
+        return ['string', 'number', 'integer'].includes(
+          schema.items?.type ?? ''
+        )
+          ? 'list'
+          : 'json';
+      default:
+        return 'json';
+    }
+  }
+
+  /**
+   * Build validators for a field
+   */
+  private getValidators(
+    schema: WidgetConfigSchema,
+    kind: ConfigFieldKind,
+    required: boolean
+  ): ValidatorFn[] {
+    const validators: ValidatorFn[] = [];
+
+    if (required && kind !== 'boolean') {
+      validators.push(Validators.required);
+    }
+    if (schema.minLength !== undefined) {
+      validators.push(Validators.minLength(schema.minLength));
+    }
+    if (schema.maxLength !== undefined) {
+      validators.push(Validators.maxLength(schema.maxLength));
+    }
+    if (schema.pattern) {
+      validators.push(Validators.pattern(schema.pattern));
+    }
+    if (schema.minimum !== undefined) {
+      validators.push(Validators.min(schema.minimum));
+    }
+    if (schema.maximum !== undefined) {
+      validators.push(Validators.max(schema.maximum));
+    }
+    if (schema.type === 'integer') {
+      validators.push(integerValidator);
+    }
+    if (kind === 'json') {
+      validators.push(jsonValidator(schema.type));
+    }
+
+    return validators;
+  }
+
+  /**
+   * Convert a config value into a form value
+   */
+  private toFormValue(
+    kind: ConfigFieldKind,
+    schema: WidgetConfigSchema,
+    value: any
+  ): any {
+    const resolved = value ?? schema.default;
+
+    switch (kind) {
+      case 'list':
+        return Array.isArray(resolved) ? resolved.join(', ') : '';
+      case 'json':
+        return resolved === undefined
+          ? ''
+          : JSON.stringify(resolved, null, 2);
+      case 'select':
+        return schema.type === 'array'
+          ? resolved ?? []
+          : resolved ?? null;
+      default:
+        return resolved ?? null;
+    }
+  }
+
+  /**
+   * Convert form values back into a config object
+   */
+  private toConfigValue(fields: ConfigField[]): Record<string, any> {
+    return Object.fromEntries(
+      fields.map((field) => [
+        field.key,
+        field.kind === 'group'
+          ? this.toConfigValue(field.children ?? [])
+          : this.fromFormValue(field),
+      ])
+    );
+  }
+
+  /**
+   * Convert a single form value into a config value
+   */
+  private fromFormValue(field: ConfigField): any {
+    const value = field.control?.value;
+
+    switch (field.kind) {
+      case 'number':
+        return value === null || value === ''
+          ? undefined
+          : Number(value);
+      case 'list': {
+        const items = String(value ?? '')
+          .split(',')
+          .map((item) => item.trim())
+          .filter((item) => item.length > 0)
+          .map((item) =>
+            field.schema.items?.type === 'string'
+              ? item
+              : Number(item)
+          );
+        return items.length > 0 ? items : undefined;
+      }
+      case 'json':
+        return value ? JSON.parse(value) : undefined;
+      default:
+        return value === null || value === '' ? undefined : value;
+    }
+  }
+
+  /**
+   * Deep-merge form values, keeping config keys the form does not cover
+   */
+  private mergeValues(
+    target: Record<string, any>,
+    source: Record<string, any>
+  ): Record<string, any> {
+    const result: Record<string, any> = { ...target };
+
+    Object.entries(source).forEach(([key, value]) => {
+      const existing = target?.[key];
+      result[key] =
+        this.isPlainObject(value) && this.isPlainObject(existing)
+          ? this.mergeValues(existing, value)
+          : value;
+    });
+
+    return result;
+  }
+
+  /**
+   * Select the configuration keys applied during preview
+   */
+  private pickPreviewKeys(
+    config: Partial<WidgetConfig>
+  ): Partial<WidgetConfig> {
+    return Object.fromEntries(
+      PREVIEW_KEYS.map((key) => [key, config[key]])
+    );
+  }
+
+  private isPlainObject(value: any): value is Record<string, any> {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value)
+    );
+  }
+}
+
+/**
+ * Require whole numbers
+ */
+function integerValidator(
+  control: AbstractControl
+): ValidationErrors | null {
+  const value = control.value;
+  if (
+    value === null ||
+    value === '' ||
+    Number.isInteger(Number(value))
+  ) {
+    return null;
+  }
+
+  return { integer: true };
+}
+
+/**
+ * Require valid JSON of the expected type
+ */
+function jsonValidator(
+  type: WidgetConfigSchema['type']
+): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (!control.value) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(control.value);
+      const isArray = Array.isArray(parsed);
+
+      if (type === 'array' && !isArray) {
+        return { json: 'Must be a JSON array' };
+      }
+      if (
+        type === 'object' &&
+        (isArray || typeof parsed !== 'object' || parsed === null)
+      ) {
+        return { json: 'Must be a JSON object' };
+      }
+
+      return null;
+    } catch {
+      return { json: 'Invalid JSON' };
+    }
+  };
+}
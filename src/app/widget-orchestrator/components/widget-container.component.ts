@@ -115,12 +115,14 @@ import { WidgetOrchestratorService } from '../services/widget-orchestrator.servi
         }
 
         <!-- Error State -->
-        @if (hasError()) {
+        @if (showErrorCard()) {
         <div class="widget-error-content">
           <mat-icon class="error-icon">error</mat-icon>
           <h3>Widget Error</h3>
           <p>{{ errorMessage() }}</p>
-          @if (canRetry()) {
+          @if (retryMessage()) {
+          <p class="widget-retry-status">{{ retryMessage() }}</p>
+          } @if (canRetry()) {
           <button
             mat-raised-button
             color="primary"
@@ -133,12 +135,13 @@ import { WidgetOrchestratorService } from '../services/widget-orchestrator.servi
         }
 
         <!-- Widget Component Container -->
-        @if(!hasError() && !isLoading()) {
+        <!-- Always present so the widget or its fallback can mount -->
         <div
           class="widget-component-container"
-          #widgetContainer
-        ></div>
-        }
+          [hidden]="isLoading() || showErrorCard()"
+        >
+          <ng-container #widgetContainer></ng-container>
+        </div>
       </mat-card-content>
 
       <!-- Settings Menu -->
@@ -264,6 +267,10 @@ import { WidgetOrchestratorService } from '../services/widget-orchestrator.servi
         color: #666;
       }
 
+      .widget-retry-status {
+        font-size: 12px;
+      }
+
       .error-icon {
         font-size: 48px;
         width: 48px;
@@ -294,7 +301,13 @@ import { WidgetOrchestratorService } from '../services/widget-orchestrator.servi
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class WidgetContainerComponent implements OnInit, OnDestroy {
-  @Input({ required: true }) instance!: WidgetInstance;
+  @Input({ required: true })
+  set instance(instance: WidgetInstance) {
+    this._instance.set(instance);
+  }
+  get instance(): WidgetInstance {
+    return this._instance();
+  }
   @Input() showHeader = true;
   @Input() showActions = true;
   @Input() allowResize = true;
@@ -315,6 +328,10 @@ export class WidgetContainerComponent implements OnInit, OnDestroy {
   private readonly destroy$ = new Subject<void>();
 
   // Reactive state
+  // Instances are mutated in place, so every set must notify
+  private readonly _instance = signal<WidgetInstance>(undefined!, {
+    equal: () => false,
+  });
   private readonly _state = signal<WidgetState>(
     WidgetState.INITIALIZING
   );
@@ -354,14 +371,31 @@ export class WidgetContainerComponent implements OnInit, OnDestroy {
   readonly loadingMessage = computed(() => this._loadingMessage());
 
   readonly canRefresh = computed(
-    () =>
-      this.instance?.config?.dataSource?.refreshInterval !== undefined
+    () => this.instance?.config?.dataSource !== undefined
   );
 
   readonly canRetry = computed(
     () => this._error()?.recoverable !== false
   );
 
+  // A fallback component replaces the error card
+  readonly showErrorCard = computed(
+    () =>
+      this.hasError() && !this.instance?.definition?.fallbackComponent
+  );
+
+  readonly retryMessage = computed(() => {
+    const retry = this._error() ? this.instance?.retry : undefined;
+    if (!retry?.nextRetryAt) {
+      return '';
+    }
+
+    const time = retry.nextRetryAt.toLocaleTimeString();
+    return retry.circuit === 'open'
+      ? `Paused after repeated failures. Trying again at ${time}.`
+      : `Retrying automatically at ${time} (attempt ${retry.attempt}).`;
+  });
+
   readonly canRemove = computed(
     () =>
       this.allowRemove && this.instance?.config?.removable !== false
@@ -445,7 +479,6 @@ export class WidgetContainerComponent implements OnInit, OnDestroy {
               this.instance,
               this.widgetContainer
             );
-            this._state.set(WidgetState.LOADED);
           }
         } catch (loadError) {
           console.error('Widget loading failed:', loadError);
@@ -486,26 +519,31 @@ export class WidgetContainerComponent implements OnInit, OnDestroy {
    * Setup state subscriptions
    */
   private setupStateSubscriptions(): void {
-    // Monitor instance state changes
+    if (!this.instance) {
+      return;
+    }
+
+    // Monitor instance changes such as configuration updates
     this.orchestrator
-      .getInstances$()
+      .getWidget$(this.instance.id)
       .pipe(takeUntil(this.destroy$))
-      .subscribe((instances) => {
-        const updatedInstance = instances.find(
-          (i) => i.id === this.instance?.id
-        );
-        if (updatedInstance) {
-          this.instance = updatedInstance;
-          this._state.set(updatedInstance.state);
-
-          if (updatedInstance.error) {
-            this._error.set(updatedInstance.error);
-          } else {
-            this._error.set(null);
-          }
+      .subscribe((instance) => {
+        this.instance = instance;
+        this.cdr.markForCheck();
+      });
 
-          this.cdr.markForCheck();
-        }
+    // Monitor lifecycle state changes
+    this.orchestrator
+      .getWidgetState$(this.instance.id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((state) => {
+        this._state.set(state);
+        this._error.set(
+          state === WidgetState.ERROR
+            ? this.instance.error ?? null
+            : null
+        );
+        this.cdr.markForCheck();
       });
   }
 
@@ -526,21 +564,24 @@ export class WidgetContainerComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Refresh widget
+   * Refresh widget data
    */
   refreshWidget(): void {
     if (this.instance?.config?.dataSource) {
-      this._loadingMessage.set('Refreshing data...');
-      this.loadWidget();
+      this.orchestrator.refreshWidgetData(this.instance.id);
     }
   }
 
   /**
    * Retry widget loading
    */
-  retryWidget(): void {
+  async retryWidget(): Promise<void> {
     this._error.set(null);
-    this.loadWidget();
+
+    // Widgets that never reached the orchestrator load from scratch
+    if (!(await this.orchestrator.retryWidget(this.instance.id))) {
+      this.loadWidget();
+    }
   }
 
   /**
@@ -1,38 +1,136 @@
-import { CdkDragDrop, DragDropModule } from '@angular/cdk/drag-drop';
+import { LiveAnnouncer } from '@angular/cdk/a11y';
+import {
+  CdkDrag,
+  CdkDragEnd,
+  CdkDragMove,
+  CdkDragStart,
+  DragDropModule,
+} from '@angular/cdk/drag-drop';
+import { DOCUMENT } from '@angular/common';
 
 import {
   ChangeDetectionStrategy,
   ChangeDetectorRef,
   Component,
+  ElementRef,
+  EventEmitter,
   Input,
+  OnChanges,
   OnDestroy,
   OnInit,
+  Output,
+  SimpleChanges,
+  ViewChild,
   computed,
   inject,
   signal,
 } from '@angular/core';
 import { MatButtonModule } from '@angular/material/button';
+import { MatDialog } from '@angular/material/dialog';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatIconModule } from '@angular/material/icon';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatSnackBar } from '@angular/material/snack-bar';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatTooltipModule } from '@angular/material/tooltip';
-import { Subject, combineLatest } from 'rxjs';
-import { map, takeUntil } from 'rxjs/operators';
+import {
+  Observable,
+  Subject,
+  combineLatest,
+  firstValueFrom,
+  fromEvent,
+  interval,
+  merge,
+  of,
+} from 'rxjs';
+import {
+  catchError,
+  debounceTime,
+  distinctUntilChanged,
+  filter,
+  finalize,
+  map,
+  switchMap,
+  takeUntil,
+  takeWhile,
+} from 'rxjs/operators';
 
 import { AssessmentTestService } from '../../assessment-test.service';
 import {
   DashboardConfig,
+  DashboardTemplate,
+  WidgetConfig,
   WidgetDefinition,
   WidgetInstance,
+  WidgetLayout,
 } from '../interfaces';
+import {
+  DashboardEditType,
+  DashboardHistoryService,
+  DashboardHistoryState,
+} from '../services/dashboard-history.service';
 import { DashboardLayoutManagerService } from '../services/dashboard-layout-manager.service';
+import {
+  DashboardDocument,
+  DashboardSerializerService,
+} from '../services/dashboard-serializer.service';
+import { DashboardSummary } from '../services/dashboard-storage.service';
+import { DashboardTemplateRegistryService } from '../services/dashboard-template-registry.service';
 import { WidgetCommunicationService } from '../services/widget-communication.service';
 import { WidgetOrchestratorService } from '../services/widget-orchestrator.service';
 import { WidgetRegistryService } from '../services/widget-registry.service';
+import {
+  DashboardNameDialogComponent,
+  DashboardNameDialogData,
+} from './dashboard-name-dialog.component';
+import {
+  DashboardTemplateGalleryComponent,
+  DashboardTemplateGalleryData,
+  DashboardTemplateGalleryResult,
+} from './dashboard-template-gallery.component';
+import {
+  WidgetConfigDialogComponent,
+  WidgetConfigDialogData,
+} from './widget-config-dialog.component';
 import { WidgetContainerComponent } from './widget-container.component';
 
+export type DashboardSaveStatus =
+  | 'saved'
+  | 'saving'
+  | 'unsaved'
+  | 'conflict';
+
+/** Edge or corner a widget is resized from */
+export type ResizeDirection =
+  | 'n'
+  | 'ne'
+  | 'e'
+  | 'se'
+  | 's'
+  | 'sw'
+  | 'w'
+  | 'nw';
+
+const SAVE_STATUS_DISPLAY: Record<
+  DashboardSaveStatus,
+  { icon: string; label: string }
+> = {
+  saving: { icon: 'sync', label: 'Saving…' },
+  saved: { icon: 'cloud_done', label: 'Saved' },
+  unsaved: { icon: 'edit_note', label: 'Unsaved changes' },
+  conflict: { icon: 'sync_problem', label: 'Changed elsewhere' },
+};
+
+const EDIT_LABELS: Record<DashboardEditType, string> = {
+  move: 'move',
+  resize: 'resize',
+  add: 'add widget',
+  remove: 'remove widget',
+  config: 'configuration change',
+  title: 'rename',
+  trash: 'empty trash',
+};
+
 @Component({
   selector: 'ngx-widget-dashboard',
   standalone: true,
@@ -47,10 +145,20 @@ import { WidgetContainerComponent } from './widget-container.component';
     WidgetContainerComponent,
   ],
   template: `
-    <div class="dashboard-container">
+    <div class="dashboard-container" #dashboardContainer>
       <!-- Dashboard Toolbar -->
       <mat-toolbar color="primary" class="dashboard-toolbar">
-        <!-- <span>{{ dashboardTitle() }}</span> -->
+        <!-- Dashboard Switcher -->
+        <button
+          mat-button
+          class="dashboard-switcher"
+          [matMenuTriggerFor]="switcherMenu"
+          (menuOpened)="refreshDashboards()"
+          matTooltip="Switch Dashboard"
+        >
+          <span>{{ dashboardTitle() }}</span>
+          <mat-icon iconPositionEnd>arrow_drop_down</mat-icon>
+        </button>
 
         <div class="toolbar-spacer"></div>
 
@@ -63,6 +171,52 @@ import { WidgetContainerComponent } from './widget-container.component';
           <mat-icon>add</mat-icon>
         </button>
 
+        <button
+          mat-icon-button
+          (click)="undo()"
+          [disabled]="!historyState().undo"
+          [matTooltip]="undoTooltip()"
+        >
+          <mat-icon>undo</mat-icon>
+        </button>
+
+        <button
+          mat-icon-button
+          (click)="redo()"
+          [disabled]="!historyState().redo"
+          [matTooltip]="redoTooltip()"
+        >
+          <mat-icon>redo</mat-icon>
+        </button>
+
+        <span
+          class="save-status"
+          [class.save-status-unsaved]="saveStatus() === 'unsaved'"
+          [class.save-status-conflict]="saveStatus() === 'conflict'"
+          role="status"
+          aria-live="polite"
+        >
+          <mat-icon>{{ saveStatusDisplay().icon }}</mat-icon>
+          <span>{{ saveStatusDisplay().label }}</span>
+        </span>
+
+        @if (saveStatus() === 'conflict') {
+        <button
+          mat-button
+          (click)="reloadDashboard()"
+          matTooltip="Discard your changes and load the saved dashboard"
+        >
+          Reload
+        </button>
+        <button
+          mat-button
+          (click)="saveLayout(true)"
+          matTooltip="Replace the saved dashboard with yours"
+        >
+          Overwrite
+        </button>
+        }
+
         <button
           mat-icon-button
           (click)="saveLayout()"
@@ -79,6 +233,16 @@ import { WidgetContainerComponent } from './widget-container.component';
           <mat-icon>grid_view</mat-icon>
         </button>
 
+        <button
+          mat-icon-button
+          [matMenuTriggerFor]="trashMenu"
+          [matTooltip]="'Trash (' + trash().length + ')'"
+        >
+          <mat-icon>{{
+            trash().length ? 'delete' : 'delete_outline'
+          }}</mat-icon>
+        </button>
+
         <button
           mat-icon-button
           [matMenuTriggerFor]="dashboardMenu"
@@ -94,7 +258,7 @@ import { WidgetContainerComponent } from './widget-container.component';
           class="draggable-grid"
           cdkDropList
           [cdkDropListData]="widgets()"
-          (cdkDropListDropped)="onWidgetDrop($event)"
+          cdkDropListSortingDisabled
           [style.grid-template-columns]="
             'repeat(' + gridCols() + ', 1fr)'
           "
@@ -108,6 +272,15 @@ import { WidgetContainerComponent } from './widget-container.component';
             class="widget-item"
             cdkDrag
             [cdkDragData]="widget"
+            [cdkDragDisabled]="widget.config.locked"
+            tabindex="0"
+            role="group"
+            [attr.aria-label]="getWidgetPositionLabel(widget)"
+            aria-describedby="widget-keyboard-help"
+            [class.keyboard-grabbed]="
+              grabbedWidget()?.id === widget.id
+            "
+            [class.resizing]="resizingWidget()?.id === widget.id"
             [style.grid-column-start]="
               (widget.config.layout.x || 0) + 1
             "
@@ -127,7 +300,10 @@ import { WidgetContainerComponent } from './widget-container.component';
               gridGutter() * (widget.config.layout.rows - 1)
             "
             (cdkDragStarted)="onDragStarted($event, widget)"
+            (cdkDragMoved)="onDragMoved($event, widget)"
             (cdkDragEnded)="onDragEnded($event, widget)"
+            (keydown)="onWidgetKeydown($event, widget)"
+            (blur)="onWidgetBlur(widget)"
           >
             <!-- Drag Handle -->
             <div
@@ -135,56 +311,60 @@ import { WidgetContainerComponent } from './widget-container.component';
               cdkDragHandle
               matTooltip="Drag to move widget"
               [style.display]="
-                widget.config.movable === false ? 'none' : 'flex'
+                widget.config.movable === false ||
+                widget.config.locked
+                  ? 'none'
+                  : 'flex'
               "
             >
               <mat-icon>drag_indicator</mat-icon>
             </div>
 
             <!-- Resize Handles -->
-            @if (widget.config.resizable !== false) {
+            @if (widget.config.resizable !== false &&
+            !widget.config.locked) {
             <div class="resize-handles">
               <!-- Corner resize handles -->
               <div
                 class="resize-handle corner-se"
-                (mousedown)="startResize($event, widget, 'se')"
+                (pointerdown)="startResize($event, widget, 'se')"
                 matTooltip="Resize widget"
               ></div>
               <div
                 class="resize-handle corner-sw"
-                (mousedown)="startResize($event, widget, 'sw')"
+                (pointerdown)="startResize($event, widget, 'sw')"
                 matTooltip="Resize widget"
               ></div>
               <div
                 class="resize-handle corner-ne"
-                (mousedown)="startResize($event, widget, 'ne')"
+                (pointerdown)="startResize($event, widget, 'ne')"
                 matTooltip="Resize widget"
               ></div>
               <div
                 class="resize-handle corner-nw"
-                (mousedown)="startResize($event, widget, 'nw')"
+                (pointerdown)="startResize($event, widget, 'nw')"
                 matTooltip="Resize widget"
               ></div>
 
               <!-- Edge resize handles -->
               <div
                 class="resize-handle edge-n"
-                (mousedown)="startResize($event, widget, 'n')"
+                (pointerdown)="startResize($event, widget, 'n')"
                 matTooltip="Resize widget"
               ></div>
               <div
                 class="resize-handle edge-s"
-                (mousedown)="startResize($event, widget, 's')"
+                (pointerdown)="startResize($event, widget, 's')"
                 matTooltip="Resize widget"
               ></div>
               <div
                 class="resize-handle edge-e"
-                (mousedown)="startResize($event, widget, 'e')"
+                (pointerdown)="startResize($event, widget, 'e')"
                 matTooltip="Resize widget"
               ></div>
               <div
                 class="resize-handle edge-w"
-                (mousedown)="startResize($event, widget, 'w')"
+                (pointerdown)="startResize($event, widget, 'w')"
                 matTooltip="Resize widget"
               ></div>
             </div>
@@ -202,10 +382,26 @@ import { WidgetContainerComponent } from './widget-container.component';
               class="widget-container-wrapper"
             ></ngx-widget-container>
 
-            <!-- Enhanced Drag Placeholder -->
+            <!-- Enhanced Drag Placeholder, at the previewed drop position -->
             <div
               class="enhanced-drag-placeholder"
               *cdkDragPlaceholder
+              [style.grid-column]="
+                (widget.config.layout.x || 0) +
+                1 +
+                ' / span ' +
+                widget.config.layout.cols
+              "
+              [style.grid-row]="
+                (widget.config.layout.y || 0) +
+                1 +
+                ' / span ' +
+                widget.config.layout.rows
+              "
+              [style.min-height.px]="
+                gridRowHeight() * widget.config.layout.rows +
+                gridGutter() * (widget.config.layout.rows - 1)
+              "
             >
               <div class="placeholder-content">
                 <mat-icon>dashboard</mat-icon>
@@ -217,12 +413,13 @@ import { WidgetContainerComponent } from './widget-container.component';
           }
 
           <!-- Grid Position Indicators -->
-          @if (isDragging()) {
+          @if (isDragging() || grabbedWidget()) {
           <div class="grid-indicators">
             @for (row of gridRows(); track $index) { @for (col of
             gridColumns(); track $index) {
             <div
               class="grid-cell-indicator"
+              [class.drop-target]="isDropTarget(col, row)"
               [style.grid-column]="col + 1"
               [style.grid-row]="row + 1"
               (click)="snapToGrid(col, row)"
@@ -233,6 +430,12 @@ import { WidgetContainerComponent } from './widget-container.component';
         </div>
       </div>
 
+      <div id="widget-keyboard-help" class="cdk-visually-hidden">
+        Press Space or Enter to pick up the widget. Use the arrow keys
+        to move it and Shift with the arrow keys to resize it. Press
+        Enter to drop it or Escape to cancel.
+      </div>
+
       <!-- Empty State -->
       @if (widgets().length === 0) {
       <div class="empty-state">
@@ -276,12 +479,70 @@ import { WidgetContainerComponent } from './widget-container.component';
         }
       </mat-menu>
 
+      <!-- Dashboard Switcher Menu -->
+      <mat-menu #switcherMenu="matMenu">
+        @for (dashboard of dashboards(); track dashboard.id) {
+        <button mat-menu-item (click)="switchDashboard(dashboard.id)">
+          <mat-icon>{{
+            dashboard.id === activeDashboardId()
+              ? 'check'
+              : 'dashboard'
+          }}</mat-icon>
+          <span>{{ dashboard.title }}</span>
+        </button>
+        }
+        <mat-divider></mat-divider>
+        <button mat-menu-item (click)="createDashboard()">
+          <mat-icon>add</mat-icon>
+          <span>New Dashboard</span>
+        </button>
+        <button mat-menu-item (click)="openRenameDialog()">
+          <mat-icon>edit</mat-icon>
+          <span>Rename Dashboard</span>
+        </button>
+        <button mat-menu-item (click)="cloneDashboard()">
+          <mat-icon>content_copy</mat-icon>
+          <span>Clone Dashboard</span>
+        </button>
+        <button mat-menu-item (click)="deleteDashboard()">
+          <mat-icon>delete</mat-icon>
+          <span>Delete Dashboard</span>
+        </button>
+      </mat-menu>
+
+      <!-- Trash Menu -->
+      <mat-menu #trashMenu="matMenu">
+        @for (widget of trash(); track widget.id) {
+        <button mat-menu-item (click)="restoreWidget(widget.id)">
+          <mat-icon>restore_from_trash</mat-icon>
+          <span>{{ widget.config.title }}</span>
+        </button>
+        } @empty {
+        <button mat-menu-item disabled>
+          <span>Trash is empty</span>
+        </button>
+        }
+        <mat-divider></mat-divider>
+        <button
+          mat-menu-item
+          (click)="emptyTrash()"
+          [disabled]="trash().length === 0"
+        >
+          <mat-icon>delete_forever</mat-icon>
+          <span>Empty Trash</span>
+        </button>
+      </mat-menu>
+
       <!-- Dashboard Menu -->
       <mat-menu #dashboardMenu="matMenu">
         <button mat-menu-item (click)="resetLayout()">
           <mat-icon>restore</mat-icon>
           <span>Reset Layout</span>
         </button>
+        <button mat-menu-item (click)="resetBreakpointLayout()">
+          <mat-icon>devices</mat-icon>
+          <span>Auto-arrange for This Screen Size</span>
+        </button>
         <button mat-menu-item (click)="exportDashboard()">
           <mat-icon>download</mat-icon>
           <span>Export Dashboard</span>
@@ -316,6 +577,35 @@ import { WidgetContainerComponent } from './widget-container.component';
         flex: 1 1 auto;
       }
 
+      .dashboard-switcher {
+        font-size: 18px;
+      }
+
+      .save-status {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        margin-right: 8px;
+        font-size: 14px;
+        opacity: 0.85;
+      }
+
+      .save-status mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+
+      .save-status-unsaved,
+      .save-status-conflict {
+        opacity: 1;
+        font-weight: 500;
+      }
+
+      .save-status-conflict {
+        color: #f44336;
+      }
+
       .grid-container {
         flex: 1;
         overflow: auto;
@@ -544,12 +834,20 @@ import { WidgetContainerComponent } from './widget-container.component';
         opacity: 0;
         transition: opacity 0.2s ease;
         pointer-events: auto;
+        touch-action: none;
       }
 
       .widget-item:hover .resize-handle {
         opacity: 0.8;
       }
 
+      /* No hover on touch screens, so keep handles visible */
+      @media (hover: none) {
+        .resize-handle {
+          opacity: 0.5;
+        }
+      }
+
       .resize-handle:hover {
         opacity: 1 !important;
       }
@@ -652,7 +950,6 @@ import { WidgetContainerComponent } from './widget-container.component';
         display: flex;
         align-items: center;
         justify-content: center;
-        min-height: 200px;
         animation: pulse 2s infinite;
       }
 
@@ -702,6 +999,11 @@ import { WidgetContainerComponent } from './widget-container.component';
         border-color: rgba(33, 150, 243, 0.5);
       }
 
+      .grid-cell-indicator.drop-target {
+        background: rgba(33, 150, 243, 0.2);
+        border-color: rgba(33, 150, 243, 0.6);
+      }
+
       /* Dragging and Resizing States */
       .widget-item.cdk-drag-dragging {
         z-index: 1000;
@@ -711,6 +1013,18 @@ import { WidgetContainerComponent } from './widget-container.component';
         background-color: #ffffff;
       }
 
+      .widget-item:focus-visible {
+        outline: 2px solid #2196f3;
+        outline-offset: 2px;
+      }
+
+      .widget-item.keyboard-grabbed {
+        z-index: 999;
+        outline: 2px dashed #2196f3;
+        outline-offset: 2px;
+        box-shadow: 0 8px 16px rgba(33, 150, 243, 0.3);
+      }
+
       .widget-item.resizing {
         z-index: 999;
         box-shadow: 0 8px 16px rgba(33, 150, 243, 0.3);
@@ -725,22 +1039,106 @@ import { WidgetContainerComponent } from './widget-container.component';
   ],
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class WidgetDashboardComponent implements OnInit, OnDestroy {
+export class WidgetDashboardComponent
+  implements OnInit, OnChanges, OnDestroy
+{
   @Input() dashboardId = 'default';
   @Input() autoLoad = true;
   @Input() autoSave = true;
 
+  /** Template for dashboards that have not been saved yet */
+  @Input() defaultTemplate = 'getting-started';
+
+  /** Offer the template gallery when the user has no dashboards */
+  @Input() showTemplateGallery = true;
+
+  /**
+   * Pick grid breakpoints by the dashboard's own width, or by the
+   * viewport's, e.g. when the dashboard always fills the window
+   */
+  @Input() breakpointSource: 'container' | 'viewport' = 'container';
+
+  /** Emits when the user switches, creates or deletes dashboards */
+  @Output() dashboardIdChange = new EventEmitter<string>();
+
+  @ViewChild('dashboardContainer', { static: true })
+  private readonly container!: ElementRef<HTMLElement>;
+
   private readonly orchestrator = inject(WidgetOrchestratorService);
   private readonly registry = inject(WidgetRegistryService);
+  private readonly templates = inject(
+    DashboardTemplateRegistryService
+  );
   private readonly layoutManager = inject(
     DashboardLayoutManagerService
   );
   private readonly communication = inject(WidgetCommunicationService);
   private readonly assessmentService = inject(AssessmentTestService);
   private readonly snackBar = inject(MatSnackBar);
+  private readonly liveAnnouncer = inject(LiveAnnouncer);
+  private readonly dialog = inject(MatDialog);
   private readonly cdr = inject(ChangeDetectorRef);
+  private readonly serializer = inject(DashboardSerializerService);
+  private readonly history = inject(DashboardHistoryService);
+  private readonly document = inject(DOCUMENT);
   private readonly destroy$ = new Subject<void>();
 
+  // Auto-save state: snapshots of the current and last saved dashboard
+  private readonly autoSaveDebounce = 1000;
+  private readonly defaultAutoSaveInterval = 30000;
+  private readonly _currentSnapshot = signal('');
+  private readonly _savedSnapshot = signal('');
+  private readonly _pendingSaves = signal(0);
+  private readonly _saveConflict = signal(false);
+  private restoring = false;
+
+  readonly saveStatus = computed<DashboardSaveStatus>(() => {
+    if (this._pendingSaves() > 0) {
+      return 'saving';
+    }
+    if (this._saveConflict()) {
+      return 'conflict';
+    }
+    return this._currentSnapshot() === this._savedSnapshot()
+      ? 'saved'
+      : 'unsaved';
+  });
+  readonly saveStatusDisplay = computed(
+    () => SAVE_STATUS_DISPLAY[this.saveStatus()]
+  );
+
+  // Named dashboards
+  private readonly storageKeyPrefix = 'dashboard-';
+  private readonly _activeDashboardId = signal('');
+  private readonly _dashboards = signal<DashboardSummary[]>([]);
+  readonly activeDashboardId = this._activeDashboardId.asReadonly();
+  readonly dashboards = computed(() => {
+    const activeId = this._activeDashboardId();
+    const saved = this._dashboards()
+      .map((summary) => ({
+        id: summary.key.slice(this.storageKeyPrefix.length),
+        title: summary.title,
+      }))
+      .filter((dashboard) => dashboard.id !== activeId);
+
+    return [
+      ...saved,
+      { id: activeId, title: this.dashboardTitle() },
+    ].sort((a, b) => a.title.localeCompare(b.title));
+  });
+
+  // Undo/redo state
+  private readonly _historyState = signal<DashboardHistoryState>({});
+  readonly historyState = this._historyState.asReadonly();
+  readonly undoTooltip = computed(() => {
+    const { undo } = this._historyState();
+    return undo ? `Undo ${EDIT_LABELS[undo]} (Ctrl+Z)` : 'Undo';
+  });
+  readonly redoTooltip = computed(() => {
+    const { redo } = this._historyState();
+    return redo ? `Redo ${EDIT_LABELS[redo]} (Ctrl+Shift+Z)` : 'Redo';
+  });
+
   // Dashboard state
   private readonly _dashboardConfig = signal<DashboardConfig>({
     id: this.dashboardId,
@@ -772,20 +1170,51 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
     () => this._dashboardConfig().grid.outerMargin
   );
   readonly widgets = computed(() => this._dashboardConfig().widgets);
+  readonly trash = computed(
+    () => this._dashboardConfig().trash ?? []
+  );
   readonly availableCategories = computed(() =>
     this.registry.getCategories()
   );
 
   // Grid interaction state
   private readonly _isDragging = signal<boolean>(false);
-  private readonly _isResizing = signal<boolean>(false);
+  private readonly _resizingWidget = signal<WidgetInstance | null>(
+    null
+  );
   private readonly _currentDragWidget = signal<WidgetInstance | null>(
     null
   );
 
+  // Widget picked up with the keyboard
+  private readonly _grabbedWidget = signal<WidgetInstance | null>(
+    null
+  );
+
+  // Layouts before the current drag or keyboard move, restored if it
+  // is cancelled
+  private dragOrigin: Record<string, WidgetLayout> = {};
+  private dragTarget: { x: number; y: number } | null = null;
+  private dragCancelled = false;
+  private activeDrag: CdkDrag | null = null;
+  private keyboardTarget: WidgetLayout | null = null;
+
   // Grid computed properties
   readonly isDragging = computed(() => this._isDragging());
-  readonly isResizing = computed(() => this._isResizing());
+  readonly grabbedWidget = computed(() => this._grabbedWidget());
+  readonly dragFootprint = computed(() => {
+    const dragged =
+      this._currentDragWidget() ?? this._grabbedWidget();
+    return dragged
+      ? this._dashboardConfig().widgets.find(
+          (widget) => widget.id === dragged.id
+        )?.config.layout ?? null
+      : null;
+  });
+  readonly resizingWidget = computed(() => this._resizingWidget());
+  readonly isResizing = computed(
+    () => this._resizingWidget() !== null
+  );
   readonly gridRows = computed(() =>
     Array.from(
       {
@@ -808,34 +1237,36 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
     Array.from({ length: this.gridCols() }, (_, i) => i)
   );
 
-  // Resize state
+  // Active pointer resize
   private resizeState: {
-    widget: WidgetInstance | null;
-    direction: string;
+    handle: HTMLElement;
+    pointerId: number;
+    direction: ResizeDirection;
     startX: number;
     startY: number;
-    startWidth: number;
-    startHeight: number;
-    startCols: number;
-    startRows: number;
-  } = {
-    widget: null,
-    direction: '',
-    startX: 0,
-    startY: 0,
-    startWidth: 0,
-    startHeight: 0,
-    startCols: 0,
-    startRows: 0,
-  };
+    target: WidgetLayout;
+  } | null = null;
 
   ngOnInit(): void {
     this.setupWidgetRegistry();
+    this.setupTemplateRegistry();
     this.setupEventHandling();
     this.setupDataBinding();
+    this.setupAutoSave();
+    this.setupHistory();
+    this.setupDragCancel();
+    this.setupContainerBreakpoints();
+    this._activeDashboardId.set(this.dashboardId);
 
     if (this.autoLoad) {
-      this.loadDashboard();
+      this.openDashboard();
+    }
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const change = changes['dashboardId'];
+    if (change && !change.firstChange) {
+      this.switchDashboard(change.currentValue);
     }
   }
 
@@ -863,6 +1294,7 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
 
       // Update dashboard config
       this.updateDashboardFromLayout();
+      this.history.record('add');
 
       this.snackBar.open(
         `Added ${definition.name} widget`,
@@ -879,19 +1311,74 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Remove a widget from the dashboard
+   * Remove a widget from the dashboard into the trash
    */
   removeWidget(instanceId: string): void {
-    if (this.orchestrator.destroyWidget(instanceId)) {
-      this.layoutManager.removeWidget(instanceId);
+    if (this.trashWidget(instanceId)) {
+      this.updateDashboardFromLayout();
+      this.history.record('remove');
+
+      this.snackBar
+        .open('Widget moved to trash', 'Restore', {
+          duration: 5000,
+        })
+        .onAction()
+        .pipe(takeUntil(this.destroy$))
+        .subscribe(() => this.restoreWidget(instanceId));
+    }
+  }
+
+  /**
+   * Restore a widget from the trash, at its original position if free
+   */
+  async restoreWidget(trashedId: string): Promise<void> {
+    const trashed = this.trash().find((w) => w.id === trashedId);
+    if (!trashed) {
+      return;
+    }
+
+    try {
+      const instance = await this.orchestrator.createWidget(
+        trashed.type,
+        trashed.config
+      );
+      const { layout } = trashed.config;
+
+      this.layoutManager.addWidget(
+        instance,
+        this.layoutManager.isAreaAvailable(layout)
+          ? { x: layout.x ?? 0, y: layout.y ?? 0 }
+          : undefined
+      );
+      this.layoutManager.removeFromTrash(trashedId);
       this.updateDashboardFromLayout();
+      this.history.record('add');
 
-      this.snackBar.open('Widget removed', 'Dismiss', {
+      this.snackBar.open('Widget restored', 'Dismiss', {
         duration: 3000,
       });
+    } catch (error) {
+      this.snackBar.open(
+        `Failed to restore widget: ${error}`,
+        'Dismiss',
+        { duration: 5000, panelClass: ['error-snackbar'] }
+      );
     }
   }
 
+  /**
+   * Permanently discard removed widgets
+   */
+  emptyTrash(): void {
+    this.layoutManager.emptyTrash();
+    this.updateDashboardFromLayout();
+    this.history.record('trash');
+
+    this.snackBar.open('Trash emptied', 'Dismiss', {
+      duration: 3000,
+    });
+  }
+
   /**
    * Get widgets by category
    */
@@ -901,452 +1388,840 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
 
   /**
    * Save current dashboard layout
+   * Pass force to overwrite changes saved from another session
    */
-  saveLayout(): void {
-    this.layoutManager.saveLayout(`dashboard-${this.dashboardId}`);
-    this.snackBar.open('Dashboard layout saved', 'Dismiss', {
-      duration: 3000,
-    });
+  async saveLayout(force = false): Promise<void> {
+    try {
+      if (!(await this.persistLayout(force))) {
+        return;
+      }
+
+      this.snackBar.open('Dashboard layout saved', 'Dismiss', {
+        duration: 3000,
+      });
+    } catch (error) {
+      this.snackBar.open(`Save failed: ${error}`, 'Dismiss', {
+        duration: 5000,
+        panelClass: ['error-snackbar'],
+      });
+    }
   }
 
   /**
-   * Compact dashboard layout
+   * Discard unsaved changes and load the saved dashboard, e.g. after
+   * another session saved it
    */
-  compactLayout(): void {
-    this.layoutManager.compactLayout();
-    this.updateDashboardFromLayout();
-
-    this.snackBar.open('Layout compacted', 'Dismiss', {
-      duration: 3000,
-    });
+  async reloadDashboard(): Promise<void> {
+    try {
+      await this.loadDashboard();
+    } catch (error) {
+      this.snackBar.open(`Reload failed: ${error}`, 'Dismiss', {
+        duration: 5000,
+        panelClass: ['error-snackbar'],
+      });
+    }
   }
 
   /**
-   * Reset dashboard layout
+   * Undo the last dashboard edit
    */
-  resetLayout(): void {
-    // Reset all widgets to default positions
-    const widgets = this.widgets();
-    widgets.forEach((widget, index) => {
-      this.layoutManager.updateWidgetLayout(widget.id, {
-        x: (index % this.gridCols()) * 2,
-        y: Math.floor(index / this.gridCols()) * 2,
-        cols: 2,
-        rows: 2,
-      });
-    });
+  async undo(): Promise<void> {
+    try {
+      if (await this.history.undo()) {
+        this.updateDashboardFromLayout();
+      }
+    } catch (error) {
+      this.reportHistoryFailure('Undo', error);
+    }
+  }
 
-    this.updateDashboardFromLayout();
+  /**
+   * Redo the last undone dashboard edit
+   */
+  async redo(): Promise<void> {
+    try {
+      if (await this.history.redo()) {
+        this.updateDashboardFromLayout();
+      }
+    } catch (error) {
+      this.reportHistoryFailure('Redo', error);
+    }
+  }
 
-    this.snackBar.open('Layout reset', 'Dismiss', { duration: 3000 });
+  /**
+   * Rename the dashboard
+   */
+  renameDashboard(title: string): void {
+    this.layoutManager.updateDashboardConfig({ title });
+    this.history.record('title');
   }
 
   /**
-   * Handle widget drag and drop
+   * Switch to another dashboard, saving pending changes first
    */
-  onWidgetDrop(event: CdkDragDrop<any>): void {
-    const widget = event.item.data;
-    if (!widget) return;
+  async switchDashboard(dashboardId: string): Promise<void> {
+    const activeId = this._activeDashboardId();
+    if (dashboardId === activeId) {
+      return;
+    }
 
-    // Calculate drop position based on mouse coordinates
-    const dropPosition = this.calculateDropPosition(event);
+    if (!(await this.flushChanges())) {
+      // Keep the current dashboard; undo an input-driven switch
+      this.dashboardId = activeId;
+      this.dashboardIdChange.emit(activeId);
+      return;
+    }
 
-    if (dropPosition) {
-      // Update widget position to where it was actually dropped
-      this.updateWidgetLayout(widget, {
-        x: dropPosition.x,
-        y: dropPosition.y,
-      });
+    this.dashboardId = dashboardId;
+    this._activeDashboardId.set(dashboardId);
+    this.dashboardIdChange.emit(dashboardId);
+    await this.openDashboard();
+  }
 
-      this.snackBar.open('Widget moved', 'Dismiss', {
-        duration: 2000,
-      });
+  /**
+   * List saved dashboards for the switcher
+   */
+  async refreshDashboards(): Promise<void> {
+    try {
+      this._dashboards.set(
+        await this.layoutManager.listLayouts(this.storageKeyPrefix)
+      );
+    } catch (error) {
+      console.warn('Failed to list dashboards:', error);
     }
   }
 
   /**
-   * Calculate drop position from mouse coordinates
+   * Create a dashboard from a template or blank and switch to it
    */
-  private calculateDropPosition(
-    event: CdkDragDrop<any>
-  ): { x: number; y: number } | null {
-    const container = event.container.element.nativeElement;
-    const gridElement = container.querySelector(
-      '.draggable-grid'
-    ) as HTMLElement;
-
-    if (!gridElement) return null;
-
-    const rect = gridElement.getBoundingClientRect();
-    const cellWidth = rect.width / this.gridCols();
-    const cellHeight = this.gridRowHeight() + this.gridGutter();
-
-    // Get mouse position relative to grid
-    const mouseX =
-      event.dropPoint?.x || event.currentIndex * cellWidth;
-    const mouseY = event.dropPoint?.y || 0;
-
-    const relativeX = mouseX - rect.left;
-    const relativeY = mouseY - rect.top;
+  async createDashboard(): Promise<void> {
+    const template = await this.openTemplateGallery(
+      'New dashboard',
+      true
+    );
+    if (template === undefined) {
+      return;
+    }
 
-    // Calculate grid position
-    const gridX = Math.max(
-      0,
-      Math.min(
-        this.gridCols() - (event.item.data?.config.layout.cols || 1),
-        Math.floor(relativeX / cellWidth)
-      )
+    const title = await this.promptDashboardName(
+      'Name your dashboard',
+      'Create',
+      template?.name
     );
-    const gridY = Math.max(0, Math.floor(relativeY / cellHeight));
+    if (!title) {
+      return;
+    }
 
-    return { x: gridX, y: gridY };
+    const dashboardId = this.createDashboardId(title);
+    await this.createDashboardFrom(
+      dashboardId,
+      template
+        ? this.instantiateTemplate(template, dashboardId, title)
+        : this.createDocument(dashboardId, title, [])
+    );
   }
 
   /**
-   * Handle drag start
+   * Copy the current dashboard under a new name and switch to it
    */
-  onDragStarted(event: any, widget: WidgetInstance): void {
-    this._isDragging.set(true);
-    this._currentDragWidget.set(widget);
+  async cloneDashboard(): Promise<void> {
+    const title = await this.promptDashboardName(
+      'Clone dashboard',
+      'Clone',
+      `${this.dashboardTitle()} (Copy)`
+    );
+    if (title) {
+      const dashboardId = this.createDashboardId(title);
+      await this.createDashboardFrom(
+        dashboardId,
+        this.createDocument(dashboardId, title, this.widgets())
+      );
+    }
   }
 
   /**
-   * Handle drag end
+   * Ask for a new name for the current dashboard
    */
-  onDragEnded(event: any, widget: WidgetInstance): void {
-    this._isDragging.set(false);
-    this._currentDragWidget.set(null);
-
-    // Update widget position based on grid snap
-    this.updateWidgetPositionFromDrop(widget, event);
+  async openRenameDialog(): Promise<void> {
+    const title = await this.promptDashboardName(
+      'Rename dashboard',
+      'Rename',
+      this.dashboardTitle()
+    );
+    if (title && title !== this.dashboardTitle()) {
+      this.renameDashboard(title);
+    }
   }
 
   /**
-   * Start resize operation
+   * Delete the current dashboard and switch to another one
    */
-  startResize(
-    event: MouseEvent,
-    widget: WidgetInstance,
-    direction: string
-  ): void {
-    event.preventDefault();
-    event.stopPropagation();
+  async deleteDashboard(): Promise<void> {
+    const dashboardId = this._activeDashboardId();
+    const storageKey = this.storageKey;
+    const document = this.serializer.serialize(
+      this.layoutManager.getDashboardConfig()
+    );
 
-    this._isResizing.set(true);
+    try {
+      await this.layoutManager.deleteLayout(storageKey);
+      await this.refreshDashboards();
+    } catch (error) {
+      this.snackBar.open(`Delete failed: ${error}`, 'Dismiss', {
+        duration: 5000,
+        panelClass: ['error-snackbar'],
+      });
+      return;
+    }
 
-    this.resizeState = {
-      widget,
-      direction,
-      startX: event.clientX,
-      startY: event.clientY,
-      startWidth: widget.config.layout.cols,
-      startHeight: widget.config.layout.rows,
-      startCols: widget.config.layout.cols,
-      startRows: widget.config.layout.rows,
-    };
+    // Nothing left to save for the deleted dashboard
+    this._savedSnapshot.set(this._currentSnapshot());
 
-    // Add global mouse event listeners
-    document.addEventListener(
-      'mousemove',
-      this.onMouseMove.bind(this)
-    );
-    document.addEventListener('mouseup', this.onMouseUp.bind(this));
+    const nextId =
+      this.dashboards().find((d) => d.id !== dashboardId)?.id ??
+      'default';
+    if (nextId === dashboardId) {
+      await this.openDashboard();
+    } else {
+      await this.switchDashboard(nextId);
+    }
 
-    this.snackBar.open('Resizing widget...', '', { duration: 1000 });
-  }
+    this.snackBar
+      .open(`Deleted "${document.dashboard.title}"`, 'Undo', {
+        duration: 8000,
+      })
+      .onAction()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(async () => {
+        try {
+          const result = await this.layoutManager.createLayout(
+            storageKey,
+            document
+          );
+          if (result.status === 'conflict') {
+            throw new Error(
+              `Dashboard '${dashboardId}' already exists`
+            );
+          }
+          await this.switchDashboard(dashboardId);
+        } catch (error) {
+          this.snackBar.open(`Undo failed: ${error}`, 'Dismiss', {
+            duration: 5000,
+            panelClass: ['error-snackbar'],
+          });
+        }
+      });
+  }
 
   /**
-   * Handle mouse move during resize
+   * Compact dashboard layout
    */
-  private onMouseMove(event: MouseEvent): void {
-    if (!this.resizeState.widget || !this._isResizing()) return;
+  compactLayout(): void {
+    this.layoutManager.compactLayout();
+    this.updateDashboardFromLayout();
+    this.history.record('move');
 
-    const deltaX = event.clientX - this.resizeState.startX;
-    const deltaY = event.clientY - this.resizeState.startY;
+    this.snackBar.open('Layout compacted', 'Dismiss', {
+      duration: 3000,
+    });
+  }
 
-    // Calculate grid cell size for snapping
-    const gridElement = document.querySelector(
-      '.draggable-grid'
-    ) as HTMLElement;
-    if (!gridElement) return;
+  /**
+   * Reset dashboard layout
+   */
+  resetLayout(): void {
+    // Reset all widgets to default positions
+    const widgets = this.widgets();
+    widgets.forEach((widget, index) => {
+      this.layoutManager.updateWidgetLayout(widget.id, {
+        x: (index % this.gridCols()) * 2,
+        y: Math.floor(index / this.gridCols()) * 2,
+        cols: 2,
+        rows: 2,
+      });
+    });
 
-    const cellWidth = gridElement.offsetWidth / this.gridCols();
-    const cellHeight = this.gridRowHeight();
+    this.updateDashboardFromLayout();
+    this.history.record('resize');
 
-    // Calculate new size based on direction
-    let newCols = this.resizeState.startCols;
-    let newRows = this.resizeState.startRows;
+    this.snackBar.open('Layout reset', 'Dismiss', { duration: 3000 });
+  }
 
-    switch (this.resizeState.direction) {
-      case 'se': // Southeast
-        newCols = Math.max(
-          1,
-          Math.round(this.resizeState.startCols + deltaX / cellWidth)
-        );
-        newRows = Math.max(
-          1,
-          Math.round(this.resizeState.startRows + deltaY / cellHeight)
-        );
-        break;
-      case 'sw': // Southwest
-        newCols = Math.max(
-          1,
-          Math.round(this.resizeState.startCols - deltaX / cellWidth)
-        );
-        newRows = Math.max(
-          1,
-          Math.round(this.resizeState.startRows + deltaY / cellHeight)
-        );
-        break;
-      case 'ne': // Northeast
-        newCols = Math.max(
-          1,
-          Math.round(this.resizeState.startCols + deltaX / cellWidth)
-        );
-        newRows = Math.max(
-          1,
-          Math.round(this.resizeState.startRows - deltaY / cellHeight)
-        );
-        break;
-      case 'nw': // Northwest
-        newCols = Math.max(
-          1,
-          Math.round(this.resizeState.startCols - deltaX / cellWidth)
-        );
-        newRows = Math.max(
-          1,
-          Math.round(this.resizeState.startRows - deltaY / cellHeight)
-        );
-        break;
-      case 'e': // East
-        newCols = Math.max(
-          1,
-          Math.round(this.resizeState.startCols + deltaX / cellWidth)
-        );
-        break;
-      case 'w': // West
-        newCols = Math.max(
-          1,
-          Math.round(this.resizeState.startCols - deltaX / cellWidth)
-        );
-        break;
-      case 's': // South
-        newRows = Math.max(
-          1,
-          Math.round(this.resizeState.startRows + deltaY / cellHeight)
-        );
-        break;
-      case 'n': // North
-        newRows = Math.max(
-          1,
-          Math.round(this.resizeState.startRows - deltaY / cellHeight)
-        );
-        break;
-    }
+  /**
+   * Derive the layout for the current screen size from the
+   * other screen sizes again
+   */
+  resetBreakpointLayout(): void {
+    const breakpoint = this.layoutManager.getCurrentBreakpoint();
+    this.layoutManager.resetBreakpointLayout(breakpoint);
+    this.updateDashboardFromLayout();
+    this.history.record('move');
 
-    // Update widget layout
-    this.updateWidgetLayout(this.resizeState.widget, {
-      cols: newCols,
-      rows: newRows,
-    });
+    this.snackBar.open(
+      `Layout for ${breakpoint.name} screens is automatic`,
+      'Dismiss',
+      { duration: 3000 }
+    );
   }
 
   /**
-   * Handle mouse up during resize
+   * Handle drag start
    */
-  private onMouseUp(event: MouseEvent): void {
-    if (!this._isResizing()) return;
+  onDragStarted(event: CdkDragStart, widget: WidgetInstance): void {
+    this._isDragging.set(true);
+    this._currentDragWidget.set(widget);
+
+    this.dragOrigin = Object.fromEntries(
+      this.widgets().map((w) => [w.id, { ...w.config.layout }])
+    );
+    this.dragTarget = null;
+    this.dragCancelled = false;
+    this.activeDrag = event.source;
+  }
 
-    this._isResizing.set(false);
+  /**
+   * Preview the drop position and reflow other widgets around it
+   */
+  onDragMoved(event: CdkDragMove, widget: WidgetInstance): void {
+    if (this.dragCancelled) return;
 
-    // Remove global mouse event listeners
-    document.removeEventListener(
-      'mousemove',
-      this.onMouseMove.bind(this)
+    const target = this.getDragTarget(event, widget);
+    if (
+      target.x === this.dragTarget?.x &&
+      target.y === this.dragTarget?.y
+    ) {
+      return;
+    }
+
+    this.dragTarget = target;
+    this.layoutManager.previewWidgetLayout(
+      widget.id,
+      target,
+      this.dragOrigin
     );
-    document.removeEventListener(
-      'mouseup',
-      this.onMouseUp.bind(this)
+    this.updateDashboardFromLayout();
+  }
+
+  /**
+   * Handle drag end
+   */
+  onDragEnded(event: CdkDragEnd, widget: WidgetInstance): void {
+    const origin = this.dragOrigin[widget.id];
+    const target = this.dragCancelled ? null : this.dragTarget;
+
+    this._isDragging.set(false);
+    this._currentDragWidget.set(null);
+    this.dragTarget = null;
+    this.activeDrag = null;
+
+    // A cancelled drag returns to where it was picked up
+    if (this.dragCancelled) {
+      event.source.reset();
+    }
+
+    // Commit the previewed move starting from the original layouts
+    this.layoutManager.restoreLayouts(this.dragOrigin);
+    const moved =
+      !!target &&
+      (target.x !== (origin.x || 0) ||
+        target.y !== (origin.y || 0)) &&
+      this.updateWidgetLayout(widget, target);
+
+    if (moved) {
+      this.history.record('move');
+      this.snackBar.open('Widget moved', 'Dismiss', {
+        duration: 2000,
+      });
+    } else {
+      this.updateDashboardFromLayout();
+    }
+  }
+
+  /**
+   * Grid cell the dragged widget's top-left corner is over
+   */
+  private getDragTarget(
+    event: CdkDragMove,
+    widget: WidgetInstance
+  ): { x: number; y: number } {
+    const origin = this.dragOrigin[widget.id];
+    const grid = event.source.dropContainer.element
+      .nativeElement as HTMLElement;
+    const cellWidth =
+      (grid.clientWidth + this.gridGutter()) / this.gridCols();
+    const cellHeight = this.gridRowHeight() + this.gridGutter();
+
+    return {
+      x: Math.max(
+        0,
+        Math.min(
+          this.gridCols() - origin.cols,
+          (origin.x || 0) + Math.round(event.distance.x / cellWidth)
+        )
+      ),
+      y: Math.max(
+        0,
+        (origin.y || 0) + Math.round(event.distance.y / cellHeight)
+      ),
+    };
+  }
+
+  /**
+   * Check if a grid cell is covered by the dragged widget's drop position
+   */
+  isDropTarget(col: number, row: number): boolean {
+    const layout = this.dragFootprint();
+    return (
+      !!layout &&
+      col >= (layout.x || 0) &&
+      col < (layout.x || 0) + layout.cols &&
+      row >= (layout.y || 0) &&
+      row < (layout.y || 0) + layout.rows
     );
+  }
 
-    // Compact layout after resize
-    this.compactLayout();
+  /**
+   * Move and resize a focused widget from the keyboard
+   */
+  onWidgetKeydown(
+    event: KeyboardEvent,
+    widget: WidgetInstance
+  ): void {
+    const grabbed = this._grabbedWidget();
+
+    if (!grabbed) {
+      // Keys in the widget's own content are not for the grid
+      if (
+        event.target === event.currentTarget &&
+        (event.key === 'Enter' || event.key === ' ')
+      ) {
+        event.preventDefault();
+        this.pickUpWidget(widget);
+      }
+      return;
+    }
 
-    this.snackBar.open('Widget resized', 'Dismiss', {
-      duration: 2000,
-    });
+    if (grabbed.id !== widget.id) return;
 
-    // Reset resize state
-    this.resizeState = {
-      widget: null,
-      direction: '',
-      startX: 0,
-      startY: 0,
-      startWidth: 0,
-      startHeight: 0,
-      startCols: 0,
-      startRows: 0,
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1],
     };
+
+    if (steps[event.key]) {
+      const [dx, dy] = steps[event.key];
+      this.nudgeWidget(widget, dx, dy, event.shiftKey);
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      this.dropWidget(widget);
+    } else if (event.key === 'Escape') {
+      this.cancelKeyboardMove(widget);
+    } else {
+      return;
+    }
+
+    event.preventDefault();
   }
 
   /**
-   * Snap widget to grid position
+   * Put a picked up widget back when focus leaves it
    */
-  snapToGrid(col: number, row: number): void {
-    const currentWidget = this._currentDragWidget();
-    if (!currentWidget) return;
+  onWidgetBlur(widget: WidgetInstance): void {
+    if (this._grabbedWidget()?.id === widget.id) {
+      this.cancelKeyboardMove(widget);
+    }
+  }
 
-    this.updateWidgetLayout(currentWidget, {
-      x: col,
-      y: row,
-    });
+  /**
+   * Describe a widget's grid position for screen readers
+   */
+  getWidgetPositionLabel(widget: WidgetInstance): string {
+    const { x, y, cols, rows } = widget.config.layout;
+    return (
+      `${widget.config.title || 'Widget'}, column ${(x || 0) + 1}, ` +
+      `row ${(y || 0) + 1}, ${cols} columns wide, ${rows} rows tall`
+    );
   }
 
   /**
-   * Update widget position from drop event
+   * Pick up a widget to move it with the keyboard
    */
-  private updateWidgetPositionFromDrop(
+  private pickUpWidget(widget: WidgetInstance): void {
+    if (widget.config.locked) {
+      this.liveAnnouncer.announce(
+        `${widget.config.title || 'Widget'} is locked in place`
+      );
+      return;
+    }
+
+    this.dragOrigin = Object.fromEntries(
+      this.widgets().map((w) => [w.id, { ...w.config.layout }])
+    );
+    this.keyboardTarget = {
+      ...widget.config.layout,
+      x: widget.config.layout.x || 0,
+      y: widget.config.layout.y || 0,
+    };
+    this._grabbedWidget.set(widget);
+
+    this.liveAnnouncer.announce(
+      `Picked up ${this.getWidgetPositionLabel(widget)}. ` +
+        'Arrow keys move, Shift with arrow keys resizes, ' +
+        'Enter drops, Escape cancels.'
+    );
+  }
+
+  /**
+   * Move or resize the picked up widget by one grid cell
+   */
+  private nudgeWidget(
     widget: WidgetInstance,
-    event: any
+    dx: number,
+    dy: number,
+    resize: boolean
   ): void {
-    // Get drop position and snap to grid
-    const dropElement = event.container.element.nativeElement;
-    const gridElement = dropElement.querySelector('.draggable-grid');
+    const title = widget.config.title || 'Widget';
+    const current = this.keyboardTarget!;
+    // Resizing grows from the bottom-right corner within the widget's
+    // size limits, like dragging that handle
+    const target = resize
+      ? this.getResizeLayout(current, 'se', dx, dy)
+      : { ...current, x: current.x! + dx, y: current.y! + dy };
+
+    if (resize && widget.config.resizable === false) {
+      this.liveAnnouncer.announce(`${title} cannot be resized`);
+      return;
+    }
 
-    if (gridElement) {
-      const rect = gridElement.getBoundingClientRect();
-      const cellWidth = rect.width / this.gridCols();
-      const cellHeight = this.gridRowHeight();
+    if (!resize && widget.config.movable === false) {
+      this.liveAnnouncer.announce(`${title} cannot be moved`);
+      return;
+    }
 
-      const relativeX = event.dropPoint.x - rect.left;
-      const relativeY = event.dropPoint.y - rect.top;
+    if (
+      resize &&
+      target.cols === current.cols &&
+      target.rows === current.rows
+    ) {
+      this.liveAnnouncer.announce(
+        `${title} cannot grow or shrink further`
+      );
+      return;
+    }
 
-      const newX = Math.max(
-        0,
-        Math.min(
-          this.gridCols() - widget.config.layout.cols,
-          Math.floor(relativeX / cellWidth)
-        )
+    // Going further down than the other widgets reach changes nothing
+    const bottom = Math.max(
+      0,
+      ...Object.entries(this.dragOrigin)
+        .filter(([id]) => id !== widget.id)
+        .map(([, layout]) => (layout.y || 0) + layout.rows)
+    );
+
+    if (
+      target.y! > bottom ||
+      !this.layoutManager.previewWidgetLayout(
+        widget.id,
+        target,
+        this.dragOrigin
+      )
+    ) {
+      this.layoutManager.previewWidgetLayout(
+        widget.id,
+        current,
+        this.dragOrigin
+      );
+      this.liveAnnouncer.announce(
+        `${title} cannot ${
+          resize ? 'grow or shrink' : 'move'
+        } further`
       );
-      const newY = Math.max(0, Math.floor(relativeY / cellHeight));
+      return;
+    }
+
+    this.keyboardTarget = target;
+    this.updateDashboardFromLayout();
+    this.liveAnnouncer.announce(this.getWidgetPositionLabel(widget));
+  }
+
+  /**
+   * Drop the picked up widget where it is previewed
+   */
+  private dropWidget(widget: WidgetInstance): void {
+    const origin = this.dragOrigin[widget.id];
+    const { x, y, cols, rows } = this.keyboardTarget!;
+    const moved = x !== (origin.x || 0) || y !== (origin.y || 0);
+    const resized = cols !== origin.cols || rows !== origin.rows;
 
-      this.updateWidgetLayout(widget, { x: newX, y: newY });
+    this._grabbedWidget.set(null);
+    this.keyboardTarget = null;
+
+    // Commit the previewed change starting from the original layouts
+    this.layoutManager.restoreLayouts(this.dragOrigin);
+    if (
+      (moved || resized) &&
+      this.updateWidgetLayout(widget, { x, y, cols, rows })
+    ) {
+      this.history.record(moved ? 'move' : 'resize');
+    } else {
+      this.updateDashboardFromLayout();
     }
+
+    this.liveAnnouncer.announce(
+      `Dropped ${this.getWidgetPositionLabel(widget)}`
+    );
   }
 
   /**
-   * Update widget layout and reposition neighbors
+   * Put the picked up widget and its neighbours back
    */
-  private updateWidgetLayout(
+  private cancelKeyboardMove(widget: WidgetInstance): void {
+    this._grabbedWidget.set(null);
+    this.keyboardTarget = null;
+
+    this.layoutManager.restoreLayouts(this.dragOrigin);
+    this.updateDashboardFromLayout();
+
+    this.liveAnnouncer.announce(
+      `Cancelled. ${this.getWidgetPositionLabel(widget)}`
+    );
+  }
+
+  /**
+   * Start resizing from one of the eight handles with a mouse, pen or
+   * touch pointer
+   */
+  startResize(
+    event: PointerEvent,
     widget: WidgetInstance,
-    changes: Partial<{
-      x: number;
-      y: number;
-      cols: number;
-      rows: number;
-    }>
+    direction: ResizeDirection
   ): void {
-    // Update widget layout
-    widget.config.layout = {
-      ...widget.config.layout,
-      ...changes,
-    };
+    if (event.button !== 0 || this.resizeState) return;
 
-    // Update layout manager
-    this.layoutManager.updateWidgetLayout(
-      widget.id,
-      widget.config.layout
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Captured pointer events keep coming to the handle wherever the
+    // pointer goes, so no document listeners are needed
+    const handle = event.currentTarget as HTMLElement;
+    handle.setPointerCapture(event.pointerId);
+
+    this.dragOrigin = Object.fromEntries(
+      this.widgets().map((w) => [w.id, { ...w.config.layout }])
     );
+    this.resizeState = {
+      handle,
+      pointerId: event.pointerId,
+      direction,
+      startX: event.clientX,
+      startY: event.clientY,
+      target: this.dragOrigin[widget.id],
+    };
+    this._resizingWidget.set(widget);
 
-    // Force change detection to update visual layout immediately
-    this.cdr.detectChanges();
+    const pointerEvents = (type: string) =>
+      fromEvent<PointerEvent>(handle, type).pipe(
+        filter((pointer) => pointer.pointerId === event.pointerId)
+      );
 
-    // Reposition neighboring widgets to avoid collisions
-    this.repositionNeighbors(widget);
+    merge(
+      pointerEvents('pointermove'),
+      pointerEvents('pointerup'),
+      pointerEvents('pointercancel'),
+      pointerEvents('lostpointercapture')
+    )
+      .pipe(
+        takeWhile((pointer) => pointer.type === 'pointermove', true),
+        takeUntil(this.destroy$),
+        // Also runs if the dashboard is destroyed mid-resize
+        finalize(() => this.endResize(widget, false))
+      )
+      .subscribe((pointer) =>
+        pointer.type === 'pointermove'
+          ? this.onResizeMove(pointer, widget)
+          : this.endResize(widget, pointer.type === 'pointerup')
+      );
 
-    // Update dashboard config
-    this.updateDashboardFromLayout();
+    this.snackBar.open('Resizing widget...', '', { duration: 1000 });
   }
 
   /**
-   * Reposition neighboring widgets to avoid collisions
+   * Preview the new size and reflow other widgets around it
    */
-  private repositionNeighbors(changedWidget: WidgetInstance): void {
-    const widgets = this.widgets().filter(
-      (w) => w.id !== changedWidget.id
+  private onResizeMove(
+    event: PointerEvent,
+    widget: WidgetInstance
+  ): void {
+    const state = this.resizeState!;
+    const grid = state.handle.closest(
+      '.draggable-grid'
+    ) as HTMLElement;
+    const cellWidth =
+      (grid.clientWidth + this.gridGutter()) / this.gridCols();
+    const cellHeight = this.gridRowHeight() + this.gridGutter();
+
+    const target = this.getResizeLayout(
+      this.dragOrigin[widget.id],
+      state.direction,
+      Math.round((event.clientX - state.startX) / cellWidth),
+      Math.round((event.clientY - state.startY) / cellHeight)
     );
 
-    widgets.forEach((widget) => {
-      if (this.isColliding(changedWidget, widget)) {
-        // Find next available position
-        const newPosition = this.findNextAvailablePosition(
-          widget,
-          changedWidget
-        );
-        if (newPosition) {
-          widget.config.layout.x = newPosition.x;
-          widget.config.layout.y = newPosition.y;
-          this.layoutManager.updateWidgetLayout(
-            widget.id,
-            widget.config.layout
-          );
-        }
-      }
-    });
+    if (
+      target.x === state.target.x &&
+      target.y === state.target.y &&
+      target.cols === state.target.cols &&
+      target.rows === state.target.rows
+    ) {
+      return;
+    }
+
+    if (
+      this.layoutManager.previewWidgetLayout(
+        widget.id,
+        target,
+        this.dragOrigin
+      )
+    ) {
+      state.target = target;
+    } else {
+      this.layoutManager.previewWidgetLayout(
+        widget.id,
+        state.target,
+        this.dragOrigin
+      );
+    }
+    this.updateDashboardFromLayout();
   }
 
   /**
-   * Check if two widgets are colliding
+   * Resize a layout by whole cells from a handle, keeping the opposite
+   * edges in place and the size within its limits and the grid
    */
-  private isColliding(
-    widget1: WidgetInstance,
-    widget2: WidgetInstance
-  ): boolean {
-    const w1 = widget1.config.layout;
-    const w2 = widget2.config.layout;
-
-    return !(
-      (w1.x || 0) + w1.cols <= (w2.x || 0) ||
-      (w2.x || 0) + w2.cols <= (w1.x || 0) ||
-      (w1.y || 0) + w1.rows <= (w2.y || 0) ||
-      (w2.y || 0) + w2.rows <= (w1.y || 0)
-    );
+  private getResizeLayout(
+    start: WidgetLayout,
+    direction: ResizeDirection,
+    dx: number,
+    dy: number
+  ): WidgetLayout {
+    const x = start.x || 0;
+    const y = start.y || 0;
+    const minCols = start.minCols ?? 1;
+    const maxCols = start.maxCols ?? Infinity;
+    const minRows = start.minRows ?? 1;
+    const maxRows = start.maxRows ?? Infinity;
+    const clamp = (value: number, min: number, max: number) =>
+      Math.max(min, Math.min(max, value));
+    const layout = { ...start, x, y };
+
+    if (direction.includes('e')) {
+      layout.cols = clamp(
+        start.cols + dx,
+        minCols,
+        Math.min(maxCols, this.gridCols() - x)
+      );
+    }
+
+    if (direction.includes('w')) {
+      layout.cols = clamp(
+        start.cols - dx,
+        minCols,
+        Math.min(maxCols, x + start.cols)
+      );
+      layout.x = x + start.cols - layout.cols;
+    }
+
+    if (direction.includes('s')) {
+      layout.rows = clamp(start.rows + dy, minRows, maxRows);
+    }
+
+    if (direction.includes('n')) {
+      layout.rows = clamp(
+        start.rows - dy,
+        minRows,
+        Math.min(maxRows, y + start.rows)
+      );
+      layout.y = y + start.rows - layout.rows;
+    }
+
+    return layout;
   }
 
   /**
-   * Find next available position for a widget
+   * Finish resizing; commits the previewed size, or puts widgets back
+   * if the pointer was cancelled or the dashboard destroyed
    */
-  private findNextAvailablePosition(
-    widget: WidgetInstance,
-    excludeWidget: WidgetInstance
-  ): { x: number; y: number } | null {
-    const maxX = this.gridCols() - widget.config.layout.cols;
-    const maxY = 20; // Reasonable max rows
-
-    for (let y = 0; y < maxY; y++) {
-      for (let x = 0; x <= maxX; x++) {
-        const testWidget = {
-          ...widget,
-          config: {
-            ...widget.config,
-            layout: { ...widget.config.layout, x, y },
-          },
-        };
+  private endResize(widget: WidgetInstance, commit: boolean): void {
+    const state = this.resizeState;
+    if (!state) return;
 
-        // Check if this position collides with any other widget (except the excluded one)
-        const hasCollision = this.widgets()
-          .filter(
-            (w) => w.id !== widget.id && w.id !== excludeWidget.id
-          )
-          .some((w) => this.isColliding(testWidget, w));
+    this.resizeState = null;
+    this._resizingWidget.set(null);
 
-        if (!hasCollision) {
-          return { x, y };
-        }
-      }
+    if (state.handle.hasPointerCapture(state.pointerId)) {
+      state.handle.releasePointerCapture(state.pointerId);
+    }
+
+    const origin = this.dragOrigin[widget.id];
+    const { x, y, cols, rows } = state.target;
+    const moved = x !== (origin.x || 0) || y !== (origin.y || 0);
+    const resized = cols !== origin.cols || rows !== origin.rows;
+
+    this.layoutManager.restoreLayouts(this.dragOrigin);
+    if (
+      commit &&
+      resized &&
+      this.updateWidgetLayout(
+        widget,
+        moved ? { x, y, cols, rows } : { cols, rows }
+      )
+    ) {
+      this.history.record('resize');
+      this.snackBar.open('Widget resized', 'Dismiss', {
+        duration: 2000,
+      });
+    } else {
+      this.updateDashboardFromLayout();
+    }
+  }
+
+  /**
+   * Snap widget to grid position
+   */
+  snapToGrid(col: number, row: number): void {
+    const currentWidget = this._currentDragWidget();
+    if (!currentWidget) return;
+
+    this.updateWidgetLayout(currentWidget, {
+      x: col,
+      y: row,
+    });
+    this.history.record('move');
+  }
+
+  /**
+   * Update widget layout; the layout manager pushes colliding
+   * widgets out of the way
+   */
+  private updateWidgetLayout(
+    widget: WidgetInstance,
+    changes: Partial<{
+      x: number;
+      y: number;
+      cols: number;
+      rows: number;
+    }>
+  ): boolean {
+    if (!this.layoutManager.updateWidgetLayout(widget.id, changes)) {
+      return false;
     }
 
-    return null;
+    // Force change detection to update visual layout immediately
+    this.cdr.detectChanges();
+
+    // Update dashboard config
+    this.updateDashboardFromLayout();
+    return true;
   }
 
   /**
@@ -1386,15 +2261,32 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
         reader.onload = (e: any) => {
           try {
             const config = e.target.result;
-            if (this.layoutManager.importDashboard(config)) {
-              this.loadDashboard();
+            const result = this.layoutManager.importDashboard(config);
+            if (result.success && result.document) {
+              this.removeAllWidgets();
+              this.layoutManager.applyDocument(result.document);
+              this.layoutManager.updateDashboardConfig({
+                id: this.activeDashboardId(),
+              });
+              // The import intentionally replaces the stored dashboard
+              this.restoreWidgets(result.document)
+                .then(() => this.persistLayout(true))
+                .catch((error) =>
+                  console.warn(
+                    'Failed to save imported dashboard:',
+                    error
+                  )
+                );
               this.snackBar.open(
                 'Dashboard imported successfully',
                 'Dismiss',
                 { duration: 3000 }
               );
             } else {
-              throw new Error('Invalid dashboard configuration');
+              throw new Error(
+                result.errors[0]?.message ??
+                  'Invalid dashboard configuration'
+              );
             }
           } catch (error) {
             this.snackBar.open(`Import failed: ${error}`, 'Dismiss', {
@@ -1414,17 +2306,11 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
    * Clear all widgets from dashboard
    */
   clearDashboard(): void {
-    const widgets = this.widgets();
-    widgets.forEach((widget) => {
-      this.orchestrator.destroyWidget(widget.id);
-    });
-
-    this._dashboardConfig.update((config) => ({
-      ...config,
-      widgets: [],
-    }));
+    this.widgets().forEach((widget) => this.trashWidget(widget.id));
+    this.updateDashboardFromLayout();
+    this.history.record('remove');
 
-    this.snackBar.open('Dashboard cleared', 'Dismiss', {
+    this.snackBar.open('Widgets moved to trash', 'Dismiss', {
       duration: 3000,
     });
   }
@@ -1445,6 +2331,11 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
           type: 'todo-widget',
           title: 'Todo List',
           layout: { cols: 2, rows: 2 },
+          dataSource: {
+            type: 'service',
+            source: 'combinedData',
+            transform: 'assessment-todos',
+          },
           resizable: true,
           movable: true,
           removable: true,
@@ -1494,6 +2385,11 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
           type: 'tests-info-widget',
           title: 'Assessment Info',
           layout: { cols: 3, rows: 4 },
+          dataSource: {
+            type: 'service',
+            source: 'combinedData',
+            transform: 'tests-info-view-model',
+          },
           resizable: true,
           movable: true,
           removable: true,
@@ -1506,9 +2402,151 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
             (m) => m.TestsInfoWidgetComponent
           ),
       },
+      {
+        type: 'take-assessment-widget',
+        name: 'Take Assessment',
+        description:
+          'Answer assessment questions without leaving the dashboard',
+        component: null as any,
+        category: 'Education',
+        defaultConfig: {
+          type: 'take-assessment-widget',
+          title: 'Take Assessment',
+          layout: { cols: 3, rows: 4 },
+          resizable: true,
+          movable: true,
+          removable: true,
+          settings: {
+            subjects: ['ANGULAR', 'NESTJS', 'RXJS'],
+          },
+        },
+        configSchema: {
+          type: 'object',
+          properties: {
+            settings: {
+              type: 'object',
+              properties: {
+                subjects: {
+                  type: 'array',
+                  title: 'Subjects',
+                  items: {
+                    type: 'string',
+                    enum: ['ANGULAR', 'NESTJS', 'RXJS'],
+                  },
+                },
+              },
+            },
+          },
+        },
+        icon: 'school',
+        tags: ['education', 'assessments', 'tests'],
+        lazy: true,
+        loadComponent: () =>
+          import(
+            '../../widgets/take-assessment-widget.component'
+          ).then((m) => m.TakeAssessmentWidgetComponent),
+      },
+    ];
+
+    this.registry.registerMany(widgetDefinitions);
+  }
+
+  /**
+   * Setup template registry with built-in dashboard templates
+   */
+  private setupTemplateRegistry(): void {
+    const templates: DashboardTemplate[] = [
+      {
+        id: 'getting-started',
+        name: 'Getting started',
+        description: 'Tasks, a practice assessment and your results',
+        version: '1.0.0',
+        icon: 'rocket_launch',
+        tags: ['default'],
+        widgets: [
+          {
+            type: 'todo-widget',
+            config: {
+              title: 'My Tasks',
+              layout: { cols: 2, rows: 2, x: 0, y: 0 },
+            },
+          },
+          {
+            type: 'take-assessment-widget',
+            config: {
+              title: 'Practice',
+              layout: { cols: 4, rows: 3, x: 2, y: 0 },
+            },
+          },
+          {
+            type: 'tests-info-widget',
+            config: {
+              title: 'Assessment Status',
+              layout: { cols: 3, rows: 4, x: 6, y: 0 },
+            },
+          },
+        ],
+      },
+      {
+        id: 'beginner-learner',
+        name: 'Beginner learner',
+        description:
+          'A task list to follow and one subject to practise',
+        version: '1.0.0',
+        icon: 'school',
+        tags: ['learning'],
+        widgets: [
+          {
+            type: 'todo-widget',
+            config: {
+              title: 'Learning Plan',
+              layout: { cols: 4, rows: 4, x: 0, y: 0 },
+            },
+          },
+          {
+            type: 'take-assessment-widget',
+            config: {
+              title: 'Angular Practice',
+              layout: { cols: 5, rows: 4, x: 4, y: 0 },
+              settings: { subjects: ['ANGULAR'] },
+            },
+          },
+        ],
+      },
+      {
+        id: 'exam-cram',
+        name: 'Exam cram',
+        description: 'Assessments front and centre, with your scores',
+        version: '1.0.0',
+        icon: 'timer',
+        tags: ['assessments'],
+        widgets: [
+          {
+            type: 'take-assessment-widget',
+            config: {
+              title: 'Assessment',
+              layout: { cols: 6, rows: 5, x: 0, y: 0 },
+            },
+          },
+          {
+            type: 'tests-info-widget',
+            config: {
+              title: 'Scores',
+              layout: { cols: 3, rows: 5, x: 6, y: 0 },
+            },
+          },
+          {
+            type: 'todo-widget',
+            config: {
+              title: 'Weak Spots',
+              layout: { cols: 3, rows: 3, x: 9, y: 0 },
+            },
+          },
+        ],
+      },
     ];
 
-    this.registry.registerMany(widgetDefinitions);
+    this.templates.registerMany(templates);
   }
 
   /**
@@ -1549,12 +2587,12 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
   private setupDataBinding(): void {
     // Fetch assessment data and share with widgets
     combineLatest([
-      this.assessmentService.fetchUsersAssessments(),
-      this.assessmentService.fetchUserSubjectsEligibility([
-        'ANGULAR',
-        'NESTJS',
-        'RXJS',
-      ]),
+      this.assessmentService
+        .fetchUsersAssessments()
+        .pipe(catchError(() => of([]))),
+      this.assessmentService
+        .fetchUserSubjectsEligibility(['ANGULAR', 'NESTJS', 'RXJS'])
+        .pipe(catchError(() => of([]))),
     ])
       .pipe(
         takeUntil(this.destroy$),
@@ -1564,94 +2602,624 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
         }))
       )
       .subscribe((data) => {
-        // Share data with all widgets
+        // Share data with all widgets; each widget shapes its own
+        // copy through its data source transform pipeline
         this.communication.setSharedState('assessmentData', data);
-
-        // Update individual widgets
-        const widgets = this.widgets();
-        widgets.forEach((widget) => {
-          this.orchestrator.updateWidgetData(widget.id, data);
-        });
       });
   }
 
   /**
-   * Load dashboard from storage
+   * Match grid breakpoints to the dashboard container's width,
+   * which is narrower than the viewport inside a shell with sidebars
    */
-  private loadDashboard(): void {
+  private setupContainerBreakpoints(): void {
     if (
-      this.layoutManager.loadLayout(`dashboard-${this.dashboardId}`)
+      this.breakpointSource !== 'container' ||
+      typeof ResizeObserver === 'undefined'
     ) {
-      // Dashboard loaded from storage
-      this.recreateWidgetsFromConfig();
-    } else {
-      // Create default dashboard
-      this.createDefaultDashboard();
+      return;
     }
+
+    new Observable<number>((subscriber) => {
+      const observer = new ResizeObserver(([entry]) =>
+        subscriber.next(entry.contentRect.width)
+      );
+      observer.observe(this.container.nativeElement);
+      return () => observer.disconnect();
+    })
+      .pipe(
+        map((width) => Math.round(width)),
+        distinctUntilChanged(),
+        finalize(() => this.layoutManager.setContainerWidth(null)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((width) =>
+        this.layoutManager.setContainerWidth(width)
+      );
   }
 
   /**
-   * Recreate widgets from saved configuration
+   * Track unsaved changes and save them automatically
    */
-  private async recreateWidgetsFromConfig(): Promise<void> {
-    const config = this.layoutManager.getDashboardConfig();
+  private setupAutoSave(): void {
+    this.syncSnapshot();
+    this._savedSnapshot.set(this._currentSnapshot());
+
+    // Serialize and save shortly after edits settle; drag previews
+    // and data updates emit far more often than that
+    merge(
+      this.layoutManager.getLayoutChanges$(),
+      this.layoutManager.getDashboardConfig$(),
+      this.orchestrator.getInstances$()
+    )
+      .pipe(
+        filter(() => !this.restoring),
+        debounceTime(this.autoSaveDebounce),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => {
+        this.syncSnapshot();
+        this.autoSaveLayout();
+      });
+
+    // Retry unsaved changes periodically, e.g. after a failed save
+    this.layoutManager
+      .getDashboardConfig$()
+      .pipe(
+        map(
+          (config) =>
+            config.autoSave?.interval ?? this.defaultAutoSaveInterval
+        ),
+        distinctUntilChanged(),
+        switchMap((period) => interval(period)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => this.autoSaveLayout());
+
+    fromEvent<BeforeUnloadEvent>(
+      this.document.defaultView!,
+      'beforeunload'
+    )
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((event) => {
+        this.syncSnapshot();
+        if (this.saveStatus() !== 'saved') {
+          event.preventDefault();
+          event.returnValue = '';
+        }
+      });
+  }
+
+  /**
+   * Track undo/redo state and handle keyboard shortcuts
+   */
+  private setupHistory(): void {
+    this.history
+      .getState$()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((state) => this._historyState.set(state));
+
+    fromEvent<KeyboardEvent>(this.document, 'keydown')
+      .pipe(
+        filter(
+          (event) =>
+            (event.ctrlKey || event.metaKey) &&
+            !event.altKey &&
+            !this.grabbedWidget() &&
+            this.dialog.openDialogs.length === 0 &&
+            !this.isEditableTarget(event.target)
+        ),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((event) => {
+        const key = event.key.toLowerCase();
+
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault();
+          this.undo();
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+          event.preventDefault();
+          this.redo();
+        }
+      });
+  }
+
+  /**
+   * Show what a failed undo or redo restored and report the failure
+   */
+  private reportHistoryFailure(action: string, error: unknown): void {
+    this.updateDashboardFromLayout();
+    this.snackBar.open(`${action} failed: ${error}`, 'Dismiss', {
+      duration: 5000,
+      panelClass: ['error-snackbar'],
+    });
+  }
+
+  /**
+   * Cancel the current drag with Escape and put widgets back
+   */
+  private setupDragCancel(): void {
+    fromEvent<KeyboardEvent>(this.document, 'keydown')
+      .pipe(
+        filter(
+          (event) =>
+            event.key === 'Escape' &&
+            this._isDragging() &&
+            !this.dragCancelled
+        ),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((event) => {
+        event.preventDefault();
+        const widget = this._currentDragWidget();
+        this.dragCancelled = true;
+        this.dragTarget = null;
+        this._isDragging.set(false);
+        this._currentDragWidget.set(null);
+
+        // The CDK has no cancel API; drop the drag offset and the
+        // preview now, the pointer release then only ends the gesture
+        this.activeDrag?.reset();
+        this.layoutManager.restoreLayouts(this.dragOrigin);
+        this.updateDashboardFromLayout();
+        if (widget) {
+          this.liveAnnouncer.announce(
+            `Cancelled. ${this.getWidgetPositionLabel(widget)}`
+          );
+        }
+      });
+  }
+
+  /**
+   * Save unsaved changes before leaving the dashboard
+   * Resolves false if the user chose to stay
+   */
+  private async flushChanges(): Promise<boolean> {
+    this.syncSnapshot();
+    if (
+      this.saveStatus() !== 'unsaved' &&
+      this.saveStatus() !== 'conflict'
+    ) {
+      return true;
+    }
 
-    for (const widget of config.widgets) {
+    if (this.isAutoSaveEnabled() && !this._saveConflict()) {
       try {
-        await this.orchestrator.createWidget(
-          widget.definition.type,
-          widget.config
-        );
+        if (await this.persistLayout(false)) {
+          return true;
+        }
       } catch (error) {
-        console.warn(
-          `Failed to recreate widget ${widget.id}:`,
-          error
-        );
+        console.warn('Failed to save dashboard:', error);
+      }
+    }
+
+    return (
+      this.document.defaultView?.confirm(
+        'This dashboard has unsaved changes. Leave without saving?'
+      ) ?? true
+    );
+  }
+
+  /**
+   * Serialize a new dashboard with the current settings
+   */
+  private createDocument(
+    dashboardId: string,
+    title: string,
+    widgets: WidgetInstance[]
+  ): DashboardDocument {
+    const { template, ...config } =
+      this.layoutManager.getDashboardConfig();
+
+    return this.serializer.serialize({
+      ...config,
+      id: dashboardId,
+      title,
+      widgets,
+      trash: [],
+    });
+  }
+
+  /**
+   * Create a dashboard document from a template,
+   * reporting widgets that cannot be created
+   */
+  private instantiateTemplate(
+    template: DashboardTemplate,
+    dashboardId: string,
+    title: string
+  ): DashboardDocument {
+    const { document, issues } = this.templates.instantiate(
+      template,
+      {
+        ...this.layoutManager.getDashboardConfig(),
+        id: dashboardId,
+        title,
       }
+    );
+
+    if (issues.length > 0) {
+      console.warn(
+        `Skipped widgets from template '${template.id}':`,
+        issues
+      );
+      this.snackBar.open(
+        `Skipped ${issues.length} widget(s) from "${
+          template.name
+        }": ${issues.map((issue) => issue.message).join('; ')}`,
+        'Dismiss',
+        { duration: 8000, panelClass: ['error-snackbar'] }
+      );
     }
+
+    return document;
   }
 
   /**
-   * Create default dashboard layout
+   * Store a new dashboard document and switch to it
    */
-  private async createDefaultDashboard(): Promise<void> {
+  private async createDashboardFrom(
+    dashboardId: string,
+    document: DashboardDocument
+  ): Promise<void> {
     try {
-      // Add default widgets
-      const todoWidget = await this.orchestrator.createWidget(
-        'todo-widget',
-        {
-          type: 'todo-widget',
-          title: 'My Tasks',
-          layout: { cols: 2, rows: 2, x: 0, y: 0 },
-        }
+      const result = await this.layoutManager.createLayout(
+        `${this.storageKeyPrefix}${dashboardId}`,
+        document
+      );
+      if (result.status === 'conflict') {
+        throw new Error(`Dashboard '${dashboardId}' already exists`);
+      }
+    } catch (error) {
+      this.snackBar.open(
+        `Failed to create dashboard: ${error}`,
+        'Dismiss',
+        { duration: 5000, panelClass: ['error-snackbar'] }
       );
+      return;
+    }
 
-      const graphWidget = await this.orchestrator.createWidget(
-        'graph-widget',
-        {
-          type: 'graph-widget',
-          title: 'Progress Overview',
-          layout: { cols: 4, rows: 3, x: 2, y: 0 },
-        }
+    await this.switchDashboard(dashboardId);
+  }
+
+  /**
+   * Pick a template from the gallery
+   * Resolves null for a blank dashboard, undefined if cancelled
+   */
+  private openTemplateGallery(
+    heading: string,
+    allowBlank: boolean
+  ): Promise<DashboardTemplateGalleryResult | undefined> {
+    return firstValueFrom(
+      this.dialog
+        .open<
+          DashboardTemplateGalleryComponent,
+          DashboardTemplateGalleryData,
+          DashboardTemplateGalleryResult
+        >(DashboardTemplateGalleryComponent, {
+          data: { heading, allowBlank },
+          width: '760px',
+        })
+        .afterClosed()
+    );
+  }
+
+  /**
+   * Let a first-time user replace the default template
+   */
+  private async offerTemplates(): Promise<void> {
+    const template = await this.openTemplateGallery(
+      'Choose a starting layout',
+      false
+    );
+
+    if (template && template.id !== this.defaultTemplate) {
+      await this.applyTemplate(template);
+    }
+  }
+
+  /**
+   * Ask for a dashboard name
+   */
+  private promptDashboardName(
+    heading: string,
+    confirmLabel: string,
+    name?: string
+  ): Promise<string | undefined> {
+    return firstValueFrom(
+      this.dialog
+        .open<
+          DashboardNameDialogComponent,
+          DashboardNameDialogData,
+          string
+        >(DashboardNameDialogComponent, {
+          data: { heading, confirmLabel, name },
+        })
+        .afterClosed()
+    );
+  }
+
+  /**
+   * Build a readable, unique dashboard id from a title
+   */
+  private createDashboardId(title: string): string {
+    const slug =
+      title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 40) || 'dashboard';
+
+    return `${slug}-${Date.now().toString(36)}`;
+  }
+
+  /**
+   * Check if a key event target handles its own undo
+   */
+  private isEditableTarget(target: EventTarget | null): boolean {
+    return (
+      target instanceof HTMLElement &&
+      (target.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+    );
+  }
+
+  /**
+   * Save unsaved changes if auto-save is enabled
+   */
+  private autoSaveLayout(): void {
+    if (
+      !this.isAutoSaveEnabled() ||
+      this.restoring ||
+      this.isDragging() ||
+      this.grabbedWidget() ||
+      this.isResizing() ||
+      this._saveConflict()
+    ) {
+      return;
+    }
+
+    this.syncSnapshot();
+    if (this.saveStatus() !== 'unsaved') {
+      return;
+    }
+
+    this.persistLayout(false).catch((error) =>
+      console.warn('Auto-save failed:', error)
+    );
+  }
+
+  /**
+   * Check the autoSave input and the dashboard's auto-save setting
+   */
+  private isAutoSaveEnabled(): boolean {
+    return (
+      this.autoSave &&
+      (this.layoutManager.getDashboardConfig().autoSave?.enabled ??
+        true)
+    );
+  }
+
+  /**
+   * Save the dashboard to storage and track the saved snapshot
+   * Resolves false when another session saved conflicting changes
+   */
+  private async persistLayout(force: boolean): Promise<boolean> {
+    const snapshot = this.createSnapshot();
+    this._pendingSaves.update((count) => count + 1);
+
+    try {
+      const result = await this.layoutManager.saveLayout(
+        this.storageKey,
+        { force }
       );
 
-      const testsWidget = await this.orchestrator.createWidget(
-        'tests-info-widget',
-        {
-          type: 'tests-info-widget',
-          title: 'Assessment Status',
-          layout: { cols: 3, rows: 4, x: 6, y: 0 },
-        }
+      if (result.status === 'conflict') {
+        // Stays until the user reloads or overwrites from the toolbar
+        this._saveConflict.set(true);
+        this.snackBar.open(
+          'Dashboard was changed in another session',
+          'Dismiss',
+          { duration: 10000 }
+        );
+        return false;
+      }
+
+      this._saveConflict.set(false);
+      this._savedSnapshot.set(snapshot);
+      return true;
+    } finally {
+      this._pendingSaves.update((count) => count - 1);
+    }
+  }
+
+  /**
+   * Bring the current snapshot up to date with the dashboard
+   */
+  private syncSnapshot(): void {
+    if (!this.restoring) {
+      this._currentSnapshot.set(this.createSnapshot());
+    }
+  }
+
+  /**
+   * Serialize the persisted parts of the dashboard for change detection
+   */
+  private createSnapshot(): string {
+    const { savedAt, ...document } = this.serializer.serialize(
+      this.layoutManager.getDashboardConfig()
+    );
+    return JSON.stringify(document);
+  }
+
+  /**
+   * Load the active dashboard and report a failed load
+   */
+  private async openDashboard(): Promise<void> {
+    try {
+      await this.loadDashboard();
+    } catch (error) {
+      this.snackBar.open(
+        `Failed to load dashboard: ${error}`,
+        'Dismiss',
+        { duration: 5000, panelClass: ['error-snackbar'] }
       );
+    }
+  }
 
-      // Add to layout manager
-      this.layoutManager.addWidget(todoWidget);
-      this.layoutManager.addWidget(graphWidget);
-      this.layoutManager.addWidget(testsWidget);
+  /**
+   * Load dashboard from storage
+   */
+  private async loadDashboard(): Promise<void> {
+    this._activeDashboardId.set(this.dashboardId);
+    this._saveConflict.set(false);
+    this.restoring = true;
 
-      this.updateDashboardFromLayout();
+    try {
+      this.removeAllWidgets();
+
+      const document = await this.layoutManager.loadLayout(
+        this.storageKey
+      );
+
+      if (document) {
+        // Dashboard loaded from storage
+        this.layoutManager.updateDashboardConfig({
+          id: this.dashboardId,
+          template: document.dashboard.template,
+        });
+        await this.restoreWidgets(document);
+        this._savedSnapshot.set(this._currentSnapshot());
+      } else {
+        // Start new dashboards from the default template
+        const saved = await this.layoutManager
+          .listLayouts(this.storageKeyPrefix)
+          .catch(() => []);
+        const template = this.templates.getTemplate(
+          this.defaultTemplate
+        );
+
+        this.layoutManager.updateDashboardConfig({
+          id: this.dashboardId,
+          title: 'Widget Dashboard',
+          trash: [],
+          template: undefined,
+        });
+
+        if (template) {
+          await this.applyTemplate(template);
+        } else {
+          console.warn(
+            `Dashboard template '${this.defaultTemplate}' not found`
+          );
+          this.restoring = false;
+          this.updateDashboardFromLayout();
+          this.history.reset();
+        }
+
+        if (this.showTemplateGallery && saved.length === 0) {
+          await this.offerTemplates();
+        }
+      }
     } catch (error) {
-      console.error('Failed to create default dashboard:', error);
+      // Never auto-save what a failed load left behind over the
+      // stored dashboard
+      this.restoring = false;
+      this.syncSnapshot();
+      this._savedSnapshot.set(this._currentSnapshot());
+      this.updateDashboardFromLayout();
+      throw error;
+    } finally {
+      this.restoring = false;
+    }
+  }
+
+  /**
+   * Storage key of the active dashboard
+   */
+  private get storageKey(): string {
+    return `${this.storageKeyPrefix}${this._activeDashboardId()}`;
+  }
+
+  /**
+   * Recreate widgets from a saved dashboard document
+   */
+  private async restoreWidgets(
+    document: DashboardDocument
+  ): Promise<void> {
+    this.restoring = true;
+
+    try {
+      for (const widget of document.widgets) {
+        try {
+          const instance = await this.orchestrator.createWidget(
+            widget.type,
+            widget.config
+          );
+          this.layoutManager.addWidget(instance, {
+            x: widget.config.layout.x ?? 0,
+            y: widget.config.layout.y ?? 0,
+          });
+        } catch (error) {
+          console.warn(
+            `Failed to restore widget ${widget.id}:`,
+            error
+          );
+        }
+      }
+    } finally {
+      this.restoring = false;
+    }
+
+    this._currentSnapshot.set(this.createSnapshot());
+    this.updateDashboardFromLayout();
+    this.history.reset();
+  }
+
+  /**
+   * Move a widget to the trash and destroy its instance
+   */
+  private trashWidget(instanceId: string): boolean {
+    if (!this.layoutManager.trashWidget(instanceId)) {
+      return false;
+    }
+
+    this.orchestrator.destroyWidget(instanceId);
+    return true;
+  }
+
+  /**
+   * Destroy and remove every widget on the dashboard
+   */
+  private removeAllWidgets(): void {
+    this.widgets().forEach((widget) => {
+      this.orchestrator.destroyWidget(widget.id);
+      this.layoutManager.removeWidget(widget.id);
+    });
+
+    this.updateDashboardFromLayout();
+  }
+
+  /**
+   * Replace the current dashboard with a template's widgets
+   */
+  private async applyTemplate(
+    template: DashboardTemplate
+  ): Promise<void> {
+    const document = this.instantiateTemplate(
+      template,
+      this.activeDashboardId(),
+      template.name
+    );
+
+    this.restoring = true;
+
+    try {
+      this.removeAllWidgets();
+      this.layoutManager.applyDocument(document);
+      await this.restoreWidgets(document);
+    } finally {
+      this.restoring = false;
     }
   }
 
@@ -1670,8 +3238,10 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
     const widget = this.orchestrator.getWidget(instanceId);
     if (widget) {
       try {
+        // The copy gets its own per-breakpoint layouts
+        const { layouts, ...config } = widget.config;
         const duplicatedConfig = {
-          ...widget.config,
+          ...config,
           title: `${widget.config.title} (Copy)`,
           layout: {
             ...widget.config.layout,
@@ -1689,6 +3259,7 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
 
         this.layoutManager.addWidget(duplicatedWidget);
         this.updateDashboardFromLayout();
+        this.history.record('add');
 
         this.snackBar.open('Widget duplicated', 'Dismiss', {
           duration: 3000,
@@ -1707,12 +3278,43 @@ export class WidgetDashboardComponent implements OnInit, OnDestroy {
    * Configure a widget
    */
   private configureWidget(instanceId: string): void {
-    // This would open a configuration dialog
-    // For now, just show a message
-    this.snackBar.open(
-      'Widget configuration not yet implemented',
-      'Dismiss',
-      { duration: 3000 }
-    );
+    const widget = this.orchestrator.getWidget(instanceId);
+    const schema =
+      widget && this.registry.getConfigSchema(widget.config.type);
+    if (!widget || !schema) {
+      return;
+    }
+
+    this.dialog
+      .open<
+        WidgetConfigDialogComponent,
+        WidgetConfigDialogData,
+        Partial<WidgetConfig>
+      >(WidgetConfigDialogComponent, {
+        data: { instance: widget, schema },
+        width: '560px',
+        maxHeight: '90vh',
+      })
+      .afterClosed()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((config) => {
+        if (!config) {
+          return;
+        }
+
+        if (
+          this.orchestrator.updateWidgetConfig(instanceId, config)
+        ) {
+          this.updateDashboardFromLayout();
+          this.history.record('config');
+          this.snackBar.open(
+            'Widget configuration saved',
+            'Dismiss',
+            {
+              duration: 3000,
+            }
+          );
+        }
+      });
   }
 }
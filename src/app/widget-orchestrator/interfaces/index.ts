@@ -3,18 +3,33 @@ export * from './widget.interface';
 // Re-export commonly used types for convenience
 export type {
   DashboardConfig,
+  DashboardTemplate,
+  DashboardTemplateWidget,
+  GridBreakpoint,
   IWidget,
+  TrashedWidget,
   WidgetAppearance,
   WidgetCommunication,
   WidgetConfig,
+  WidgetConfigMigration,
+  WidgetConfigSchema,
   WidgetDataProvider,
   WidgetDataSource,
   WidgetDefinition,
   WidgetError,
+  WidgetErrorSource,
   WidgetEvent,
   WidgetInstance,
   WidgetLayout,
+  WidgetLifecycleEvent,
+  WidgetLifecycleEventType,
+  WidgetLifecycleHooks,
   WidgetPermissions,
+  WidgetRetryPolicy,
+  WidgetRetryStatus,
+  WidgetSandboxPolicy,
+  WidgetTransformFn,
+  WidgetTransformStep,
 } from './widget.interface';
 
 export { WidgetState } from './widget.interface';
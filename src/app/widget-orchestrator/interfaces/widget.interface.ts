@@ -46,9 +46,15 @@ export interface WidgetConfig {
   /** Widget description */
   description?: string;
 
-  /** Layout configuration */
+  /** Layout at the active grid breakpoint */
   layout: WidgetLayout;
 
+  /**
+   * Layouts the user arranged, keyed by grid breakpoint name
+   * Breakpoints without an entry derive one from the nearest entry
+   */
+  layouts?: Record<string, WidgetLayout>;
+
   /** Visual settings */
   appearance?: WidgetAppearance;
 
@@ -64,11 +70,49 @@ export interface WidgetConfig {
   /** Whether widget can be moved */
   movable?: boolean;
 
+  /** Whether widget stays in place; other widgets flow around it */
+  locked?: boolean;
+
   /** Whether widget can be removed */
   removable?: boolean;
 
   /** Widget permissions */
   permissions?: WidgetPermissions;
+
+  /** Automatic retries when the widget fails */
+  retryPolicy?: WidgetRetryPolicy;
+}
+
+/**
+ * Widget retry policy
+ */
+export interface WidgetRetryPolicy {
+  /** Retries before giving up; 0 disables automatic retries */
+  maxAttempts?: number;
+
+  /** Delay before the first retry in milliseconds */
+  initialDelay?: number;
+
+  /** Factor the delay grows by after each retry */
+  backoffFactor?: number;
+
+  /** Longest delay between retries in milliseconds */
+  maxDelay?: number;
+
+  /**
+   * Pause retries after repeated failures, then try again later
+   * Widgets with a circuit breaker give up once their trials run out
+   */
+  circuitBreaker?: {
+    /** Failures in a row that open the circuit */
+    failureThreshold: number;
+
+    /** Milliseconds before a trial retry */
+    resetTimeout: number;
+
+    /** Failed trials before giving up; defaults to 3 */
+    maxTrials?: number;
+  };
 }
 
 /**
@@ -140,22 +184,58 @@ export interface WidgetDataSource {
   /** Service name or API endpoint */
   source: string;
 
-  /** Data transformation method */
-  transform?: string;
+  /** Named transform, or chain of transforms, applied to fetched data */
+  transform?:
+    | string
+    | WidgetTransformStep
+    | (string | WidgetTransformStep)[];
 
   /** Refresh interval in milliseconds */
   refreshInterval?: number;
 
-  /** Parameters for data fetching */
+  /** Parameters for data fetching (query string or request body for APIs) */
   parameters?: Record<string, any>;
 
+  /** HTTP method for API data sources */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+  /** Additional HTTP headers for API data sources */
+  headers?: Record<string, string>;
+
+  /** Retry settings for transient fetch failures */
+  retry?: {
+    count?: number;
+    delay?: number; // Initial backoff delay in milliseconds
+    maxDelay?: number;
+  };
+
   /** Cache settings */
   cache?: {
     enabled: boolean;
     ttl?: number; // Time to live in milliseconds
+    staleWhileRevalidate?: boolean; // Serve expired data while refetching
   };
 }
 
+/**
+ * Data transform pipeline step
+ */
+export interface WidgetTransformStep {
+  /** Registered transform name */
+  name: string;
+
+  /** Transform options */
+  options?: Record<string, any>;
+}
+
+/**
+ * Data transform function
+ */
+export type WidgetTransformFn = (
+  data: any,
+  options: Record<string, any>
+) => any;
+
 /**
  * Widget permissions
  */
@@ -198,8 +278,8 @@ export interface WidgetDefinition {
   /** Default configuration */
   defaultConfig: Partial<WidgetConfig>;
 
-  /** Configuration schema for validation */
-  configSchema?: any;
+  /** Configuration schema for forms and validation */
+  configSchema?: WidgetConfigSchema;
 
   /** Widget icon */
   icon?: string;
@@ -207,9 +287,12 @@ export interface WidgetDefinition {
   /** Widget tags for discovery */
   tags?: string[];
 
-  /** Widget version */
+  /** Widget version, recorded with saved configs */
   version?: string;
 
+  /** Config migrations from earlier versions, chained by version */
+  migrations?: WidgetConfigMigration[];
+
   /** Dependencies */
   dependencies?: string[];
 
@@ -218,6 +301,98 @@ export interface WidgetDefinition {
 
   /** Lazy loading factory */
   loadComponent?: () => Promise<Type<any>>;
+
+  /**
+   * Component shown in place of the widget while it is failing
+   * Receives `error` and `instance` inputs when it declares them
+   */
+  fallbackComponent?: Type<any>;
+
+  /**
+   * Run untrusted widgets in a sandbox that only allows the declared
+   * events and shared state
+   */
+  sandbox?: WidgetSandboxPolicy;
+}
+
+/**
+ * What a sandboxed widget may do
+ * Entries ending in `*` match by prefix
+ */
+export interface WidgetSandboxPolicy {
+  /** Event types the widget may send */
+  emits?: string[];
+
+  /** Event types the widget may receive */
+  listens?: string[];
+
+  /** Shared state keys the widget may read */
+  reads?: string[];
+
+  /** Shared state keys the widget may write */
+  writes?: string[];
+}
+
+/**
+ * Migrates saved widget configuration between definition versions
+ */
+export interface WidgetConfigMigration {
+  /** Version the saved config was written with */
+  from: string;
+
+  /** Version the migrated config conforms to */
+  to: string;
+
+  /** Transform the saved config */
+  migrate(config: any): any;
+}
+
+/**
+ * Widget configuration schema (JSON Schema subset)
+ */
+export interface WidgetConfigSchema {
+  /** Value type */
+  type:
+    | 'object'
+    | 'array'
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean';
+
+  /** Field label */
+  title?: string;
+
+  /** Field help text */
+  description?: string;
+
+  /** Default value */
+  default?: any;
+
+  /** Validated but not editable in the configuration dialog */
+  readOnly?: boolean;
+
+  /** Allowed values */
+  enum?: (string | number)[];
+
+  /** Object properties */
+  properties?: Record<string, WidgetConfigSchema>;
+
+  /** Required object properties */
+  required?: string[];
+
+  /** Array item schema */
+  items?: WidgetConfigSchema;
+
+  /** String constraints */
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'color' | 'uri';
+
+  /** Numeric constraints */
+  minimum?: number;
+  maximum?: number;
 }
 
 /**
@@ -247,6 +422,26 @@ export interface WidgetInstance {
 
   /** Error information */
   error?: WidgetError;
+
+  /** Automatic retry progress while the widget is failing */
+  retry?: WidgetRetryStatus;
+}
+
+/**
+ * Automatic retry progress of a failing widget
+ */
+export interface WidgetRetryStatus {
+  /** Failures in a row */
+  attempt: number;
+
+  /**
+   * Open while retries are paused by the circuit breaker and
+   * half-open while its trial retry runs
+   */
+  circuit: 'closed' | 'open' | 'half-open';
+
+  /** When the next retry runs; unset once retries gave up */
+  nextRetryAt?: Date;
 }
 
 /**
@@ -256,10 +451,54 @@ export enum WidgetState {
   INITIALIZING = 'initializing',
   LOADING = 'loading',
   LOADED = 'loaded',
+  STALE = 'stale',
+  SUSPENDED = 'suspended',
   ERROR = 'error',
   DESTROYED = 'destroyed',
 }
 
+/**
+ * Widget lifecycle event
+ */
+export type WidgetLifecycleEvent =
+  | {
+      type: 'beforeCreate';
+      widgetType: string;
+
+      /** Merged configuration, before validation */
+      config: WidgetConfig;
+    }
+  | { type: 'afterCreate'; instance: WidgetInstance }
+  | { type: 'beforeLoad'; instance: WidgetInstance }
+  | {
+      type: 'afterLoad';
+      instance: WidgetInstance;
+      component: unknown;
+    }
+  | {
+      type: 'stateChange';
+      instance: WidgetInstance;
+      from: WidgetState;
+      to: WidgetState;
+    }
+  | { type: 'beforeDestroy'; instance: WidgetInstance }
+  | { type: 'afterDestroy'; instance: WidgetInstance };
+
+/**
+ * Widget lifecycle event type
+ */
+export type WidgetLifecycleEventType = WidgetLifecycleEvent['type'];
+
+/**
+ * Widget lifecycle hooks registered by plugins
+ * `beforeCreate` and `beforeLoad` hooks may throw to stop the widget
+ */
+export type WidgetLifecycleHooks = {
+  [K in WidgetLifecycleEventType]?: (
+    event: Extract<WidgetLifecycleEvent, { type: K }>
+  ) => void;
+};
+
 /**
  * Widget error interface
  */
@@ -278,8 +517,21 @@ export interface WidgetError {
 
   /** Whether error is recoverable */
   recoverable?: boolean;
+
+  /** Where the error was caught */
+  source?: WidgetErrorSource;
 }
 
+/**
+ * Where a widget error was caught
+ */
+export type WidgetErrorSource =
+  | 'load'
+  | 'render'
+  | 'lifecycle'
+  | 'event'
+  | 'data';
+
 /**
  * Widget event interface
  */
@@ -320,12 +572,20 @@ export interface DashboardConfig {
     margin: number;
     outerMargin: number;
     responsive: boolean;
-    breakpoints?: Record<string, number>;
+
+    /** Leave gaps instead of pulling widgets up */
+    float?: boolean;
+
+    /** Breakpoints from narrowest to widest; defaults apply if unset */
+    breakpoints?: GridBreakpoint[];
   };
 
   /** Widget instances */
   widgets: WidgetInstance[];
 
+  /** Removed widgets that can be restored, most recent first */
+  trash?: TrashedWidget[];
+
   /** Dashboard theme */
   theme?: string;
 
@@ -337,6 +597,103 @@ export interface DashboardConfig {
 
   /** Dashboard permissions */
   permissions?: WidgetPermissions;
+
+  /** Template the dashboard was created from */
+  template?: {
+    id: string;
+    version: string;
+  };
+}
+
+/**
+ * Grid settings for a range of dashboard widths
+ */
+export interface GridBreakpoint {
+  /** Breakpoint name, used as the key for per-breakpoint layouts */
+  name: string;
+
+  /** Media query matched against the viewport */
+  query?: string;
+
+  /**
+   * Minimum dashboard container width in pixels
+   * Takes precedence over query while the container is measured
+   */
+  minWidth?: number;
+
+  /** Grid columns */
+  cols: number;
+
+  /** Row height in pixels */
+  rowHeight: number;
+
+  /** Gap between widgets in pixels */
+  margin: number;
+}
+
+/**
+ * Widget removed from a dashboard, kept for restoring
+ */
+export interface TrashedWidget {
+  /** Instance ID the widget had when removed */
+  id: string;
+
+  /** Widget type */
+  type: string;
+
+  /** Definition version the config was written for */
+  version: string;
+
+  /** Config including data source and last layout */
+  config: WidgetConfig;
+
+  /** ISO timestamp of removal */
+  removedAt: string;
+}
+
+/**
+ * Dashboard template for registration
+ */
+export interface DashboardTemplate {
+  /** Template identifier */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Template description */
+  description: string;
+
+  /** Template version, recorded on dashboards created from it */
+  version: string;
+
+  /** Template icon */
+  icon?: string;
+
+  /** Template tags for discovery */
+  tags?: string[];
+
+  /** Dashboard settings applied over the current ones */
+  dashboard?: Partial<
+    Omit<DashboardConfig, 'id' | 'widgets' | 'trash' | 'template'>
+  >;
+
+  /** Widgets to create, merged over their definition's defaults */
+  widgets: DashboardTemplateWidget[];
+}
+
+/**
+ * Widget placed by a dashboard template
+ */
+export interface DashboardTemplateWidget {
+  /** Widget type */
+  type: string;
+
+  /**
+   * Config overrides, including the widget's position on the
+   * desktop (lg) grid; add layouts to arrange other breakpoints
+   */
+  config: Partial<WidgetConfig> & { layout: WidgetLayout };
 }
 
 /**
@@ -0,0 +1,160 @@
+import { TestBed } from '@angular/core/testing';
+import { WidgetInstance } from '../interfaces';
+import {
+  DashboardHistoryService,
+  DashboardHistoryState,
+} from './dashboard-history.service';
+import { DashboardLayoutManagerService } from './dashboard-layout-manager.service';
+import { WidgetOrchestratorService } from './widget-orchestrator.service';
+import { WidgetRegistryService } from './widget-registry.service';
+
+class NoteWidgetComponent {}
+
+describe('DashboardHistoryService', () => {
+  let history: DashboardHistoryService;
+  let layoutManager: DashboardLayoutManagerService;
+  let orchestrator: WidgetOrchestratorService;
+  let state: DashboardHistoryState;
+
+  async function addNote(title: string): Promise<WidgetInstance> {
+    const instance = await orchestrator.createWidget('note', {
+      title,
+      layout: { cols: 2, rows: 2 },
+    });
+    layoutManager.addWidget(instance);
+    return instance;
+  }
+
+  function widgets(): { title: string; x?: number; y?: number }[] {
+    return layoutManager
+      .getDashboardConfig()
+      .widgets.map(({ config }) => ({
+        title: config.title,
+        x: config.layout.x,
+        y: config.layout.y,
+      }));
+  }
+
+  beforeEach(() => {
+    TestBed.inject(WidgetRegistryService).register({
+      type: 'note',
+      name: 'Note',
+      description: 'Note widget',
+      component: NoteWidgetComponent,
+      category: 'general',
+      defaultConfig: {},
+    });
+    orchestrator = TestBed.inject(WidgetOrchestratorService);
+    layoutManager = TestBed.inject(DashboardLayoutManagerService);
+    history = TestBed.inject(DashboardHistoryService);
+    history.getState$().subscribe((next) => (state = next));
+  });
+
+  it('undoes and redoes a move', async () => {
+    const note = await addNote('A');
+    history.record('add');
+
+    layoutManager.updateWidgetLayout(note.id, { x: 4, y: 0 });
+    history.record('move');
+    expect(state).toEqual({ undo: 'move', redo: undefined });
+
+    expect(await history.undo()).toBe(true);
+    expect(widgets()).toEqual([{ title: 'A', x: 0, y: 0 }]);
+    expect(state).toEqual({ undo: 'add', redo: 'move' });
+
+    expect(await history.redo()).toBe(true);
+    expect(widgets()).toEqual([{ title: 'A', x: 4, y: 0 }]);
+    expect(state).toEqual({ undo: 'move', redo: undefined });
+  });
+
+  it('ignores gestures that changed nothing', async () => {
+    await addNote('A');
+    history.record('add');
+    history.record('move');
+
+    expect(state.undo).toBe('add');
+  });
+
+  it('recreates removed widgets and keeps following them', async () => {
+    const note = await addNote('A');
+    history.record('add');
+
+    orchestrator.destroyWidget(note.id);
+    layoutManager.trashWidget(note.id);
+    history.record('trash');
+
+    await history.undo();
+    const [restored] = layoutManager.getDashboardConfig().widgets;
+    expect(restored.id).not.toBe(note.id);
+    expect(layoutManager.getTrash()).toEqual([]);
+
+    // Redo removes the recreated widget, undo brings it back again
+    await history.redo();
+    expect(widgets()).toEqual([]);
+    expect(layoutManager.getTrash().length).toBe(1);
+
+    await history.undo();
+    expect(widgets()).toEqual([{ title: 'A', x: 0, y: 0 }]);
+  });
+
+  it('restores the rest of the snapshot if a widget cannot be recreated', async () => {
+    const note = await addNote('A');
+    history.record('add');
+
+    orchestrator.destroyWidget(note.id);
+    layoutManager.removeWidget(note.id);
+    layoutManager.updateDashboardConfig({ title: 'Renamed' });
+    history.record('remove');
+    TestBed.inject(WidgetRegistryService).unregister('note');
+
+    await expectAsync(history.undo()).toBeRejected();
+    expect(widgets()).toEqual([]);
+    expect(layoutManager.getDashboardConfig().title).toBe(
+      'Dashboard'
+    );
+    expect(state).toEqual({ undo: 'add', redo: 'remove' });
+  });
+
+  it('reverts config and title edits', async () => {
+    const note = await addNote('A');
+    history.record('add');
+
+    orchestrator.updateWidgetConfig(note.id, { title: 'B' });
+    history.record('config');
+    layoutManager.updateDashboardConfig({ title: 'Renamed' });
+    history.record('title');
+
+    await history.undo();
+    expect(layoutManager.getDashboardConfig().title).toBe(
+      'Dashboard'
+    );
+    expect(widgets()[0].title).toBe('B');
+
+    await history.undo();
+    expect(widgets()[0].title).toBe('A');
+  });
+
+  it('drops the redo stack on a new edit', async () => {
+    const note = await addNote('A');
+    history.record('add');
+    layoutManager.updateWidgetLayout(note.id, { x: 4, y: 0 });
+    history.record('move');
+
+    await history.undo();
+    layoutManager.updateWidgetLayout(note.id, { x: 2, y: 0 });
+    history.record('move');
+
+    expect(state.redo).toBeUndefined();
+    expect(await history.redo()).toBe(false);
+  });
+
+  it('forgets edits on reset', async () => {
+    await addNote('A');
+    history.record('add');
+
+    history.reset();
+
+    expect(state).toEqual({ undo: undefined, redo: undefined });
+    expect(await history.undo()).toBe(false);
+  });
+});
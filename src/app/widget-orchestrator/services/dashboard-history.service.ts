@@ -0,0 +1,294 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { skip } from 'rxjs/operators';
+
+import {
+  TrashedWidget,
+  WidgetInstance,
+  WidgetLayout,
+} from '../interfaces';
+import {
+  DashboardLayoutManagerService,
+  LayoutChange,
+} from './dashboard-layout-manager.service';
+import {
+  DashboardSerializerService,
+  SerializedWidget,
+} from './dashboard-serializer.service';
+import { WidgetOrchestratorService } from './widget-orchestrator.service';
+
+export type DashboardEditType =
+  | LayoutChange['type']
+  | 'config'
+  | 'title'
+  | 'trash';
+
+/**
+ * Next edit that undo and redo would revert or reapply
+ */
+export interface DashboardHistoryState {
+  undo?: DashboardEditType;
+  redo?: DashboardEditType;
+}
+
+/**
+ * Undoable parts of the dashboard at a point in time
+ */
+interface DashboardSnapshot {
+  title: string;
+  widgets: SerializedWidget[];
+  trash: TrashedWidget[];
+}
+
+interface DashboardEdit {
+  type: DashboardEditType;
+  before: DashboardSnapshot;
+  after: DashboardSnapshot;
+}
+
+/**
+ * Dashboard History Service
+ * Undo/redo for dashboard edits, recorded as snapshots per user gesture
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DashboardHistoryService {
+  private readonly orchestrator = inject(WidgetOrchestratorService);
+  private readonly layoutManager = inject(
+    DashboardLayoutManagerService
+  );
+  private readonly serializer = inject(DashboardSerializerService);
+
+  // Match the layout change history limit
+  private readonly maxEntries = 100;
+
+  private undoStack: DashboardEdit[] = [];
+  private redoStack: DashboardEdit[] = [];
+  private committed = this.capture();
+  private applying = false;
+
+  // Widgets recreated by undo/redo get new instance ids
+  private readonly recreatedIds = new Map<string, string>();
+
+  private readonly state = new BehaviorSubject<DashboardHistoryState>(
+    {}
+  );
+
+  constructor() {
+    // Breakpoint changes rearrange layouts but are not edits
+    this.layoutManager
+      .getCurrentBreakpoint$()
+      .pipe(skip(1))
+      .subscribe(() => {
+        if (!this.applying) {
+          this.committed = this.capture();
+        }
+      });
+  }
+
+  /**
+   * Get undo/redo availability
+   */
+  getState$(): Observable<DashboardHistoryState> {
+    return this.state.asObservable();
+  }
+
+  /**
+   * Record everything changed since the last record as one edit
+   * Call once at the end of each user gesture
+   */
+  record(type: DashboardEditType): void {
+    if (this.applying) {
+      return;
+    }
+
+    const current = this.capture();
+    if (this.isSameSnapshot(current, this.committed)) {
+      return;
+    }
+
+    this.undoStack = [
+      ...this.undoStack,
+      { type, before: this.committed, after: current },
+    ].slice(-this.maxEntries);
+    this.redoStack = [];
+    this.committed = current;
+    this.emitState();
+  }
+
+  /**
+   * Revert the last edit
+   */
+  async undo(): Promise<boolean> {
+    const edit = this.undoStack[this.undoStack.length - 1];
+    if (!edit || this.applying) {
+      return false;
+    }
+
+    this.undoStack = this.undoStack.slice(0, -1);
+    this.redoStack = [...this.redoStack, edit];
+    await this.applySnapshot(edit.before);
+    return true;
+  }
+
+  /**
+   * Reapply the last undone edit
+   */
+  async redo(): Promise<boolean> {
+    const edit = this.redoStack[this.redoStack.length - 1];
+    if (!edit || this.applying) {
+      return false;
+    }
+
+    this.redoStack = this.redoStack.slice(0, -1);
+    this.undoStack = [...this.undoStack, edit];
+    await this.applySnapshot(edit.after);
+    return true;
+  }
+
+  /**
+   * Forget all edits and start from the current dashboard,
+   * e.g. after loading or importing
+   */
+  reset(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.recreatedIds.clear();
+    this.committed = this.capture();
+    this.emitState();
+  }
+
+  /**
+   * Bring the dashboard to a snapshot
+   * Widgets that cannot be recreated are skipped; the first failure
+   * is rethrown once the rest of the snapshot is applied
+   */
+  private async applySnapshot(
+    target: DashboardSnapshot
+  ): Promise<void> {
+    this.applying = true;
+    const failures: unknown[] = [];
+
+    try {
+      const targetIds = new Set(
+        target.widgets.map((widget) => this.resolveId(widget.id))
+      );
+
+      // Remove widgets the snapshot does not have
+      this.layoutManager
+        .getDashboardConfig()
+        .widgets.filter((widget) => !targetIds.has(widget.id))
+        .forEach((widget) => {
+          this.orchestrator.destroyWidget(widget.id);
+          this.layoutManager.removeWidget(widget.id);
+        });
+
+      const layouts: Record<string, WidgetLayout> = {};
+
+      for (const widget of target.widgets) {
+        const instanceId = this.resolveId(widget.id);
+        const live = this.layoutManager
+          .getDashboardConfig()
+          .widgets.find((w) => w.id === instanceId);
+
+        if (!live) {
+          // Recreate removed widgets from their saved config
+          let instance: WidgetInstance;
+          try {
+            instance = await this.orchestrator.createWidget(
+              widget.type,
+              widget.config
+            );
+          } catch (error) {
+            failures.push(error);
+            continue;
+          }
+          this.layoutManager.addWidget(instance, {
+            x: widget.config.layout.x ?? 0,
+            y: widget.config.layout.y ?? 0,
+          });
+          this.recreatedIds.set(instanceId, instance.id);
+          layouts[instance.id] = widget.config.layout;
+          continue;
+        }
+
+        const { layout, ...config } = widget.config;
+        const { layout: liveLayout, ...liveConfig } = live.config;
+        if (JSON.stringify(config) !== JSON.stringify(liveConfig)) {
+          this.orchestrator.updateWidgetConfig(instanceId, {
+            ...config,
+            layout: liveLayout,
+          });
+        }
+        layouts[instanceId] = layout;
+      }
+
+      this.layoutManager.restoreLayouts(layouts);
+
+      if (
+        this.layoutManager.getDashboardConfig().title !== target.title
+      ) {
+        this.layoutManager.updateDashboardConfig({
+          title: target.title,
+        });
+      }
+
+      if (
+        JSON.stringify(this.layoutManager.getTrash()) !==
+        JSON.stringify(target.trash)
+      ) {
+        this.layoutManager.updateDashboardConfig({
+          trash: target.trash,
+        });
+      }
+
+      if (failures.length > 0) {
+        throw failures[0];
+      }
+    } finally {
+      this.applying = false;
+      this.committed = this.capture();
+      this.emitState();
+    }
+  }
+
+  /**
+   * Get the current id of a widget that may have been recreated
+   */
+  private resolveId(instanceId: string): string {
+    let id = instanceId;
+    while (this.recreatedIds.has(id)) {
+      id = this.recreatedIds.get(id)!;
+    }
+    return id;
+  }
+
+  /**
+   * Copy the undoable parts of the current dashboard
+   */
+  private capture(): DashboardSnapshot {
+    const { dashboard, widgets, trash } = this.serializer.serialize(
+      this.layoutManager.getDashboardConfig()
+    );
+
+    // Deep copy; widget layouts are updated in place
+    return JSON.parse(
+      JSON.stringify({ title: dashboard.title, widgets, trash })
+    );
+  }
+
+  private isSameSnapshot(
+    a: DashboardSnapshot,
+    b: DashboardSnapshot
+  ): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private emitState(): void {
+    this.state.next({
+      undo: this.undoStack[this.undoStack.length - 1]?.type,
+      redo: this.redoStack[this.redoStack.length - 1]?.type,
+    });
+  }
+}
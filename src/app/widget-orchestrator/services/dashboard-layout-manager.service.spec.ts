@@ -0,0 +1,46 @@
+import { TestBed } from '@angular/core/testing';
+import { DashboardLayoutManagerService } from './dashboard-layout-manager.service';
+import { DASHBOARD_DOCUMENT_VERSION } from './dashboard-serializer.service';
+
+describe('DashboardLayoutManagerService', () => {
+  let layoutManager: DashboardLayoutManagerService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    layoutManager = TestBed.inject(DashboardLayoutManagerService);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  describe('loadLayout', () => {
+    it('resolves with null when nothing is stored', async () => {
+      expect(
+        await layoutManager.loadLayout('dashboard-main')
+      ).toBeNull();
+      expect(
+        (await layoutManager.saveLayout('dashboard-main')).status
+      ).toBe('saved');
+    });
+
+    it('rejects unreadable documents and never saves over them', async () => {
+      const stored = JSON.stringify({
+        revision: 0,
+        document: { schemaVersion: DASHBOARD_DOCUMENT_VERSION + 1 },
+      });
+      localStorage.setItem('dashboard-main', stored);
+
+      await expectAsync(
+        layoutManager.loadLayout('dashboard-main')
+      ).toBeRejectedWithError(
+        /Unsupported dashboard document version/
+      );
+
+      expect(
+        (await layoutManager.saveLayout('dashboard-main')).status
+      ).toBe('conflict');
+      expect(localStorage.getItem('dashboard-main')).toBe(stored);
+    });
+  });
+});
@@ -1,20 +1,86 @@
 import { BreakpointObserver, Breakpoints } from '@angular/cdk/layout';
 import { Injectable, inject } from '@angular/core';
 import { BehaviorSubject, Observable, combineLatest } from 'rxjs';
-import { distinctUntilChanged, map } from 'rxjs/operators';
+import { distinctUntilChanged, map, switchMap } from 'rxjs/operators';
 
 import {
   DashboardConfig,
+  GridBreakpoint,
+  TrashedWidget,
+  WidgetConfig,
+  WidgetError,
   WidgetInstance,
   WidgetLayout,
 } from '../interfaces';
+import {
+  DEFAULT_WIDGET_VERSION,
+  DashboardDocument,
+  DashboardSerializerService,
+} from './dashboard-serializer.service';
+import {
+  DASHBOARD_STORAGE_ADAPTER,
+  DashboardSaveResult,
+  DashboardSummary,
+} from './dashboard-storage.service';
+import {
+  GridItem,
+  GridLayoutEngineService,
+  GridLayoutOptions,
+} from './grid-layout-engine.service';
+import { WidgetConfigValidatorService } from './widget-config-validator.service';
+
+/**
+ * Breakpoints used when a dashboard does not define its own
+ */
+export const DEFAULT_GRID_BREAKPOINTS: GridBreakpoint[] = [
+  {
+    name: 'xs',
+    query: Breakpoints.XSmall,
+    minWidth: 0,
+    cols: 1,
+    rowHeight: 100,
+    margin: 8,
+  },
+  {
+    name: 'sm',
+    query: Breakpoints.Small,
+    minWidth: 600,
+    cols: 2,
+    rowHeight: 100,
+    margin: 10,
+  },
+  {
+    name: 'md',
+    query: Breakpoints.Medium,
+    minWidth: 960,
+    cols: 6,
+    rowHeight: 100,
+    margin: 12,
+  },
+  {
+    name: 'lg',
+    query: Breakpoints.Large,
+    minWidth: 1280,
+    cols: 12,
+    rowHeight: 100,
+    margin: 15,
+  },
+  {
+    name: 'xl',
+    query: Breakpoints.XLarge,
+    minWidth: 1920,
+    cols: 12,
+    rowHeight: 120,
+    margin: 20,
+  },
+];
+
+export interface DashboardImportResult {
+  success: boolean;
+  errors: WidgetError[];
 
-export interface GridBreakpoint {
-  name: string;
-  query: string;
-  cols: number;
-  rowHeight: number;
-  margin: number;
+  /** Migrated document, present when the import is valid */
+  document?: DashboardDocument;
 }
 
 export interface LayoutChange {
@@ -33,6 +99,20 @@ export interface LayoutChange {
 })
 export class DashboardLayoutManagerService {
   private readonly breakpointObserver = inject(BreakpointObserver);
+  private readonly configValidator = inject(
+    WidgetConfigValidatorService
+  );
+  private readonly layoutEngine = inject(GridLayoutEngineService);
+  private readonly serializer = inject(DashboardSerializerService);
+  private readonly storage = inject(DASHBOARD_STORAGE_ADAPTER);
+
+  // Last loaded or saved revision per storage key
+  private readonly revisions = new Map<string, number>();
+  // Never matches a stored revision, so saves conflict
+  private readonly unreadableRevision = -1;
+  private pendingSave: Promise<unknown> = Promise.resolve();
+
+  private readonly maxTrashSize = 50;
 
   // Default grid configuration
   private readonly defaultGridConfig = {
@@ -43,45 +123,6 @@ export class DashboardLayoutManagerService {
     responsive: true,
   };
 
-  // Breakpoint definitions
-  private readonly breakpoints: GridBreakpoint[] = [
-    {
-      name: 'xs',
-      query: Breakpoints.XSmall,
-      cols: 1,
-      rowHeight: 100,
-      margin: 8,
-    },
-    {
-      name: 'sm',
-      query: Breakpoints.Small,
-      cols: 2,
-      rowHeight: 100,
-      margin: 10,
-    },
-    {
-      name: 'md',
-      query: Breakpoints.Medium,
-      cols: 6,
-      rowHeight: 100,
-      margin: 12,
-    },
-    {
-      name: 'lg',
-      query: Breakpoints.Large,
-      cols: 12,
-      rowHeight: 100,
-      margin: 15,
-    },
-    {
-      name: 'xl',
-      query: Breakpoints.XLarge,
-      cols: 12,
-      rowHeight: 120,
-      margin: 20,
-    },
-  ];
-
   // State management
   private readonly dashboardConfig =
     new BehaviorSubject<DashboardConfig>({
@@ -95,7 +136,12 @@ export class DashboardLayoutManagerService {
     LayoutChange[]
   >([]);
   private readonly currentBreakpoint =
-    new BehaviorSubject<GridBreakpoint>(this.breakpoints[3]);
+    new BehaviorSubject<GridBreakpoint>(DEFAULT_GRID_BREAKPOINTS[3]);
+
+  // Dashboard container width, null while the viewport decides
+  private readonly containerWidth = new BehaviorSubject<
+    number | null
+  >(null);
 
   constructor() {
     this.setupResponsiveBreakpoints();
@@ -134,17 +180,29 @@ export class DashboardLayoutManagerService {
     const config = this.dashboardConfig.value;
     const updatedWidgets = [...config.widgets];
 
-    // Find optimal position if not specified
-    if (!position) {
-      position = this.findOptimalPosition(instance.config.layout);
-    }
+    if (config.grid.responsive && instance.config.layouts) {
+      // Restored widgets keep their arrangement for this breakpoint
+      const layout = this.getBreakpointLayout(
+        instance.config,
+        this.currentBreakpoint.value
+      );
+      instance.config.layout = this.isAreaAvailable(layout)
+        ? layout
+        : { ...layout, ...this.findPosition(layout) };
+    } else {
+      // Find optimal position if not specified
+      if (!position) {
+        position = this.findPosition(instance.config.layout);
+      }
 
-    // Update widget layout with position
-    instance.config.layout = {
-      ...instance.config.layout,
-      x: position.x,
-      y: position.y,
-    };
+      // Update widget layout with position
+      instance.config.layout = {
+        ...instance.config.layout,
+        x: position.x,
+        y: position.y,
+      };
+      this.storeBreakpointLayouts([instance]);
+    }
 
     updatedWidgets.push(instance);
 
@@ -188,6 +246,63 @@ export class DashboardLayoutManagerService {
     return true;
   }
 
+  /**
+   * Remove widget from dashboard, keeping it in the trash
+   */
+  trashWidget(instanceId: string): boolean {
+    const widget = this.dashboardConfig.value.widgets.find(
+      (w) => w.id === instanceId
+    );
+    if (!widget || !this.removeWidget(instanceId)) {
+      return false;
+    }
+
+    const trashed: TrashedWidget = {
+      id: widget.id,
+      type: widget.config.type,
+      version: widget.definition?.version ?? DEFAULT_WIDGET_VERSION,
+      config: JSON.parse(JSON.stringify(widget.config)),
+      removedAt: new Date().toISOString(),
+    };
+
+    this.updateDashboardConfig({
+      trash: [trashed, ...this.getTrash()].slice(
+        0,
+        this.maxTrashSize
+      ),
+    });
+    return true;
+  }
+
+  /**
+   * Get removed widgets, most recent first
+   */
+  getTrash(): TrashedWidget[] {
+    return this.dashboardConfig.value.trash ?? [];
+  }
+
+  /**
+   * Take a widget out of the trash, e.g. once it has been restored
+   */
+  removeFromTrash(trashedId: string): TrashedWidget | undefined {
+    const trashed = this.getTrash().find((w) => w.id === trashedId);
+
+    if (trashed) {
+      this.updateDashboardConfig({
+        trash: this.getTrash().filter((w) => w !== trashed),
+      });
+    }
+
+    return trashed;
+  }
+
+  /**
+   * Permanently discard all removed widgets
+   */
+  emptyTrash(): void {
+    this.updateDashboardConfig({ trash: [] });
+  }
+
   /**
    * Update widget layout
    */
@@ -203,29 +318,20 @@ export class DashboardLayoutManagerService {
     }
 
     const previousLayout = { ...widget.config.layout };
-    const updatedLayout = { ...widget.config.layout, ...layout };
 
-    // Validate layout
-    if (!this.validateLayout(updatedLayout)) {
+    // Colliding widgets are pushed down to make room
+    const items = this.layoutEngine.moveItem(
+      this.getGridItems(),
+      instanceId,
+      layout,
+      this.getLayoutOptions()
+    );
+    if (!items) {
       return false;
     }
 
-    // Check for overlaps
-    if (this.hasOverlap(instanceId, updatedLayout)) {
-      // Try to resolve overlaps
-      const resolvedLayout = this.resolveOverlaps(
-        instanceId,
-        updatedLayout
-      );
-      if (resolvedLayout) {
-        widget.config.layout = resolvedLayout;
-      } else {
-        return false; // Could not resolve overlaps
-      }
-    } else {
-      widget.config.layout = updatedLayout;
-    }
-
+    this.applyGridItems(items);
+    this.storeBreakpointLayouts();
     this.dashboardConfig.next(config);
 
     // Record layout change
@@ -242,6 +348,63 @@ export class DashboardLayoutManagerService {
     return true;
   }
 
+  /**
+   * Show where widgets would go if a widget moved, without committing
+   * the move, e.g. while dragging. Layouts are computed from base so
+   * previews do not build on each other; returns false and shows base
+   * if the move is not allowed
+   */
+  previewWidgetLayout(
+    instanceId: string,
+    layout: Partial<WidgetLayout>,
+    base: Record<string, WidgetLayout>
+  ): boolean {
+    const items = this.getGridItems().map((item) => ({
+      ...item,
+      layout: base[item.id] ?? item.layout,
+    }));
+    const moved = this.layoutEngine.moveItem(
+      items,
+      instanceId,
+      layout,
+      this.getLayoutOptions()
+    );
+
+    this.applyGridItems(moved ?? items);
+    this.updateDashboardConfig({
+      widgets: [...this.dashboardConfig.value.widgets],
+    });
+    return moved !== null;
+  }
+
+  /**
+   * Apply widget layouts as given, without overlap resolution
+   */
+  restoreLayouts(layouts: Record<string, WidgetLayout>): void {
+    const config = this.dashboardConfig.value;
+
+    config.widgets.forEach((widget) => {
+      const layout = layouts[widget.id];
+      if (layout) {
+        widget.config.layout = { ...layout };
+      }
+    });
+
+    this.updateDashboardConfig({ widgets: [...config.widgets] });
+  }
+
+  /**
+   * Check if a layout fits the grid without overlapping other widgets
+   */
+  isAreaAvailable(layout: WidgetLayout): boolean {
+    return (
+      this.layoutEngine.fits(layout, this.getGridConfig().cols) &&
+      !this.getGridItems().some((item) =>
+        this.layoutEngine.collides(layout, item.layout)
+      )
+    );
+  }
+
   /**
    * Get widget layout
    */
@@ -276,6 +439,24 @@ export class DashboardLayoutManagerService {
     return this.currentBreakpoint.value;
   }
 
+  /**
+   * Get the dashboard's breakpoints, from narrowest to widest
+   */
+  getBreakpoints(): GridBreakpoint[] {
+    const breakpoints = this.dashboardConfig.value.grid.breakpoints;
+    return breakpoints?.length
+      ? breakpoints
+      : DEFAULT_GRID_BREAKPOINTS;
+  }
+
+  /**
+   * Select breakpoints by the dashboard container's width instead of
+   * the viewport; pass null to go back to media queries
+   */
+  setContainerWidth(width: number | null): void {
+    this.containerWidth.next(width);
+  }
+
   /**
    * Get current breakpoint as observable
    */
@@ -284,79 +465,180 @@ export class DashboardLayoutManagerService {
   }
 
   /**
-   * Optimize layout for current breakpoint
+   * Show each widget's layout for a breakpoint
+   * Widgets the user has not arranged there get a derived layout
    */
-  optimizeLayoutForBreakpoint(): void {
-    const breakpoint = this.currentBreakpoint.value;
+  applyBreakpointLayouts(
+    breakpoint = this.currentBreakpoint.value
+  ): void {
     const config = this.dashboardConfig.value;
+    const arranged = config.widgets
+      .filter((widget) => widget.config.layouts?.[breakpoint.name])
+      .map((widget) => widget.id);
 
-    const optimizedWidgets = config.widgets.map((widget) => {
-      const layout = this.optimizeWidgetForBreakpoint(
-        widget.config.layout,
+    config.widgets.forEach((widget) => {
+      widget.config.layout = this.getBreakpointLayout(
+        widget.config,
         breakpoint
       );
-      return {
-        ...widget,
-        config: { ...widget.config, layout },
-      };
     });
 
-    this.updateDashboardConfig({ widgets: optimizedWidgets });
+    // Arranged layouts stay put; derived ones are pushed below them
+    this.applyGridItems(
+      this.layoutEngine.pack(
+        this.getGridItems(),
+        { cols: breakpoint.cols, float: true },
+        arranged
+      )
+    );
+
+    this.updateDashboardConfig({ widgets: [...config.widgets] });
   }
 
   /**
-   * Compact layout to remove gaps
+   * Drop the user's arrangement for a breakpoint so it is derived again
    */
-  compactLayout(): void {
-    const config = this.dashboardConfig.value;
-    const sortedWidgets = [...config.widgets].sort((a, b) => {
-      const layoutA = a.config.layout;
-      const layoutB = b.config.layout;
-
-      // Sort by y position first, then by x position
-      if (layoutA.y !== layoutB.y) {
-        return (layoutA.y || 0) - (layoutB.y || 0);
+  resetBreakpointLayout(
+    breakpoint = this.currentBreakpoint.value
+  ): void {
+    this.dashboardConfig.value.widgets.forEach((widget) => {
+      if (widget.config.layouts?.[breakpoint.name]) {
+        const { [breakpoint.name]: _, ...layouts } =
+          widget.config.layouts;
+        widget.config.layouts = layouts;
       }
-      return (layoutA.x || 0) - (layoutB.x || 0);
     });
 
-    const compactedWidgets = this.compactWidgets(sortedWidgets);
-    this.updateDashboardConfig({ widgets: compactedWidgets });
+    this.applyBreakpointLayouts(breakpoint);
   }
 
   /**
-   * Save dashboard layout to storage
+   * Check if the user has arranged widgets for a breakpoint
    */
-  saveLayout(storageKey = 'dashboard-layout'): void {
+  hasBreakpointLayout(
+    breakpoint = this.currentBreakpoint.value
+  ): boolean {
+    return this.dashboardConfig.value.widgets.some(
+      (widget) => widget.config.layouts?.[breakpoint.name]
+    );
+  }
+
+  /**
+   * Compact layout to remove gaps, also on floating grids
+   */
+  compactLayout(): void {
     const config = this.dashboardConfig.value;
-    const layoutData = {
-      config,
-      timestamp: new Date().toISOString(),
-    };
 
-    try {
-      localStorage.setItem(storageKey, JSON.stringify(layoutData));
-    } catch (error) {
-      console.warn('Failed to save dashboard layout:', error);
-    }
+    this.applyGridItems(
+      this.layoutEngine.pack(this.getGridItems(), {
+        cols: config.grid.cols,
+      })
+    );
+    this.storeBreakpointLayouts();
+    this.updateDashboardConfig({ widgets: [...config.widgets] });
   }
 
   /**
-   * Load dashboard layout from storage
+   * Save dashboard layout to storage
+   * Resolves with a conflict if another session saved the same key
+   * since this one last loaded or saved it, unless forced
    */
-  loadLayout(storageKey = 'dashboard-layout'): boolean {
-    try {
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const layoutData = JSON.parse(stored);
-        this.dashboardConfig.next(layoutData.config);
-        return true;
+  saveLayout(
+    storageKey = 'dashboard-layout',
+    options: { force?: boolean } = {}
+  ): Promise<DashboardSaveResult> {
+    // Queue saves so each one sends the revision of the previous
+    const save = this.pendingSave.then(async () => {
+      const document = this.serializer.serialize(
+        this.dashboardConfig.value
+      );
+      const result = await this.storage.save(
+        storageKey,
+        document,
+        options.force
+          ? undefined
+          : this.revisions.get(storageKey) ?? 0
+      );
+
+      if (result.status === 'saved') {
+        this.revisions.set(storageKey, result.revision);
       }
-    } catch (error) {
-      console.warn('Failed to load dashboard layout:', error);
+
+      return result;
+    });
+
+    this.pendingSave = save.catch(() => undefined);
+    return save;
+  }
+
+  /**
+   * Load dashboard layout from storage
+   * Applies dashboard settings; callers recreate the returned widgets
+   * Rejects if the stored document cannot be read, e.g. one saved by a
+   * newer build; saves to that key then conflict instead of overwriting it
+   */
+  async loadLayout(
+    storageKey = 'dashboard-layout'
+  ): Promise<DashboardDocument | null> {
+    this.revisions.set(storageKey, this.unreadableRevision);
+
+    const stored = await this.storage.load(storageKey);
+    if (!stored) {
+      this.revisions.set(storageKey, 0);
+      return null;
     }
 
-    return false;
+    const document = this.serializer.deserialize(stored.document);
+    this.revisions.set(storageKey, stored.revision);
+    this.applyDocument(document);
+    return document;
+  }
+
+  /**
+   * List saved layouts whose storage key starts with prefix
+   */
+  listLayouts(prefix = 'dashboard-'): Promise<DashboardSummary[]> {
+    return this.storage.list(prefix);
+  }
+
+  /**
+   * Store a document under a new key, e.g. for a new or cloned dashboard
+   * Resolves with a conflict if the key is already taken
+   */
+  createLayout(
+    storageKey: string,
+    document: DashboardDocument
+  ): Promise<DashboardSaveResult> {
+    return this.storage.save(storageKey, document, 0);
+  }
+
+  /**
+   * Delete a saved layout
+   */
+  async deleteLayout(storageKey: string): Promise<void> {
+    await this.storage.remove(storageKey);
+    this.revisions.delete(storageKey);
+  }
+
+  /**
+   * Replace dashboard settings from a document, clearing widgets
+   */
+  applyDocument(document: DashboardDocument): void {
+    const breakpoint = this.currentBreakpoint.value;
+
+    // Saved grid sizes belong to the breakpoint active when saving
+    this.dashboardConfig.next({
+      ...this.dashboardConfig.value,
+      ...document.dashboard,
+      grid: {
+        ...document.dashboard.grid,
+        cols: breakpoint.cols,
+        rowHeight: breakpoint.rowHeight,
+        margin: breakpoint.margin,
+      },
+      widgets: [],
+      trash: document.trash,
+    });
   }
 
   /**
@@ -377,51 +659,74 @@ export class DashboardLayoutManagerService {
    * Export dashboard configuration
    */
   exportDashboard(): string {
-    const config = this.dashboardConfig.value;
-    return JSON.stringify(config, null, 2);
+    const document = this.serializer.serialize(
+      this.dashboardConfig.value
+    );
+    return JSON.stringify(document, null, 2);
   }
 
   /**
    * Import dashboard configuration
    */
-  importDashboard(configJson: string): boolean {
+  importDashboard(configJson: string): DashboardImportResult {
+    let document: DashboardDocument;
     try {
-      const config = JSON.parse(configJson) as DashboardConfig;
-      this.validateDashboardConfig(config);
-      this.dashboardConfig.next(config);
-      return true;
+      document = this.serializer.deserialize(JSON.parse(configJson));
     } catch (error) {
       console.error('Failed to import dashboard:', error);
-      return false;
+      return {
+        success: false,
+        errors: [
+          {
+            code: 'INVALID_DASHBOARD_CONFIG',
+            message: `Failed to read dashboard file: ${error}`,
+            timestamp: new Date(),
+            recoverable: true,
+          },
+        ],
+      };
+    }
+
+    const errors = this.validateDashboardDocument(document);
+    if (errors.length > 0) {
+      console.error('Failed to import dashboard:', errors);
+      return { success: false, errors };
     }
+
+    return { success: true, errors: [], document };
   }
 
   /**
    * Setup responsive breakpoints
    */
   private setupResponsiveBreakpoints(): void {
-    const breakpointQueries = this.breakpoints.map((bp) => bp.query);
-
-    combineLatest(
-      breakpointQueries.map((query) =>
-        this.breakpointObserver.observe(query)
-      )
-    )
+    this.dashboardConfig
       .pipe(
-        map((results) => {
-          // Find the active breakpoint
-          const activeIndex = results.findIndex(
-            (result) => result.matches
-          );
-          return activeIndex >= 0
-            ? this.breakpoints[activeIndex]
-            : this.breakpoints[3]; // Default to large
-        }),
-        distinctUntilChanged((a, b) => a.name === b.name)
+        map(() => this.getBreakpoints()),
+        distinctUntilChanged(
+          (a, b) => JSON.stringify(a) === JSON.stringify(b)
+        ),
+        switchMap((breakpoints) =>
+          combineLatest([
+            this.breakpointObserver.observe(
+              breakpoints.flatMap((bp) =>
+                bp.query ? [bp.query] : []
+              )
+            ),
+            this.containerWidth,
+          ]).pipe(
+            map(([media, width]) =>
+              this.matchBreakpoint(
+                breakpoints,
+                media.breakpoints,
+                width
+              )
+            )
+          )
+        ),
+        distinctUntilChanged()
       )
       .subscribe((breakpoint) => {
-        this.currentBreakpoint.next(breakpoint);
-
         // Update grid configuration for new breakpoint
         this.updateGridConfig({
           cols: breakpoint.cols,
@@ -429,247 +734,171 @@ export class DashboardLayoutManagerService {
           margin: breakpoint.margin,
         });
 
-        // Optimize layout for new breakpoint
+        // Switch to the widgets' layouts for the new breakpoint
         if (this.getDashboardConfig().grid.responsive) {
-          this.optimizeLayoutForBreakpoint();
+          // Keep layouts that predate per-breakpoint layouts
+          this.storeBreakpointLayouts(
+            this.getDashboardConfig().widgets.filter(
+              (widget) => !widget.config.layouts
+            )
+          );
+          this.applyBreakpointLayouts(breakpoint);
         }
+
+        this.currentBreakpoint.next(breakpoint);
       });
   }
 
   /**
-   * Find optimal position for new widget
+   * Pick the widest breakpoint matching the container width,
+   * or the viewport while the container is not measured
    */
-  private findOptimalPosition(layout: WidgetLayout): {
-    x: number;
-    y: number;
-  } {
-    const config = this.dashboardConfig.value;
-    const gridCols = config.grid.cols;
-
-    // Try to place at the top-left first
-    for (let y = 0; y < 1000; y++) {
-      for (let x = 0; x <= gridCols - layout.cols; x++) {
-        const testLayout = { ...layout, x, y };
-        if (!this.hasOverlap('', testLayout)) {
-          return { x, y };
-        }
-      }
-    }
+  private matchBreakpoint(
+    breakpoints: GridBreakpoint[],
+    media: Record<string, boolean>,
+    width: number | null
+  ): GridBreakpoint {
+    const matches = breakpoints.filter((bp) =>
+      width !== null && bp.minWidth !== undefined
+        ? width >= bp.minWidth
+        : !!bp.query && media[bp.query]
+    );
 
-    // Fallback to bottom of grid
-    const maxY = Math.max(
-      0,
-      ...config.widgets.map(
-        (w) => (w.config.layout.y || 0) + w.config.layout.rows
-      )
+    return (
+      matches[matches.length - 1] ??
+      (width !== null
+        ? breakpoints[0]
+        : breakpoints[breakpoints.length - 1])
     );
-    return { x: 0, y: maxY };
   }
 
   /**
-   * Check if layout has overlaps with existing widgets
+   * Find the top-most free position for a new widget
    */
-  private hasOverlap(
-    excludeInstanceId: string,
-    layout: WidgetLayout
-  ): boolean {
-    const config = this.dashboardConfig.value;
-    const widgets = config.widgets.filter(
-      (w) => w.id !== excludeInstanceId
+  private findPosition(layout: WidgetLayout): {
+    x: number;
+    y: number;
+  } {
+    return this.layoutEngine.findPosition(
+      this.getGridItems(),
+      layout,
+      this.getGridConfig().cols
     );
+  }
 
-    const x1 = layout.x || 0;
-    const y1 = layout.y || 0;
-    const x2 = x1 + layout.cols;
-    const y2 = y1 + layout.rows;
+  /**
+   * Widgets as layout engine items
+   */
+  private getGridItems(): GridItem[] {
+    return this.dashboardConfig.value.widgets.map((widget) => ({
+      id: widget.id,
+      layout: widget.config.layout,
+      locked: widget.config.locked,
+    }));
+  }
 
-    return widgets.some((widget) => {
-      const wLayout = widget.config.layout;
-      const wx1 = wLayout.x || 0;
-      const wy1 = wLayout.y || 0;
-      const wx2 = wx1 + wLayout.cols;
-      const wy2 = wy1 + wLayout.rows;
+  /**
+   * Apply layouts computed by the layout engine to the widgets
+   */
+  private applyGridItems(items: GridItem[]): void {
+    const layouts = new Map(
+      items.map((item) => [item.id, item.layout])
+    );
 
-      return !(x2 <= wx1 || x1 >= wx2 || y2 <= wy1 || y1 >= wy2);
+    this.dashboardConfig.value.widgets.forEach((widget) => {
+      widget.config.layout = {
+        ...(layouts.get(widget.id) ?? widget.config.layout),
+      };
     });
   }
 
   /**
-   * Resolve layout overlaps
+   * Layout engine options for the current grid
    */
-  private resolveOverlaps(
-    instanceId: string,
-    layout: WidgetLayout
-  ): WidgetLayout | null {
-    // Try to find alternative position nearby
-    const originalX = layout.x || 0;
-    const originalY = layout.y || 0;
-
-    // Search in expanding radius around original position
-    for (let radius = 1; radius <= 10; radius++) {
-      for (let dx = -radius; dx <= radius; dx++) {
-        for (let dy = -radius; dy <= radius; dy++) {
-          if (Math.abs(dx) === radius || Math.abs(dy) === radius) {
-            const testLayout = {
-              ...layout,
-              x: Math.max(0, originalX + dx),
-              y: Math.max(0, originalY + dy),
-            };
-
-            if (
-              this.validateLayout(testLayout) &&
-              !this.hasOverlap(instanceId, testLayout)
-            ) {
-              return testLayout;
-            }
-          }
-        }
-      }
-    }
-
-    return null;
+  private getLayoutOptions(): GridLayoutOptions {
+    const { cols, float } = this.getGridConfig();
+    return { cols, float };
   }
 
   /**
-   * Validate widget layout
+   * Get a widget's layout for a breakpoint, scaling the layout of the
+   * nearest arranged breakpoint if the user has not arranged this one
    */
-  private validateLayout(layout: WidgetLayout): boolean {
-    const config = this.dashboardConfig.value;
-    const gridCols = config.grid.cols;
-
-    // Check bounds
-    if ((layout.x || 0) < 0 || (layout.y || 0) < 0) {
-      return false;
-    }
-
-    if ((layout.x || 0) + layout.cols > gridCols) {
-      return false;
-    }
-
-    // Check minimum/maximum constraints
-    if (layout.minCols && layout.cols < layout.minCols) {
-      return false;
-    }
-
-    if (layout.maxCols && layout.cols > layout.maxCols) {
-      return false;
-    }
-
-    if (layout.minRows && layout.rows < layout.minRows) {
-      return false;
-    }
-
-    if (layout.maxRows && layout.rows > layout.maxRows) {
-      return false;
+  private getBreakpointLayout(
+    config: WidgetConfig,
+    breakpoint: GridBreakpoint
+  ): WidgetLayout {
+    const layouts = config.layouts ?? {};
+    if (layouts[breakpoint.name]) {
+      return { ...layouts[breakpoint.name] };
     }
 
-    return true;
+    // Prefer the wider breakpoint when two are equally near
+    const breakpoints = this.getBreakpoints();
+    const index = breakpoints.findIndex(
+      (bp) => bp.name === breakpoint.name
+    );
+    const source = breakpoints
+      .map((bp, bpIndex) => ({ bp, distance: bpIndex - index }))
+      .filter(({ bp }) => layouts[bp.name])
+      .sort(
+        (a, b) =>
+          Math.abs(a.distance) - Math.abs(b.distance) ||
+          b.distance - a.distance
+      )[0]?.bp;
+
+    return source
+      ? this.scaleLayout(
+          layouts[source.name],
+          source.cols,
+          breakpoint.cols
+        )
+      : { ...config.layout };
   }
 
   /**
-   * Optimize widget layout for breakpoint
+   * Scale a layout's width and column to another grid width
    */
-  private optimizeWidgetForBreakpoint(
+  private scaleLayout(
     layout: WidgetLayout,
-    breakpoint: GridBreakpoint
+    fromCols: number,
+    toCols: number
   ): WidgetLayout {
-    // Adjust columns to fit breakpoint
-    const maxCols = Math.min(layout.cols, breakpoint.cols);
-    const adjustedCols = Math.max(1, maxCols);
-
-    // Adjust position to fit grid
-    const adjustedX = Math.min(
-      layout.x || 0,
-      Math.max(0, breakpoint.cols - adjustedCols)
+    if (fromCols === toCols) {
+      return { ...layout };
+    }
+
+    const minCols = Math.min(layout.minCols ?? 1, toCols);
+    const maxCols = Math.min(layout.maxCols ?? toCols, toCols);
+    const cols = Math.min(
+      maxCols,
+      Math.max(minCols, Math.round((layout.cols * toCols) / fromCols))
+    );
+    const x = Math.min(
+      Math.round(((layout.x || 0) * toCols) / fromCols),
+      toCols - cols
     );
 
-    return {
-      ...layout,
-      cols: adjustedCols,
-      x: adjustedX,
-    };
+    return { ...layout, cols, x };
   }
 
   /**
-   * Compact widgets to remove gaps
+   * Keep widgets' current layouts as the user's arrangement
+   * for the active breakpoint
    */
-  private compactWidgets(
-    widgets: WidgetInstance[]
-  ): WidgetInstance[] {
-    const gridCols = this.dashboardConfig.value.grid.cols;
-    const occupiedPositions = new Set<string>();
-
-    return widgets.map((widget) => {
-      const layout = widget.config.layout;
-      const optimalPosition = this.findCompactPosition(
-        layout,
-        gridCols,
-        occupiedPositions
-      );
-
-      // Mark positions as occupied
-      for (
-        let x = optimalPosition.x;
-        x < optimalPosition.x + layout.cols;
-        x++
-      ) {
-        for (
-          let y = optimalPosition.y;
-          y < optimalPosition.y + layout.rows;
-          y++
-        ) {
-          occupiedPositions.add(`${x},${y}`);
-        }
-      }
+  private storeBreakpointLayouts(
+    widgets: WidgetInstance[] = this.dashboardConfig.value.widgets
+  ): void {
+    const { name } = this.currentBreakpoint.value;
 
-      return {
-        ...widget,
-        config: {
-          ...widget.config,
-          layout: { ...layout, ...optimalPosition },
-        },
+    widgets.forEach((widget) => {
+      widget.config.layouts = {
+        ...widget.config.layouts,
+        [name]: { ...widget.config.layout },
       };
     });
   }
 
-  /**
-   * Find compact position for widget
-   */
-  private findCompactPosition(
-    layout: WidgetLayout,
-    gridCols: number,
-    occupiedPositions: Set<string>
-  ): { x: number; y: number } {
-    for (let y = 0; y < 1000; y++) {
-      for (let x = 0; x <= gridCols - layout.cols; x++) {
-        let canPlace = true;
-
-        // Check if position is available
-        for (
-          let checkX = x;
-          checkX < x + layout.cols && canPlace;
-          checkX++
-        ) {
-          for (
-            let checkY = y;
-            checkY < y + layout.rows && canPlace;
-            checkY++
-          ) {
-            if (occupiedPositions.has(`${checkX},${checkY}`)) {
-              canPlace = false;
-            }
-          }
-        }
-
-        if (canPlace) {
-          return { x, y };
-        }
-      }
-    }
-
-    return { x: 0, y: 0 };
-  }
-
   /**
    * Record layout change
    */
@@ -691,14 +920,41 @@ export class DashboardLayoutManagerService {
   /**
    * Validate dashboard configuration
    */
-  private validateDashboardConfig(config: DashboardConfig): void {
-    if (
-      !config.id ||
-      !config.title ||
-      !config.grid ||
-      !Array.isArray(config.widgets)
-    ) {
-      throw new Error('Invalid dashboard configuration');
+  private validateDashboardDocument(
+    document: DashboardDocument
+  ): WidgetError[] {
+    const missing = (['id', 'title', 'grid'] as const).filter(
+      (key) => !document.dashboard?.[key]
+    );
+    if (missing.length > 0) {
+      return [
+        {
+          code: 'INVALID_DASHBOARD_CONFIG',
+          message: `Invalid dashboard configuration: missing ${missing
+            .map((key) => `dashboard.${key}`)
+            .join(', ')}`,
+          details: { missing },
+          timestamp: new Date(),
+          recoverable: true,
+        },
+      ];
     }
+
+    // Validate each widget config against its definition schema
+    return document.widgets.flatMap((widget, index) => {
+      const issues = this.configValidator.validateConfig(
+        widget?.type,
+        widget?.config,
+        `widgets[${index}].config`
+      );
+
+      return issues.length > 0
+        ? [
+            this.configValidator.createValidationError(issues, {
+              instanceId: widget?.id,
+            }),
+          ]
+        : [];
+    });
   }
 }
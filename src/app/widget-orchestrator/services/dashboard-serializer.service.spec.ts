@@ -0,0 +1,232 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  DashboardConfig,
+  WidgetDefinition,
+  WidgetState,
+} from '../interfaces';
+import {
+  DASHBOARD_DOCUMENT_VERSION,
+  DashboardSerializerService,
+  SerializedWidget,
+} from './dashboard-serializer.service';
+import { WidgetRegistryService } from './widget-registry.service';
+
+class NotesWidgetComponent {}
+
+const NOTES_DEFINITION: WidgetDefinition = {
+  type: 'notes',
+  name: 'Notes',
+  description: 'Notes widget',
+  component: NotesWidgetComponent,
+  category: 'general',
+  defaultConfig: {},
+  version: '3.0.0',
+  migrations: [
+    {
+      from: '1.0.0',
+      to: '2.0.0',
+      migrate: ({ text, ...config }) => ({ ...config, body: text }),
+    },
+    {
+      from: '2.0.0',
+      to: '3.0.0',
+      migrate: (config) => ({ ...config, format: 'plain' }),
+    },
+  ],
+};
+
+const GRID: DashboardConfig['grid'] = {
+  cols: 12,
+  rowHeight: 100,
+  margin: 8,
+  outerMargin: 8,
+  responsive: true,
+};
+
+const LAYOUT = { x: 0, y: 0, cols: 4, rows: 2 };
+
+function serialized(
+  version: string,
+  config: Record<string, any>
+): SerializedWidget {
+  return {
+    id: 'notes-1',
+    type: 'notes',
+    version,
+    config: {
+      type: 'notes',
+      title: 'Notes',
+      layout: LAYOUT,
+      ...config,
+    },
+  };
+}
+
+/** Widget config including widget-specific settings */
+function settingsOf(widget: SerializedWidget): Record<string, any> {
+  return widget.config;
+}
+
+describe('DashboardSerializerService', () => {
+  let serializer: DashboardSerializerService;
+
+  beforeEach(() => {
+    serializer = TestBed.inject(DashboardSerializerService);
+    TestBed.inject(WidgetRegistryService).register(NOTES_DEFINITION);
+  });
+
+  describe('serialize', () => {
+    it('keeps only type, version and config of each widget', () => {
+      const config = serialized('3.0.0', {}).config;
+      const document = serializer.serialize({
+        id: 'main',
+        title: 'Main',
+        grid: GRID,
+        widgets: [
+          {
+            id: 'notes-1',
+            definition: NOTES_DEFINITION,
+            config,
+            data: { cached: true },
+            state: WidgetState.LOADED,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        ],
+      });
+
+      expect(document.schemaVersion).toBe(DASHBOARD_DOCUMENT_VERSION);
+      expect(document.dashboard).toEqual({
+        id: 'main',
+        title: 'Main',
+        grid: GRID,
+      });
+      expect(document.widgets).toEqual([
+        { id: 'notes-1', type: 'notes', version: '3.0.0', config },
+      ]);
+      expect(document.trash).toEqual([]);
+    });
+  });
+
+  describe('deserialize', () => {
+    it('upgrades a legacy v0 layout through every document version', () => {
+      const document = serializer.deserialize({
+        timestamp: '2024-01-01T00:00:00.000Z',
+        config: {
+          id: 'main',
+          title: 'Main',
+          grid: GRID,
+          widgets: [
+            {
+              id: 'notes-1',
+              definition: { type: 'notes' },
+              config: serialized('1.0.0', { text: 'hello' }).config,
+              state: 'loaded',
+            },
+          ],
+        },
+      });
+
+      expect(document.schemaVersion).toBe(DASHBOARD_DOCUMENT_VERSION);
+      expect(document.savedAt).toBe('2024-01-01T00:00:00.000Z');
+      expect(document.dashboard.id).toBe('main');
+      expect(document.trash).toEqual([]);
+      expect(document.widgets.length).toBe(1);
+      expect(document.widgets[0].version).toBe('3.0.0');
+      expect(settingsOf(document.widgets[0])).toEqual({
+        type: 'notes',
+        title: 'Notes',
+        layout: LAYOUT,
+        layouts: { lg: LAYOUT },
+        body: 'hello',
+        format: 'plain',
+      });
+    });
+
+    it('keeps existing breakpoint layouts when upgrading v2 documents', () => {
+      const layouts = { sm: { ...LAYOUT, cols: 2 } };
+      const document = serializer.deserialize({
+        schemaVersion: 2,
+        savedAt: '2024-01-01T00:00:00.000Z',
+        dashboard: { id: 'main', title: 'Main', grid: GRID },
+        widgets: [serialized('3.0.0', { layouts })],
+        trash: [],
+      });
+
+      expect(document.widgets[0].config.layouts).toEqual(layouts);
+    });
+
+    it('migrates trashed widgets too', () => {
+      const document = serializer.deserialize({
+        schemaVersion: DASHBOARD_DOCUMENT_VERSION,
+        savedAt: '2024-01-01T00:00:00.000Z',
+        dashboard: { id: 'main', title: 'Main', grid: GRID },
+        widgets: [],
+        trash: [
+          {
+            ...serialized('2.0.0', {}),
+            removedAt: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      });
+
+      expect(document.trash[0].version).toBe('3.0.0');
+      expect(settingsOf(document.trash[0])['format']).toBe('plain');
+    });
+
+    it('rejects documents from newer versions', () => {
+      expect(() =>
+        serializer.deserialize({
+          schemaVersion: DASHBOARD_DOCUMENT_VERSION + 1,
+          widgets: [],
+        })
+      ).toThrowError(
+        `Unsupported dashboard document version ${
+          DASHBOARD_DOCUMENT_VERSION + 1
+        }`
+      );
+    });
+
+    it('rejects documents without widgets', () => {
+      expect(() => serializer.deserialize('layout')).toThrowError(
+        'Dashboard document must be an object'
+      );
+      expect(() =>
+        serializer.deserialize({
+          schemaVersion: DASHBOARD_DOCUMENT_VERSION,
+          widgets: {},
+        })
+      ).toThrowError('Dashboard document has no widgets list');
+    });
+  });
+
+  describe('migrateWidget', () => {
+    it('chains migrations and keeps the widget type', () => {
+      const widget = serializer.migrateWidget(
+        serialized('1.0.0', { text: 'hello', type: 'other' })
+      );
+
+      expect(widget.version).toBe('3.0.0');
+      expect(widget.config.type).toBe('notes');
+      expect(settingsOf(widget)['body']).toBe('hello');
+    });
+
+    it('stops where the migration path ends', () => {
+      spyOn(console, 'warn');
+
+      const widget = serializer.migrateWidget(
+        serialized('0.9.0', { text: 'hello' })
+      );
+
+      expect(widget.version).toBe('0.9.0');
+      expect(settingsOf(widget)['text']).toBe('hello');
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('leaves unknown widget types alone', () => {
+      const widget = { ...serialized('1.0.0', {}), type: 'missing' };
+
+      expect(serializer.migrateWidget(widget)).toBe(widget);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  DashboardConfig,
+  TrashedWidget,
+  WidgetConfig,
+} from '../interfaces';
+import { WidgetRegistryService } from './widget-registry.service';
+
+export const DASHBOARD_DOCUMENT_VERSION = 3;
+export const DEFAULT_WIDGET_VERSION = '1.0.0';
+
+/** Breakpoint that layouts without breakpoint information were made for */
+export const DEFAULT_LAYOUT_BREAKPOINT = 'lg';
+
+/**
+ * Persisted widget: type, definition version and config only
+ */
+export interface SerializedWidget {
+  id: string;
+  type: string;
+  version: string;
+  config: WidgetConfig;
+}
+
+/**
+ * Persisted dashboard document
+ */
+export interface DashboardDocument {
+  schemaVersion: number;
+  savedAt: string;
+  dashboard: Omit<DashboardConfig, 'widgets' | 'trash'>;
+  widgets: SerializedWidget[];
+  trash: TrashedWidget[];
+}
+
+/**
+ * Upgrades for the document format, keyed by the version they upgrade from
+ */
+const DOCUMENT_MIGRATIONS: Record<number, (document: any) => any> = {
+  // v0: raw DashboardConfig with full widget instances,
+  // optionally wrapped as { config, timestamp } by saveLayout
+  0: (legacy) => {
+    const { widgets = [], ...dashboard } = legacy.config ?? legacy;
+
+    return {
+      schemaVersion: 1,
+      savedAt: legacy.timestamp ?? new Date().toISOString(),
+      dashboard,
+      widgets: widgets.map((instance: any) => ({
+        id: instance.id,
+        type: instance.config?.type ?? instance.definition?.type,
+        version:
+          instance.definition?.version ?? DEFAULT_WIDGET_VERSION,
+        config: instance.config,
+      })),
+    };
+  },
+
+  // v1: no trash
+  1: (document) => ({ ...document, schemaVersion: 2, trash: [] }),
+
+  // v2: one layout per widget, arranged on the desktop grid
+  2: (document) => {
+    const withLayouts = (widget: any) =>
+      widget.config?.layout && !widget.config.layouts
+        ? {
+            ...widget,
+            config: {
+              ...widget.config,
+              layouts: {
+                [DEFAULT_LAYOUT_BREAKPOINT]: widget.config.layout,
+              },
+            },
+          }
+        : widget;
+
+    return {
+      ...document,
+      schemaVersion: 3,
+      widgets: document.widgets.map(withLayouts),
+      trash: document.trash.map(withLayouts),
+    };
+  },
+};
+
+/**
+ * Dashboard Serializer Service
+ * Converts dashboards to versioned documents and migrates saved documents
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DashboardSerializerService {
+  private readonly widgetRegistry = inject(WidgetRegistryService);
+
+  /**
+   * Serialize a dashboard into a document
+   */
+  serialize(config: DashboardConfig): DashboardDocument {
+    const { widgets, trash = [], ...dashboard } = config;
+
+    return {
+      schemaVersion: DASHBOARD_DOCUMENT_VERSION,
+      savedAt: new Date().toISOString(),
+      dashboard,
+      widgets: widgets.map((widget) => ({
+        id: widget.id,
+        type: widget.config.type,
+        version: widget.definition?.version ?? DEFAULT_WIDGET_VERSION,
+        config: widget.config,
+      })),
+      trash,
+    };
+  }
+
+  /**
+   * Upgrade a saved document and migrate its widget configs
+   */
+  deserialize(raw: unknown): DashboardDocument {
+    const document = this.upgradeDocument(raw);
+
+    return {
+      ...document,
+      widgets: document.widgets.map((widget) =>
+        this.migrateWidget(widget)
+      ),
+      trash: (document.trash ?? []).map((widget) =>
+        this.migrateWidget(widget)
+      ),
+    };
+  }
+
+  /**
+   * Migrate a widget config to its definition's current version
+   */
+  migrateWidget<T extends SerializedWidget>(widget: T): T {
+    const definition = this.widgetRegistry.getWidget(widget.type);
+    if (!definition) {
+      // Unknown types are reported by config validation
+      return widget;
+    }
+
+    const targetVersion =
+      definition.version ?? DEFAULT_WIDGET_VERSION;
+    const visited = new Set<string>();
+    let { version, config } = widget;
+
+    while (version !== targetVersion) {
+      const migration = definition.migrations?.find(
+        (m) => m.from === version
+      );
+
+      if (!migration || visited.has(version)) {
+        console.warn(
+          `No migration path for widget '${widget.type}' from version ${version} to ${targetVersion}`
+        );
+        break;
+      }
+
+      visited.add(version);
+      config = { ...migration.migrate(config), type: widget.type };
+      version = migration.to;
+    }
+
+    return { ...widget, version, config };
+  }
+
+  /**
+   * Run document format upgrades up to the current version
+   */
+  private upgradeDocument(raw: any): DashboardDocument {
+    if (!raw || typeof raw !== 'object') {
+      throw new Error('Dashboard document must be an object');
+    }
+
+    let document = raw;
+    let version =
+      typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+
+    if (version > DASHBOARD_DOCUMENT_VERSION) {
+      throw new Error(
+        `Unsupported dashboard document version ${version}`
+      );
+    }
+
+    while (version < DASHBOARD_DOCUMENT_VERSION) {
+      document = DOCUMENT_MIGRATIONS[version](document);
+      version++;
+    }
+
+    if (!Array.isArray(document.widgets)) {
+      throw new Error('Dashboard document has no widgets list');
+    }
+
+    return document;
+  }
+}
@@ -0,0 +1,212 @@
+import { provideHttpClient } from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { DashboardDocument } from './dashboard-serializer.service';
+import {
+  DashboardStorageAdapter,
+  LocalStorageDashboardAdapter,
+  REST_DASHBOARD_STORAGE_CONFIG,
+  RestDashboardAdapter,
+  SessionStorageDashboardAdapter,
+} from './dashboard-storage.service';
+
+function createDocument(title: string): DashboardDocument {
+  return {
+    schemaVersion: 3,
+    savedAt: '2024-01-01T00:00:00.000Z',
+    dashboard: {
+      id: 'main',
+      title,
+      grid: {
+        cols: 12,
+        rowHeight: 100,
+        margin: 8,
+        outerMargin: 8,
+        responsive: true,
+      },
+    },
+    widgets: [],
+    trash: [],
+  };
+}
+
+describe('Dashboard storage adapters', () => {
+  [
+    {
+      name: 'LocalStorageDashboardAdapter',
+      create: () => TestBed.inject(LocalStorageDashboardAdapter),
+      storage: () => localStorage,
+    },
+    {
+      name: 'SessionStorageDashboardAdapter',
+      create: () => TestBed.inject(SessionStorageDashboardAdapter),
+      storage: () => sessionStorage,
+    },
+  ].forEach(({ name, create, storage }) => {
+    describe(name, () => {
+      let storageAdapter: DashboardStorageAdapter;
+
+      beforeEach(() => {
+        storage().clear();
+        storageAdapter = create();
+      });
+
+      afterEach(() => {
+        storage().clear();
+      });
+
+      it('increments the revision on every save', async () => {
+        expect(
+          await storageAdapter.save('dash:a', createDocument('A'), 0)
+        ).toEqual({ status: 'saved', revision: 1 });
+        expect(
+          await storageAdapter.save('dash:a', createDocument('A'), 1)
+        ).toEqual({ status: 'saved', revision: 2 });
+        expect(await storageAdapter.load('dash:a')).toEqual({
+          revision: 2,
+          document: createDocument('A'),
+        });
+      });
+
+      it('rejects saves based on an outdated revision', async () => {
+        await storageAdapter.save('dash:a', createDocument('Theirs'));
+
+        expect(
+          await storageAdapter.save(
+            'dash:a',
+            createDocument('Ours'),
+            0
+          )
+        ).toEqual({
+          status: 'conflict',
+          current: {
+            revision: 1,
+            document: createDocument('Theirs'),
+          },
+        });
+      });
+
+      it('overwrites without an expected revision', async () => {
+        await storageAdapter.save('dash:a', createDocument('Theirs'));
+
+        expect(
+          await storageAdapter.save('dash:a', createDocument('Ours'))
+        ).toEqual({ status: 'saved', revision: 2 });
+      });
+
+      it('reads documents stored before revisions', async () => {
+        storage().setItem(
+          'dash:legacy',
+          JSON.stringify({ config: { title: 'Legacy' } })
+        );
+
+        expect(await storageAdapter.load('dash:legacy')).toEqual({
+          revision: 0,
+          document: { config: { title: 'Legacy' } } as any,
+        });
+        expect(await storageAdapter.list('dash:')).toEqual([
+          { key: 'dash:legacy', title: 'Legacy', revision: 0 },
+        ]);
+      });
+
+      it('lists and removes dashboards by prefix', async () => {
+        await storageAdapter.save('dash:a', createDocument('A'));
+        await storageAdapter.save('other:b', createDocument('B'));
+        await storageAdapter.remove('dash:a');
+
+        expect(await storageAdapter.load('dash:a')).toBeNull();
+        expect(await storageAdapter.list('other:')).toEqual([
+          { key: 'other:b', title: 'B', revision: 1 },
+        ]);
+      });
+    });
+  });
+
+  describe('RestDashboardAdapter', () => {
+    let adapter: RestDashboardAdapter;
+    let http: HttpTestingController;
+
+    beforeEach(() => {
+      TestBed.configureTestingModule({
+        providers: [
+          provideHttpClient(),
+          provideHttpClientTesting(),
+          {
+            provide: REST_DASHBOARD_STORAGE_CONFIG,
+            useValue: { baseUrl: '/api/users/me/dashboards/' },
+          },
+        ],
+      });
+      adapter = TestBed.inject(RestDashboardAdapter);
+      http = TestBed.inject(HttpTestingController);
+    });
+
+    afterEach(() => {
+      http.verify();
+    });
+
+    it('sends the expected revision with the document', async () => {
+      const saved = adapter.save('dash:a/b', createDocument('A'), 4);
+
+      const request = http.expectOne(
+        '/api/users/me/dashboards/dash%3Aa%2Fb'
+      );
+      expect(request.request.method).toBe('PUT');
+      expect(request.request.body).toEqual({
+        document: createDocument('A'),
+        expectedRevision: 4,
+      });
+      request.flush({ revision: 5 });
+
+      expect(await saved).toEqual({ status: 'saved', revision: 5 });
+    });
+
+    it('reports 409 responses as conflicts', async () => {
+      const current = { revision: 7, document: createDocument('B') };
+      const saved = adapter.save('dash:a', createDocument('A'), 4);
+
+      http
+        .expectOne('/api/users/me/dashboards/dash%3Aa')
+        .flush(current, { status: 409, statusText: 'Conflict' });
+
+      expect(await saved).toEqual({ status: 'conflict', current });
+    });
+
+    it('loads null for missing dashboards', async () => {
+      const loaded = adapter.load('dash:a');
+
+      http
+        .expectOne('/api/users/me/dashboards/dash%3Aa')
+        .flush(null, { status: 404, statusText: 'Not Found' });
+
+      expect(await loaded).toBeNull();
+    });
+
+    it('rethrows other errors', async () => {
+      const loaded = adapter.load('dash:a');
+
+      http
+        .expectOne('/api/users/me/dashboards/dash%3Aa')
+        .flush(null, { status: 500, statusText: 'Server Error' });
+
+      await expectAsync(loaded).toBeRejected();
+    });
+
+    it('lists dashboards by prefix', async () => {
+      const listed = adapter.list('dash:');
+
+      const request = http.expectOne(
+        '/api/users/me/dashboards?prefix=dash:'
+      );
+      expect(request.request.method).toBe('GET');
+      request.flush([{ key: 'dash:a', title: 'A', revision: 1 }]);
+
+      expect(await listed).toEqual([
+        { key: 'dash:a', title: 'A', revision: 1 },
+      ]);
+    });
+  });
+});
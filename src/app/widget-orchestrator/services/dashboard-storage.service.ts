@@ -0,0 +1,365 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { DashboardDocument } from './dashboard-serializer.service';
+
+/**
+ * Dashboard document with its storage revision
+ */
+export interface StoredDashboard {
+  /** Incremented on every save; 0 means never saved */
+  revision: number;
+  document: DashboardDocument;
+}
+
+/**
+ * Stored dashboard listing entry
+ */
+export interface DashboardSummary {
+  key: string;
+  title: string;
+  revision: number;
+}
+
+export type DashboardSaveResult =
+  | { status: 'saved'; revision: number }
+  | { status: 'conflict'; current: StoredDashboard };
+
+/**
+ * Storage backend for dashboard documents
+ */
+export interface DashboardStorageAdapter {
+  /** Load a dashboard, or null if none is stored */
+  load(key: string): Promise<StoredDashboard | null>;
+
+  /**
+   * Save a dashboard if the stored revision still matches
+   * expectedRevision; omit expectedRevision to overwrite
+   */
+  save(
+    key: string,
+    document: DashboardDocument,
+    expectedRevision?: number
+  ): Promise<DashboardSaveResult>;
+
+  /** Remove a stored dashboard */
+  remove(key: string): Promise<void>;
+
+  /** List stored dashboards whose key starts with prefix */
+  list(prefix: string): Promise<DashboardSummary[]>;
+}
+
+/**
+ * Summarize a stored dashboard, including documents in older formats
+ */
+export function summarizeDashboard(
+  key: string,
+  stored: StoredDashboard
+): DashboardSummary {
+  const document: any = stored.document;
+  const title =
+    document?.dashboard?.title ??
+    document?.config?.title ??
+    document?.title;
+
+  return {
+    key,
+    title: typeof title === 'string' ? title : key,
+    revision: stored.revision,
+  };
+}
+
+/**
+ * Web Storage Dashboard Adapter
+ * Shared implementation for localStorage and sessionStorage
+ */
+abstract class WebStorageDashboardAdapter
+  implements DashboardStorageAdapter
+{
+  protected abstract readonly storage: Storage;
+
+  async load(key: string): Promise<StoredDashboard | null> {
+    const stored = this.storage.getItem(key);
+    return stored ? this.toStoredDashboard(JSON.parse(stored)) : null;
+  }
+
+  async save(
+    key: string,
+    document: DashboardDocument,
+    expectedRevision?: number
+  ): Promise<DashboardSaveResult> {
+    const current = await this.load(key);
+    const currentRevision = current?.revision ?? 0;
+
+    if (
+      current &&
+      expectedRevision !== undefined &&
+      expectedRevision !== currentRevision
+    ) {
+      return { status: 'conflict', current };
+    }
+
+    const revision = currentRevision + 1;
+    this.storage.setItem(key, JSON.stringify({ revision, document }));
+    return { status: 'saved', revision };
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
+  async list(prefix: string): Promise<DashboardSummary[]> {
+    const keys = Array.from(
+      { length: this.storage.length },
+      (_, index) => this.storage.key(index)!
+    ).filter((key) => key.startsWith(prefix));
+    const summaries: DashboardSummary[] = [];
+
+    for (const key of keys) {
+      const stored = await this.load(key).catch(() => null);
+      if (stored) {
+        summaries.push(summarizeDashboard(key, stored));
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Read stored values, including documents saved before revisions
+   */
+  private toStoredDashboard(value: any): StoredDashboard {
+    return typeof value?.revision === 'number' && value.document
+      ? value
+      : { revision: 0, document: value };
+  }
+}
+
+/**
+ * Local Storage Dashboard Adapter
+ * Persists dashboards per browser, shared across tabs
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LocalStorageDashboardAdapter extends WebStorageDashboardAdapter {
+  protected readonly storage = localStorage;
+}
+
+/**
+ * Session Storage Dashboard Adapter
+ * Persists dashboards for the current tab only
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionStorageDashboardAdapter extends WebStorageDashboardAdapter {
+  protected readonly storage = sessionStorage;
+}
+
+/**
+ * IndexedDB Dashboard Adapter
+ * Persists dashboards in IndexedDB with atomic revision checks
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class IndexedDbDashboardAdapter
+  implements DashboardStorageAdapter
+{
+  private readonly databaseName = 'ngx-widget-dashboards';
+  private readonly storeName = 'dashboards';
+  private database?: Promise<IDBDatabase>;
+
+  async load(key: string): Promise<StoredDashboard | null> {
+    const store = await this.getStore('readonly');
+    const stored = await this.request<StoredDashboard | undefined>(
+      store.get(key)
+    );
+    return stored ?? null;
+  }
+
+  async save(
+    key: string,
+    document: DashboardDocument,
+    expectedRevision?: number
+  ): Promise<DashboardSaveResult> {
+    // Read and write in one transaction so concurrent tabs cannot interleave
+    const store = await this.getStore('readwrite');
+    const current = await this.request<StoredDashboard | undefined>(
+      store.get(key)
+    );
+    const currentRevision = current?.revision ?? 0;
+
+    if (
+      current &&
+      expectedRevision !== undefined &&
+      expectedRevision !== currentRevision
+    ) {
+      return { status: 'conflict', current };
+    }
+
+    const revision = currentRevision + 1;
+    await this.request(store.put({ revision, document }, key));
+    return { status: 'saved', revision };
+  }
+
+  async remove(key: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await this.request(store.delete(key));
+  }
+
+  async list(prefix: string): Promise<DashboardSummary[]> {
+    const store = await this.getStore('readonly');
+    const [keys, values] = await Promise.all([
+      this.request<IDBValidKey[]>(store.getAllKeys()),
+      this.request<StoredDashboard[]>(store.getAll()),
+    ]);
+
+    return keys.flatMap((key, index) =>
+      typeof key === 'string' && key.startsWith(prefix)
+        ? [summarizeDashboard(key, values[index])]
+        : []
+    );
+  }
+
+  /**
+   * Open the object store in a new transaction
+   */
+  private async getStore(
+    mode: IDBTransactionMode
+  ): Promise<IDBObjectStore> {
+    const database = await this.openDatabase();
+    return database
+      .transaction(this.storeName, mode)
+      .objectStore(this.storeName);
+  }
+
+  /**
+   * Open (and create on first use) the database
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(this.storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return this.database;
+  }
+
+  /**
+   * Wrap an IndexedDB request in a promise
+   */
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * REST dashboard storage configuration
+ */
+export interface RestDashboardStorageConfig {
+  /** Endpoint that dashboard keys are appended to */
+  baseUrl: string;
+}
+
+export const REST_DASHBOARD_STORAGE_CONFIG =
+  new InjectionToken<RestDashboardStorageConfig>(
+    'REST_DASHBOARD_STORAGE_CONFIG'
+  );
+
+/**
+ * REST Dashboard Adapter
+ * Persists dashboards on a server for per-user dashboards across devices
+ *
+ * GET    {baseUrl}/{key}  -> StoredDashboard, 404 if none
+ * PUT    {baseUrl}/{key}  <- { document, expectedRevision }
+ *                          -> { revision }, 409 with StoredDashboard on conflict
+ * DELETE {baseUrl}/{key}
+ * GET    {baseUrl}?prefix= -> DashboardSummary[]
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RestDashboardAdapter implements DashboardStorageAdapter {
+  private readonly http = inject(HttpClient);
+  private readonly config: RestDashboardStorageConfig = {
+    baseUrl: '/api/dashboards',
+    ...inject(REST_DASHBOARD_STORAGE_CONFIG, { optional: true }),
+  };
+
+  async load(key: string): Promise<StoredDashboard | null> {
+    try {
+      return await firstValueFrom(
+        this.http.get<StoredDashboard>(this.getUrl(key))
+      );
+    } catch (error) {
+      if (
+        error instanceof HttpErrorResponse &&
+        error.status === 404
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(
+    key: string,
+    document: DashboardDocument,
+    expectedRevision?: number
+  ): Promise<DashboardSaveResult> {
+    try {
+      const { revision } = await firstValueFrom(
+        this.http.put<{ revision: number }>(this.getUrl(key), {
+          document,
+          expectedRevision,
+        })
+      );
+      return { status: 'saved', revision };
+    } catch (error) {
+      if (
+        error instanceof HttpErrorResponse &&
+        error.status === 409
+      ) {
+        return { status: 'conflict', current: error.error };
+      }
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await firstValueFrom(this.http.delete(this.getUrl(key)));
+  }
+
+  async list(prefix: string): Promise<DashboardSummary[]> {
+    return firstValueFrom(
+      this.http.get<DashboardSummary[]>(this.getBaseUrl(), {
+        params: { prefix },
+      })
+    );
+  }
+
+  private getUrl(key: string): string {
+    return `${this.getBaseUrl()}/${encodeURIComponent(key)}`;
+  }
+
+  private getBaseUrl(): string {
+    return this.config.baseUrl.replace(/\/$/, '');
+  }
+}
+
+export const DASHBOARD_STORAGE_ADAPTER =
+  new InjectionToken<DashboardStorageAdapter>(
+    'DASHBOARD_STORAGE_ADAPTER',
+    {
+      providedIn: 'root',
+      factory: () => inject(LocalStorageDashboardAdapter),
+    }
+  );
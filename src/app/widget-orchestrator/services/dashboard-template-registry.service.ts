@@ -0,0 +1,231 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import {
+  DashboardConfig,
+  DashboardTemplate,
+  DashboardTemplateWidget,
+  WidgetConfig,
+} from '../interfaces';
+import {
+  DASHBOARD_DOCUMENT_VERSION,
+  DEFAULT_LAYOUT_BREAKPOINT,
+  DEFAULT_WIDGET_VERSION,
+  DashboardDocument,
+  SerializedWidget,
+} from './dashboard-serializer.service';
+import { WidgetConfigValidatorService } from './widget-config-validator.service';
+import { WidgetRegistryService } from './widget-registry.service';
+
+/**
+ * Template widget that cannot be created
+ */
+export interface DashboardTemplateIssue {
+  /** Index of the widget in the template */
+  index: number;
+
+  /** Widget type */
+  type: string;
+
+  /** Why the widget cannot be created */
+  message: string;
+}
+
+/**
+ * Dashboard document created from a template
+ */
+export interface DashboardTemplateResult {
+  document: DashboardDocument;
+
+  /** Widgets left out of the document */
+  issues: DashboardTemplateIssue[];
+}
+
+/**
+ * Dashboard Template Registry Service
+ * Manages registration and instantiation of dashboard templates
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DashboardTemplateRegistryService {
+  private readonly widgetRegistry = inject(WidgetRegistryService);
+  private readonly configValidator = inject(
+    WidgetConfigValidatorService
+  );
+
+  private readonly templates = new Map<string, DashboardTemplate>();
+  private readonly templateSubject = new BehaviorSubject<
+    DashboardTemplate[]
+  >([]);
+
+  /**
+   * Register a dashboard template
+   */
+  register(template: DashboardTemplate): void {
+    if (this.templates.has(template.id)) {
+      console.warn(
+        `Dashboard template '${template.id}' is already registered. Overwriting...`
+      );
+    }
+
+    this.validateTemplate(template);
+    this.templates.set(template.id, template);
+    this.notifyChange();
+  }
+
+  /**
+   * Register multiple templates
+   */
+  registerMany(templates: DashboardTemplate[]): void {
+    templates.forEach((template) => this.register(template));
+  }
+
+  /**
+   * Unregister a template
+   */
+  unregister(id: string): boolean {
+    const removed = this.templates.delete(id);
+    if (removed) {
+      this.notifyChange();
+    }
+    return removed;
+  }
+
+  /**
+   * Get template by id
+   */
+  getTemplate(id: string): DashboardTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  /**
+   * Get all registered templates
+   */
+  getAllTemplates(): DashboardTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  /**
+   * Get templates as observable
+   */
+  getTemplates$(): Observable<DashboardTemplate[]> {
+    return this.templateSubject.asObservable();
+  }
+
+  /**
+   * List template widgets that cannot be created with the
+   * currently registered widget types
+   */
+  checkTemplate(
+    template: DashboardTemplate
+  ): DashboardTemplateIssue[] {
+    return template.widgets.flatMap((widget, index) => {
+      const definition = this.widgetRegistry.getWidget(widget.type);
+      if (!definition) {
+        return [
+          {
+            index,
+            type: widget.type,
+            message: `Unknown widget type '${widget.type}'`,
+          },
+        ];
+      }
+
+      return this.configValidator
+        .validateConfig(widget.type, this.createConfig(widget))
+        .map((issue) => ({
+          index,
+          type: widget.type,
+          message: `${definition.name}: ${issue.path} - ${issue.message}`,
+        }));
+    });
+  }
+
+  /**
+   * Create a dashboard document from a template
+   * Widgets that cannot be created are left out and reported
+   */
+  instantiate(
+    template: DashboardTemplate,
+    base: DashboardConfig
+  ): DashboardTemplateResult {
+    const issues = this.checkTemplate(template);
+    const skipped = new Set(issues.map((issue) => issue.index));
+    const { widgets, trash, ...dashboard } = base;
+
+    return {
+      document: {
+        schemaVersion: DASHBOARD_DOCUMENT_VERSION,
+        savedAt: new Date().toISOString(),
+        dashboard: {
+          ...dashboard,
+          ...template.dashboard,
+          template: { id: template.id, version: template.version },
+        },
+        widgets: template.widgets.flatMap(
+          (widget, index): SerializedWidget[] =>
+            skipped.has(index)
+              ? []
+              : [
+                  {
+                    id: `${template.id}_${index}`,
+                    type: widget.type,
+                    version:
+                      this.widgetRegistry.getWidget(widget.type)
+                        ?.version ?? DEFAULT_WIDGET_VERSION,
+                    config: this.createConfig(widget),
+                  },
+                ]
+        ),
+        trash: [],
+      },
+      issues,
+    };
+  }
+
+  /**
+   * Merge a template widget over its definition's defaults
+   */
+  private createConfig(
+    widget: DashboardTemplateWidget
+  ): WidgetConfig {
+    const definition = this.widgetRegistry.getWidget(widget.type);
+
+    return {
+      ...definition?.defaultConfig,
+      layouts: {
+        [DEFAULT_LAYOUT_BREAKPOINT]: widget.config.layout,
+      },
+      ...widget.config,
+      type: widget.type,
+    } as WidgetConfig;
+  }
+
+  /**
+   * Validate template
+   */
+  private validateTemplate(template: DashboardTemplate): void {
+    if (!template.id) {
+      throw new Error('Dashboard template must have an id');
+    }
+
+    if (!template.name) {
+      throw new Error('Dashboard template must have a name');
+    }
+
+    if (!template.version) {
+      throw new Error('Dashboard template must have a version');
+    }
+
+    if (!Array.isArray(template.widgets)) {
+      throw new Error('Dashboard template must have a widgets list');
+    }
+  }
+
+  /**
+   * Notify subscribers of changes
+   */
+  private notifyChange(): void {
+    this.templateSubject.next(this.getAllTemplates());
+  }
+}
@@ -1,10 +1,44 @@
-import { Injectable, inject } from '@angular/core';
-import { Observable, of } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import {
+  HttpClient,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpParams,
+} from '@angular/common/http';
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import {
+  Observable,
+  combineLatest,
+  defer,
+  isObservable,
+  of,
+  throwError,
+  timer,
+} from 'rxjs';
+import {
+  catchError,
+  map,
+  retry,
+  startWith,
+  switchMap,
+  take,
+} from 'rxjs/operators';
 
-import { AssessmentTestService } from '../../assessment-test.service';
+import {
+  AssessmentTestService,
+  TestInfo,
+} from '../../assessment-test.service';
 import { WidgetDataProvider, WidgetDataSource } from '../interfaces';
 
+/**
+ * Combined assessment data with per-source failure reporting
+ */
+export interface CombinedAssessmentData extends TestInfo {
+  /** Error messages for sources that failed; their lists are empty */
+  errors: Partial<Record<keyof TestInfo, string>>;
+}
+
+type SourceResult<T> = { value: T; error?: string };
+
 /**
  * Assessment Data Provider
  * Provides assessment and subject data for widgets
@@ -16,29 +50,32 @@ export class AssessmentDataProvider implements WidgetDataProvider {
   readonly name = 'assessment';
 
   private readonly assessmentService = inject(AssessmentTestService);
+  private readonly defaultSubjects = ['ANGULAR', 'NESTJS', 'RXJS'];
 
   /**
    * Get data based on data source configuration
    */
   getData(config: WidgetDataSource): Observable<any> {
+    const subjects: string[] =
+      config.parameters?.['subjects'] || this.defaultSubjects;
+
     switch (config.source) {
       case 'userAssessments':
-        return this.assessmentService.fetchUsersAssessments();
+        return this.watchUserData(() =>
+          this.orEmpty(this.assessmentService.fetchUsersAssessments())
+        );
 
       case 'subjectLevels':
-        const subjects = config.parameters?.['subjects'] || [
-          'ANGULAR',
-          'NESTJS',
-          'RXJS',
-        ];
-        return this.assessmentService.fetchUserSubjectsEligibility(
-          subjects
+        return this.watchUserData(() =>
+          this.orEmpty(
+            this.assessmentService.fetchUserSubjectsEligibility(
+              subjects
+            )
+          )
         );
 
       case 'combinedData':
-        return this.getCombinedAssessmentData(
-          config.parameters?.['subjects']
-        );
+        return this.getCombinedAssessmentData(subjects);
 
       default:
         return of(null);
@@ -60,32 +97,84 @@ export class AssessmentDataProvider implements WidgetDataProvider {
 
   /**
    * Get combined assessment data
+   * Emits whenever either source changes; fails only if both sources fail
    */
   private getCombinedAssessmentData(
-    subjects?: string[]
-  ): Observable<any> {
-    const subjectList = subjects || ['ANGULAR', 'NESTJS', 'RXJS'];
-
-    return this.assessmentService.fetchUsersAssessments().pipe(
-      map((assessmentTests) => {
-        return this.assessmentService
-          .fetchUserSubjectsEligibility(subjectList)
-          .pipe(
-            map((subjectLevels) => ({
-              assessmentTests,
-              subjectLevels,
-            }))
+    subjects: string[]
+  ): Observable<CombinedAssessmentData> {
+    return combineLatest([
+      this.watchUserData(() =>
+        this.withSourceResult(
+          this.assessmentService.fetchUsersAssessments()
+        )
+      ),
+      this.watchUserData(() =>
+        this.withSourceResult(
+          this.assessmentService.fetchUserSubjectsEligibility(
+            subjects
+          )
+        )
+      ),
+    ]).pipe(
+      map(([assessmentTests, subjectLevels]) => {
+        if (assessmentTests.error && subjectLevels.error) {
+          throw new Error(
+            `Failed to fetch combined assessment data: ${assessmentTests.error}; ${subjectLevels.error}`
           );
-      }),
-      catchError((error) => {
-        console.error(
-          'Failed to fetch combined assessment data:',
-          error
-        );
-        return of({ assessmentTests: [], subjectLevels: [] });
+        }
+
+        const errors: CombinedAssessmentData['errors'] = {};
+        if (assessmentTests.error) {
+          errors.assessmentTests = assessmentTests.error;
+        }
+        if (subjectLevels.error) {
+          errors.subjectLevels = subjectLevels.error;
+        }
+
+        return {
+          assessmentTests: assessmentTests.value,
+          subjectLevels: subjectLevels.value,
+          errors,
+        };
       })
     );
   }
+
+  /**
+   * Refetch a source whenever the user's assessment data changes
+   */
+  private watchUserData<T>(
+    fetch: () => Observable<T>
+  ): Observable<T> {
+    return this.assessmentService.userDataChanged$.pipe(
+      startWith(undefined),
+      switchMap(() => fetch())
+    );
+  }
+
+  /**
+   * Fall back to an empty list when a single source fails
+   */
+  private orEmpty<T>(source$: Observable<T[]>): Observable<T[]> {
+    return source$.pipe(catchError(() => of([] as T[])));
+  }
+
+  /**
+   * Capture a source failure instead of erroring the joined stream
+   */
+  private withSourceResult<T>(
+    source$: Observable<T[]>
+  ): Observable<SourceResult<T[]>> {
+    return source$.pipe(
+      map((value) => ({ value })),
+      catchError((error) =>
+        of({
+          value: [] as T[],
+          error: error?.message ?? String(error),
+        })
+      )
+    );
+  }
 }
 
 /**
@@ -114,6 +203,36 @@ export class StaticDataProvider implements WidgetDataProvider {
   }
 }
 
+/**
+ * API data provider configuration
+ */
+export interface ApiDataProviderConfig {
+  /** Base URL prepended to relative data source URLs */
+  baseUrl?: string;
+
+  /** Headers sent with every request (e.g. auth headers) */
+  headers?:
+    | Record<string, string>
+    | (() =>
+        | Record<string, string>
+        | Observable<Record<string, string>>);
+
+  /** Send cookies with cross-origin requests */
+  withCredentials?: boolean;
+
+  /** Default retry settings for transient failures */
+  retry?: {
+    count: number;
+    delay: number;
+    maxDelay?: number;
+  };
+}
+
+export const API_DATA_PROVIDER_CONFIG =
+  new InjectionToken<ApiDataProviderConfig>(
+    'API_DATA_PROVIDER_CONFIG'
+  );
+
 /**
  * API Data Provider
  * Provides data from external APIs
@@ -124,17 +243,30 @@ export class StaticDataProvider implements WidgetDataProvider {
 export class ApiDataProvider implements WidgetDataProvider {
   readonly name = 'api';
 
+  private readonly http = inject(HttpClient);
+  private readonly config: ApiDataProviderConfig = {
+    withCredentials: false,
+    retry: { count: 3, delay: 1000, maxDelay: 30000 },
+    ...inject(API_DATA_PROVIDER_CONFIG, { optional: true }),
+  };
+
   /**
    * Get data from API
    */
   getData(config: WidgetDataSource): Observable<any> {
-    // This would implement actual HTTP calls
-    // For now, return mock data
-    console.warn(
-      'API data provider not yet implemented for:',
-      config.source
+    return defer(() => this.resolveHeaders()).pipe(
+      switchMap((headers) => this.request(config, headers)),
+      retry({
+        count: config.retry?.count ?? this.config.retry!.count,
+        delay: (error, retryCount) =>
+          this.isTransientError(error)
+            ? timer(this.getBackoffDelay(config, retryCount))
+            : throwError(() => error),
+      }),
+      catchError((error) =>
+        throwError(() => this.toFetchError(config, error))
+      )
     );
-    return of(null);
   }
 
   /**
@@ -143,4 +275,137 @@ export class ApiDataProvider implements WidgetDataProvider {
   supports(config: WidgetDataSource): boolean {
     return config.type === 'api';
   }
+
+  /**
+   * Perform the HTTP request for a data source
+   */
+  private request(
+    config: WidgetDataSource,
+    headers: Record<string, string>
+  ): Observable<any> {
+    const method = config.method ?? 'GET';
+    const url = this.resolveUrl(config.source);
+    const sendsBody = ['POST', 'PUT', 'PATCH'].includes(method);
+
+    return this.http.request(method, url, {
+      headers: new HttpHeaders({ ...headers, ...config.headers }),
+      params: sendsBody
+        ? undefined
+        : this.toHttpParams(config.parameters),
+      body: sendsBody ? config.parameters ?? {} : undefined,
+      withCredentials: this.config.withCredentials,
+    });
+  }
+
+  /**
+   * Resolve configured headers, which may be computed per request
+   */
+  private resolveHeaders(): Observable<Record<string, string>> {
+    const headers = this.config.headers;
+    if (!headers) {
+      return of({});
+    }
+
+    const resolved =
+      typeof headers === 'function' ? headers() : headers;
+    return isObservable(resolved)
+      ? resolved.pipe(take(1))
+      : of(resolved);
+  }
+
+  /**
+   * Resolve data source URL against the configured base URL
+   */
+  private resolveUrl(source: string): string {
+    if (!this.config.baseUrl || /^https?:\/\//.test(source)) {
+      return source;
+    }
+
+    return `${this.config.baseUrl.replace(
+      /\/$/,
+      ''
+    )}/${source.replace(/^\//, '')}`;
+  }
+
+  /**
+   * Convert data source parameters into query parameters
+   */
+  private toHttpParams(parameters?: Record<string, any>): HttpParams {
+    let params = new HttpParams();
+
+    Object.entries(parameters ?? {}).forEach(([key, value]) => {
+      if (value === undefined || value === null) {
+        return;
+      }
+
+      if (Array.isArray(value)) {
+        value.forEach((item) => {
+          params = params.append(key, String(item));
+        });
+      } else {
+        params = params.set(
+          key,
+          typeof value === 'object'
+            ? JSON.stringify(value)
+            : String(value)
+        );
+      }
+    });
+
+    return params;
+  }
+
+  /**
+   * Check whether an error is worth retrying
+   */
+  private isTransientError(error: unknown): boolean {
+    if (!(error instanceof HttpErrorResponse)) {
+      return false;
+    }
+
+    return (
+      error.status === 0 ||
+      error.status === 408 ||
+      error.status === 429 ||
+      error.status >= 500
+    );
+  }
+
+  /**
+   * Exponential backoff delay for a retry attempt
+   */
+  private getBackoffDelay(
+    config: WidgetDataSource,
+    retryCount: number
+  ): number {
+    const baseDelay = config.retry?.delay ?? this.config.retry!.delay;
+    const maxDelay =
+      config.retry?.maxDelay ??
+      this.config.retry!.maxDelay ??
+      Infinity;
+
+    return Math.min(baseDelay * 2 ** (retryCount - 1), maxDelay);
+  }
+
+  /**
+   * Convert a failed request into a descriptive error
+   */
+  private toFetchError(
+    config: WidgetDataSource,
+    error: unknown
+  ): Error {
+    if (error instanceof HttpErrorResponse) {
+      const status = error.statusText
+        ? `${error.status} (${error.statusText})`
+        : `${error.status}`;
+      return new Error(
+        `${config.method ?? 'GET'} ${
+          config.source
+        } failed with status ${status}`,
+        { cause: error }
+      );
+    }
+
+    return error instanceof Error ? error : new Error(String(error));
+  }
 }
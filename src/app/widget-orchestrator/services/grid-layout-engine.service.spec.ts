@@ -0,0 +1,280 @@
+import { WidgetLayout } from '../interfaces';
+import {
+  GridItem,
+  GridLayoutEngineService,
+} from './grid-layout-engine.service';
+
+function item(
+  id: string,
+  x: number,
+  y: number,
+  cols: number,
+  rows: number,
+  locked = false
+): GridItem {
+  return { id, layout: { x, y, cols, rows }, locked };
+}
+
+function positions(
+  items: GridItem[]
+): Record<string, [number, number]> {
+  return Object.fromEntries(
+    items.map(({ id, layout }) => [id, [layout.x!, layout.y!]])
+  );
+}
+
+describe('GridLayoutEngineService', () => {
+  let engine: GridLayoutEngineService;
+
+  beforeEach(() => {
+    engine = new GridLayoutEngineService();
+  });
+
+  describe('collides', () => {
+    it('detects shared cells', () => {
+      const a: WidgetLayout = { x: 0, y: 0, cols: 2, rows: 2 };
+
+      expect(
+        engine.collides(a, { x: 1, y: 1, cols: 2, rows: 2 })
+      ).toBe(true);
+      expect(
+        engine.collides(a, { x: 2, y: 0, cols: 2, rows: 2 })
+      ).toBe(false);
+      expect(
+        engine.collides(a, { x: 0, y: 2, cols: 2, rows: 2 })
+      ).toBe(false);
+    });
+  });
+
+  describe('fits', () => {
+    it('checks grid bounds and size constraints', () => {
+      expect(engine.fits({ x: 10, y: 0, cols: 2, rows: 1 }, 12)).toBe(
+        true
+      );
+      expect(engine.fits({ x: 11, y: 0, cols: 2, rows: 1 }, 12)).toBe(
+        false
+      );
+      expect(engine.fits({ x: -1, y: 0, cols: 2, rows: 1 }, 12)).toBe(
+        false
+      );
+      expect(
+        engine.fits({ x: 0, y: 0, cols: 2, rows: 1, minCols: 3 }, 12)
+      ).toBe(false);
+      expect(
+        engine.fits({ x: 0, y: 0, cols: 2, rows: 4, maxRows: 3 }, 12)
+      ).toBe(false);
+    });
+  });
+
+  describe('pack', () => {
+    it('pulls items up into empty rows', () => {
+      const items = engine.pack(
+        [
+          item('a', 0, 3, 4, 2),
+          item('b', 0, 8, 4, 1),
+          item('c', 4, 5, 4, 2),
+        ],
+        { cols: 12 }
+      );
+
+      expect(positions(items)).toEqual({
+        a: [0, 0],
+        b: [0, 2],
+        c: [4, 0],
+      });
+    });
+
+    it('keeps gaps on floating grids', () => {
+      const items = engine.pack(
+        [item('a', 0, 3, 4, 2), item('b', 6, 8, 4, 1)],
+        { cols: 12, float: true }
+      );
+
+      expect(positions(items)).toEqual({ a: [0, 3], b: [6, 8] });
+    });
+
+    it('pushes overlapping items down', () => {
+      const items = engine.pack(
+        [item('a', 0, 0, 4, 2), item('b', 2, 1, 4, 2)],
+        { cols: 12, float: true }
+      );
+
+      expect(positions(items)).toEqual({ a: [0, 0], b: [2, 2] });
+    });
+
+    it('stops items below locked items instead of passing them', () => {
+      const items = engine.pack(
+        [item('lock', 0, 2, 4, 1, true), item('a', 0, 6, 2, 1)],
+        { cols: 12 }
+      );
+
+      expect(positions(items)).toEqual({ lock: [0, 2], a: [0, 3] });
+    });
+
+    it('never moves locked or pinned items', () => {
+      const input = [
+        item('lock', 0, 4, 4, 1, true),
+        item('pin', 4, 5, 4, 1),
+        item('a', 2, 5, 4, 2),
+      ];
+      const items = engine.pack(input, { cols: 12, float: true }, [
+        'pin',
+      ]);
+
+      expect(items[0]).toBe(input[0]);
+      expect(items[1]).toBe(input[1]);
+      expect(positions(items)['a']).toEqual([2, 6]);
+    });
+
+    it('keeps items inside the grid', () => {
+      const items = engine.pack([item('a', 10, 0, 4, 1)], {
+        cols: 6,
+      });
+
+      expect(positions(items)).toEqual({ a: [2, 0] });
+    });
+
+    it('packs large dashboards without overlaps', () => {
+      const input = Array.from({ length: 200 }, (_, index) =>
+        item(
+          `w${index}`,
+          (index * 5) % 10,
+          (index * 7) % 40,
+          1 + (index % 3),
+          1 + (index % 4),
+          index % 50 === 0
+        )
+      );
+      const items = engine.pack(input, { cols: 12 });
+      const overlaps = items.filter((a, index) =>
+        items
+          .slice(index + 1)
+          .some((b) => engine.collides(a.layout, b.layout))
+      );
+
+      expect(overlaps).toEqual([]);
+      expect(engine.pack(items, { cols: 12 })).toEqual(items);
+    });
+  });
+
+  describe('moveItem', () => {
+    it('pushes colliding items down in a chain', () => {
+      const items = engine.moveItem(
+        [
+          item('a', 0, 0, 4, 2),
+          item('b', 4, 0, 4, 2),
+          item('c', 4, 2, 4, 2),
+        ],
+        'a',
+        { x: 4 },
+        { cols: 12, float: true }
+      );
+
+      expect(positions(items!)).toEqual({
+        a: [4, 0],
+        b: [4, 2],
+        c: [4, 4],
+      });
+    });
+
+    it('swaps places with the item above under gravity', () => {
+      const items = engine.moveItem(
+        [item('a', 0, 0, 4, 2), item('b', 0, 2, 4, 2)],
+        'b',
+        { y: 0 },
+        { cols: 12 }
+      );
+
+      expect(positions(items!)).toEqual({ a: [0, 2], b: [0, 0] });
+    });
+
+    it('lets the moved item rise under gravity', () => {
+      const items = engine.moveItem(
+        [item('a', 0, 0, 4, 2)],
+        'a',
+        { x: 6, y: 5 },
+        { cols: 12 }
+      );
+
+      expect(positions(items!)).toEqual({ a: [6, 0] });
+    });
+
+    it('pushes items down when resizing', () => {
+      const items = engine.moveItem(
+        [item('a', 0, 0, 4, 2), item('b', 0, 2, 4, 2)],
+        'a',
+        { rows: 3 },
+        { cols: 12 }
+      );
+
+      expect(items!.map(({ layout }) => layout)).toEqual([
+        { x: 0, y: 0, cols: 4, rows: 3 },
+        { x: 0, y: 3, cols: 4, rows: 2 },
+      ]);
+    });
+
+    it('routes pushed items around locked items', () => {
+      const items = engine.moveItem(
+        [
+          item('a', 0, 0, 4, 1),
+          item('b', 4, 0, 4, 1),
+          item('lock', 4, 1, 4, 1, true),
+        ],
+        'a',
+        { x: 4 },
+        { cols: 12, float: true }
+      );
+
+      expect(positions(items!)).toEqual({
+        a: [4, 0],
+        b: [4, 2],
+        lock: [4, 1],
+      });
+    });
+
+    it('rejects moves it cannot make', () => {
+      const items = [
+        item('a', 0, 0, 4, 1),
+        item('lock', 4, 0, 4, 1, true),
+      ];
+
+      expect(
+        engine.moveItem(items, 'a', { x: 10 }, { cols: 12 })
+      ).toBeNull();
+      expect(
+        engine.moveItem(items, 'a', { x: 2 }, { cols: 12 })
+      ).toBeNull();
+      expect(
+        engine.moveItem(items, 'lock', { x: 8 }, { cols: 12 })
+      ).toBeNull();
+      expect(
+        engine.moveItem(items, 'missing', { x: 0 }, { cols: 12 })
+      ).toBeNull();
+    });
+  });
+
+  describe('findPosition', () => {
+    it('returns the top-most, then left-most free position', () => {
+      const items = [item('a', 0, 0, 4, 2), item('b', 8, 0, 4, 1)];
+
+      expect(
+        engine.findPosition(items, { cols: 4, rows: 1 }, 12)
+      ).toEqual({ x: 4, y: 0 });
+      expect(
+        engine.findPosition(items, { cols: 6, rows: 1 }, 12)
+      ).toEqual({ x: 4, y: 1 });
+      expect(
+        engine.findPosition(items, { cols: 12, rows: 1 }, 12)
+      ).toEqual({ x: 0, y: 2 });
+    });
+
+    it('starts at the top-left of an empty grid', () => {
+      expect(
+        engine.findPosition([], { cols: 3, rows: 2 }, 12)
+      ).toEqual({
+        x: 0,
+        y: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { Injectable } from '@angular/core';
+import { WidgetLayout } from '../interfaces';
+
+/**
+ * Item positioned by the grid layout engine
+ */
+export interface GridItem {
+  id: string;
+  layout: WidgetLayout;
+
+  /** Never moved; other items flow around it */
+  locked?: boolean;
+}
+
+/**
+ * Grid layout engine options
+ */
+export interface GridLayoutOptions {
+  /** Grid width in columns */
+  cols: number;
+
+  /** Leave gaps instead of pulling items up */
+  float?: boolean;
+}
+
+/**
+ * Grid Layout Engine Service
+ * Packs dashboard widgets with vertical gravity, pushes colliding
+ * widgets down and keeps locked widgets in place
+ *
+ * Items are settled in row order against the lowest occupied row of
+ * each column, so packing costs O(n log n) plus the columns each item
+ * spans. Floating grids check collisions per item instead.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GridLayoutEngineService {
+  /**
+   * Check if two layouts share a grid cell
+   */
+  collides(a: WidgetLayout, b: WidgetLayout): boolean {
+    const ax = a.x || 0;
+    const ay = a.y || 0;
+    const bx = b.x || 0;
+    const by = b.y || 0;
+
+    return !(
+      ax + a.cols <= bx ||
+      ax >= bx + b.cols ||
+      ay + a.rows <= by ||
+      ay >= by + b.rows
+    );
+  }
+
+  /**
+   * Check if a layout lies within the grid and its size constraints
+   */
+  fits(layout: WidgetLayout, cols: number): boolean {
+    const x = layout.x || 0;
+    const y = layout.y || 0;
+
+    return (
+      x >= 0 &&
+      y >= 0 &&
+      layout.cols >= 1 &&
+      layout.rows >= 1 &&
+      x + layout.cols <= cols &&
+      !(layout.minCols && layout.cols < layout.minCols) &&
+      !(layout.maxCols && layout.cols > layout.maxCols) &&
+      !(layout.minRows && layout.rows < layout.minRows) &&
+      !(layout.maxRows && layout.rows > layout.maxRows)
+    );
+  }
+
+  /**
+   * Settle items so none overlap: colliding items are pushed down
+   * and, unless floating, every item is pulled up as far as it goes
+   * Pinned items keep their position like locked ones
+   */
+  pack(
+    items: GridItem[],
+    options: GridLayoutOptions,
+    pinned: string[] = []
+  ): GridItem[] {
+    const pinnedIds = new Set(pinned);
+    const fixed = items
+      .filter((item) => item.locked || pinnedIds.has(item.id))
+      .map((item) => item.layout);
+    const movable = items
+      .filter((item) => !item.locked && !pinnedIds.has(item.id))
+      .sort((a, b) => this.compareLayouts(a.layout, b.layout));
+
+    // Lowest occupied row per column, for gravity
+    const skyline = new Array<number>(options.cols).fill(0);
+    const placed = [...fixed];
+    const layouts = new Map<GridItem, WidgetLayout>();
+
+    movable.forEach((item) => {
+      const cols = Math.min(item.layout.cols, options.cols);
+      const x = Math.min(
+        Math.max(item.layout.x || 0, 0),
+        options.cols - cols
+      );
+      const start = Math.max(item.layout.y || 0, 0);
+      const layout = { ...item.layout, cols, x, y: start };
+
+      if (!options.float) {
+        // Rise until the item meets another one or the top edge
+        layout.y = Math.max(
+          ...skyline.slice(x, x + cols),
+          ...fixed
+            .filter(
+              (other) =>
+                this.overlapsColumns(layout, other) &&
+                this.bottom(other) <= start
+            )
+            .map((other) => this.bottom(other))
+        );
+      }
+
+      // Settled items cannot be in the way of a rising item
+      this.pushBelow(layout, options.float ? placed : fixed);
+
+      for (let col = x; col < x + cols; col++) {
+        skyline[col] = Math.max(skyline[col], this.bottom(layout));
+      }
+      placed.push(layout);
+      layouts.set(item, layout);
+    });
+
+    return items.map((item) => {
+      const layout = layouts.get(item);
+      return layout ? { ...item, layout } : item;
+    });
+  }
+
+  /**
+   * Move or resize an item, pushing colliding items down
+   * Returns null if the item is locked, the layout does not fit the
+   * grid or it would cover a locked item
+   */
+  moveItem(
+    items: GridItem[],
+    id: string,
+    changes: Partial<WidgetLayout>,
+    options: GridLayoutOptions
+  ): GridItem[] | null {
+    const item = items.find((other) => other.id === id);
+    if (!item || item.locked) {
+      return null;
+    }
+
+    const layout = { ...item.layout, ...changes };
+    if (
+      !this.fits(layout, options.cols) ||
+      items.some(
+        (other) => other.locked && this.collides(layout, other.layout)
+      )
+    ) {
+      return null;
+    }
+
+    // Clear the target area first, then let the moved item settle too
+    const moved = this.pack(
+      items.map((other) =>
+        other === item ? { ...item, layout } : other
+      ),
+      options,
+      [id]
+    );
+
+    return options.float ? moved : this.pack(moved, options);
+  }
+
+  /**
+   * Find the top-most, then left-most free position for a layout
+   */
+  findPosition(
+    items: GridItem[],
+    layout: WidgetLayout,
+    cols: number
+  ): { x: number; y: number } {
+    const width = Math.min(layout.cols, cols);
+    const layouts = items.map((item) => item.layout);
+
+    // A free spot that cannot move up or left touches the grid edge
+    // or another item, so only those rows and columns are candidates
+    const rows = this.unique([
+      0,
+      ...layouts.map((other) => this.bottom(other)),
+    ]);
+    const columns = this.unique([
+      0,
+      ...layouts.map((other) => (other.x || 0) + other.cols),
+    ]).filter((x) => x + width <= cols);
+
+    for (const y of rows) {
+      for (const x of columns) {
+        const candidate = { ...layout, cols: width, x, y };
+        if (
+          !layouts.some((other) => this.collides(candidate, other))
+        ) {
+          return { x, y };
+        }
+      }
+    }
+
+    return { x: 0, y: rows[rows.length - 1] };
+  }
+
+  /**
+   * Move a layout down until it clears all obstacles
+   */
+  private pushBelow(
+    layout: WidgetLayout,
+    obstacles: WidgetLayout[]
+  ): void {
+    let blockers = obstacles.filter((other) =>
+      this.collides(layout, other)
+    );
+
+    while (blockers.length) {
+      layout.y = Math.max(
+        ...blockers.map((other) => this.bottom(other))
+      );
+      blockers = obstacles.filter((other) =>
+        this.collides(layout, other)
+      );
+    }
+  }
+
+  /**
+   * Check if two layouts share a grid column
+   */
+  private overlapsColumns(a: WidgetLayout, b: WidgetLayout): boolean {
+    const ax = a.x || 0;
+    const bx = b.x || 0;
+    return ax < bx + b.cols && bx < ax + a.cols;
+  }
+
+  /**
+   * Row below a layout
+   */
+  private bottom(layout: WidgetLayout): number {
+    return (layout.y || 0) + layout.rows;
+  }
+
+  /**
+   * Order layouts by row, then column
+   */
+  private compareLayouts(a: WidgetLayout, b: WidgetLayout): number {
+    return (a.y || 0) - (b.y || 0) || (a.x || 0) - (b.x || 0);
+  }
+
+  /**
+   * Sorted distinct numbers
+   */
+  private unique(values: number[]): number[] {
+    return Array.from(new Set(values)).sort((a, b) => a - b);
+  }
+}
@@ -1,4 +1,15 @@
+export * from './dashboard-history.service';
 export * from './dashboard-layout-manager.service';
+export * from './dashboard-serializer.service';
+export * from './dashboard-storage.service';
+export * from './dashboard-template-registry.service';
+export * from './grid-layout-engine.service';
 export * from './widget-communication.service';
+export * from './widget-config-validator.service';
+export * from './widget-data-cache.service';
+export * from './widget-error-boundary.service';
+export * from './widget-lifecycle.service';
 export * from './widget-orchestrator.service';
 export * from './widget-registry.service';
+export * from './widget-sandbox.service';
+export * from './widget-transform-registry.service';
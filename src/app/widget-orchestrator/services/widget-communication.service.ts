@@ -238,7 +238,8 @@ export class WidgetCommunicationService
   async request<T>(
     targetId: string,
     requestType: string,
-    payload?: any
+    payload?: any,
+    source = 'system'
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       const requestId = this.generateRequestId();
@@ -270,7 +271,7 @@ export class WidgetCommunicationService
       // Send request
       this.send(targetId, {
         type: requestType,
-        source: 'system',
+        source,
         target: targetId,
         payload: { requestId, ...payload },
         timestamp: new Date(),
@@ -285,7 +286,8 @@ export class WidgetCommunicationService
   respond(
     requestEvent: WidgetEvent,
     responseData?: any,
-    error?: string
+    error?: string,
+    source = 'system'
   ): void {
     if (!requestEvent.payload?.requestId) {
       console.warn('Cannot respond to event without requestId');
@@ -294,7 +296,7 @@ export class WidgetCommunicationService
 
     this.send(requestEvent.source, {
       type: `${requestEvent.type}_RESPONSE`,
-      source: 'system',
+      source,
       target: requestEvent.source,
       payload: {
         requestId: requestEvent.payload.requestId,
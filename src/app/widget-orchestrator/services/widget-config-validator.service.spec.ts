@@ -0,0 +1,150 @@
+import { TestBed } from '@angular/core/testing';
+import { WidgetConfigSchema } from '../interfaces';
+import { WidgetConfigValidatorService } from './widget-config-validator.service';
+import { WidgetRegistryService } from './widget-registry.service';
+
+class ChartWidgetComponent {}
+
+const VALID_CONFIG = {
+  type: 'chart',
+  title: 'Scores',
+  layout: { cols: 2, rows: 2 },
+  chartType: 'bar',
+};
+
+describe('WidgetConfigValidatorService', () => {
+  let validator: WidgetConfigValidatorService;
+
+  beforeEach(() => {
+    validator = TestBed.inject(WidgetConfigValidatorService);
+    TestBed.inject(WidgetRegistryService).register({
+      type: 'chart',
+      name: 'Chart',
+      description: 'Chart widget',
+      component: ChartWidgetComponent,
+      category: 'charts',
+      defaultConfig: {},
+      configSchema: {
+        type: 'object',
+        required: ['chartType'],
+        properties: {
+          chartType: { type: 'string', enum: ['bar', 'line'] },
+          series: {
+            type: 'array',
+            items: { type: 'string', minLength: 1 },
+          },
+        },
+      },
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('accepts a valid config', () => {
+      expect(validator.validateConfig('chart', VALID_CONFIG)).toEqual(
+        []
+      );
+    });
+
+    it('checks the base schema and the widget schema together', () => {
+      expect(
+        validator.validateConfig('chart', {
+          ...VALID_CONFIG,
+          title: '',
+          layout: { cols: 0, rows: 1.5 },
+          chartType: 'pie',
+        })
+      ).toEqual([
+        { path: 'layout.cols', message: 'Must be at least 1' },
+        {
+          path: 'layout.rows',
+          message: 'Expected integer but got number',
+        },
+        { path: 'title', message: 'Must be at least 1 characters' },
+        { path: 'chartType', message: 'Must be one of: bar, line' },
+      ]);
+    });
+
+    it('reports missing required properties', () => {
+      const { chartType: _chartType, ...config } = VALID_CONFIG;
+
+      expect(validator.validateConfig('chart', config)).toEqual([
+        { path: 'chartType', message: 'Is required' },
+      ]);
+    });
+
+    it('reports array items by index', () => {
+      expect(
+        validator.validateConfig(
+          'chart',
+          { ...VALID_CONFIG, series: ['math', ''] },
+          'widgets[0]'
+        )
+      ).toEqual([
+        {
+          path: 'widgets[0].series[1]',
+          message: 'Must be at least 1 characters',
+        },
+      ]);
+    });
+
+    it('reports unknown widget types', () => {
+      expect(validator.validateConfig('missing', {})).toEqual([
+        { path: 'type', message: "Unknown widget type 'missing'" },
+      ]);
+    });
+  });
+
+  describe('validate', () => {
+    it('stops at a type mismatch', () => {
+      const schema: WidgetConfigSchema = {
+        type: 'object',
+        required: ['name'],
+      };
+
+      expect(validator.validate([], schema)).toEqual([
+        { path: '(root)', message: 'Expected object but got array' },
+      ]);
+      expect(validator.validate(null, schema)).toEqual([
+        { path: '(root)', message: 'Expected object but got null' },
+      ]);
+    });
+
+    it('checks string patterns and number ranges', () => {
+      expect(
+        validator.validate('abc', {
+          type: 'string',
+          pattern: '^\\d+$',
+        })
+      ).toEqual([
+        { path: '(root)', message: 'Must match pattern ^\\d+$' },
+      ]);
+      expect(
+        validator.validate(11, { type: 'number', maximum: 10 })
+      ).toEqual([{ path: '(root)', message: 'Must be at most 10' }]);
+      expect(
+        validator.validate(Infinity, { type: 'number' })
+      ).toEqual([
+        { path: '(root)', message: 'Expected number but got number' },
+      ]);
+    });
+  });
+
+  describe('createValidationError', () => {
+    it('summarizes the first issue', () => {
+      const error = validator.createValidationError(
+        [
+          { path: 'title', message: 'Is required' },
+          { path: 'layout', message: 'Is required' },
+        ],
+        { type: 'chart' }
+      );
+
+      expect(error.code).toBe('CONFIG_VALIDATION_FAILED');
+      expect(error.message).toBe(
+        "Invalid widget configuration at 'title': Is required (and 1 more)"
+      );
+      expect(error.details.type).toBe('chart');
+      expect(error.details.issues.length).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { Injectable, inject } from '@angular/core';
+import { WidgetConfigSchema, WidgetError } from '../interfaces';
+import { WidgetRegistryService } from './widget-registry.service';
+
+export interface ConfigValidationIssue {
+  /** Dot/bracket path to the invalid value, e.g. 'layout.cols' */
+  path: string;
+
+  /** What is wrong with the value */
+  message: string;
+}
+
+/**
+ * Widget Config Validator Service
+ * Validates widget configuration against definition schemas
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WidgetConfigValidatorService {
+  private readonly widgetRegistry = inject(WidgetRegistryService);
+
+  /**
+   * Validate a widget configuration against its type's schema
+   */
+  validateConfig(
+    type: string,
+    config: unknown,
+    path = ''
+  ): ConfigValidationIssue[] {
+    const schema = this.widgetRegistry.getConfigSchema(type);
+    if (!schema) {
+      return [
+        {
+          path: this.joinPath(path, 'type'),
+          message: `Unknown widget type '${type}'`,
+        },
+      ];
+    }
+
+    return this.validate(config, schema, path);
+  }
+
+  /**
+   * Validate a value against a schema
+   */
+  validate(
+    value: unknown,
+    schema: WidgetConfigSchema,
+    path = ''
+  ): ConfigValidationIssue[] {
+    const typeIssue = this.checkType(value, schema, path);
+    if (typeIssue) {
+      return [typeIssue];
+    }
+
+    const issues: ConfigValidationIssue[] = [];
+    const issue = (message: string) =>
+      issues.push({ path: path || '(root)', message });
+
+    if (schema.enum && !schema.enum.includes(value as any)) {
+      issue(`Must be one of: ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+      if (
+        schema.minLength !== undefined &&
+        value.length < schema.minLength
+      ) {
+        issue(`Must be at least ${schema.minLength} characters`);
+      }
+      if (
+        schema.maxLength !== undefined &&
+        value.length > schema.maxLength
+      ) {
+        issue(`Must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        issue(`Must match pattern ${schema.pattern}`);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issue(`Must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issue(`Must be at most ${schema.maximum}`);
+      }
+    }
+
+    if (schema.type === 'object' && this.isPlainObject(value)) {
+      schema.required?.forEach((key) => {
+        if (value[key] === undefined || value[key] === null) {
+          issues.push({
+            path: this.joinPath(path, key),
+            message: 'Is required',
+          });
+        }
+      });
+
+      Object.entries(schema.properties ?? {}).forEach(
+        ([key, propertySchema]) => {
+          if (value[key] !== undefined && value[key] !== null) {
+            issues.push(
+              ...this.validate(
+                value[key],
+                propertySchema,
+                this.joinPath(path, key)
+              )
+            );
+          }
+        }
+      );
+    }
+
+    if (
+      schema.type === 'array' &&
+      Array.isArray(value) &&
+      schema.items
+    ) {
+      value.forEach((item, index) => {
+        issues.push(
+          ...this.validate(item, schema.items!, `${path}[${index}]`)
+        );
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Build a widget error from validation issues
+   */
+  createValidationError(
+    issues: ConfigValidationIssue[],
+    details: Record<string, any> = {}
+  ): WidgetError {
+    const [first] = issues;
+    const more =
+      issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+
+    return {
+      code: 'CONFIG_VALIDATION_FAILED',
+      message: `Invalid widget configuration at '${first.path}': ${first.message}${more}`,
+      details: { ...details, issues },
+      timestamp: new Date(),
+      recoverable: true,
+    };
+  }
+
+  /**
+   * Check the value's JSON type
+   */
+  private checkType(
+    value: unknown,
+    schema: WidgetConfigSchema,
+    path: string
+  ): ConfigValidationIssue | null {
+    let valid: boolean;
+
+    switch (schema.type) {
+      case 'object':
+        valid = this.isPlainObject(value);
+        break;
+      case 'array':
+        valid = Array.isArray(value);
+        break;
+      case 'integer':
+        valid = Number.isInteger(value);
+        break;
+      case 'number':
+        valid = typeof value === 'number' && Number.isFinite(value);
+        break;
+      default:
+        valid = typeof value === schema.type;
+    }
+
+    return valid
+      ? null
+      : {
+          path: path || '(root)',
+          message: `Expected ${
+            schema.type
+          } but got ${this.describeType(value)}`,
+        };
+  }
+
+  /**
+   * Describe a value's type for messages
+   */
+  private describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+
+  private joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+
+  private isPlainObject(
+    value: unknown
+  ): value is Record<string, any> {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value)
+    );
+  }
+}
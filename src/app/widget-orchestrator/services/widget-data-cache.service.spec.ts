@@ -0,0 +1,184 @@
+import { Observable, Subject, defer, of } from 'rxjs';
+import { WidgetDataCacheService } from './widget-data-cache.service';
+
+function counted<T>(source$: Observable<T>): {
+  source$: Observable<T>;
+  subscriptions: () => number;
+} {
+  let count = 0;
+  return {
+    source$: defer(() => {
+      count++;
+      return source$;
+    }),
+    subscriptions: () => count,
+  };
+}
+
+describe('WidgetDataCacheService', () => {
+  let cache: WidgetDataCacheService;
+
+  beforeEach(() => {
+    cache = new WidgetDataCacheService();
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2025, 0, 1));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  describe('createKey', () => {
+    it('ignores parameter order', () => {
+      expect(
+        cache.createKey('api', {
+          type: 'api',
+          source: '/users',
+          parameters: { page: 1, size: 10 },
+        })
+      ).toBe(
+        cache.createKey('api', {
+          type: 'api',
+          source: '/users',
+          parameters: { size: 10, page: 1 },
+        })
+      );
+    });
+  });
+
+  describe('get', () => {
+    it('serves completed sources from the cache until the ttl expires', () => {
+      const { source$, subscriptions } = counted(of('fresh'));
+      const values: string[] = [];
+
+      cache
+        .get('key', source$, { enabled: true, ttl: 1000 })
+        .subscribe((value) => values.push(value));
+      cache
+        .get('key', source$, { enabled: true, ttl: 1000 })
+        .subscribe((value) => values.push(value));
+      expect(subscriptions()).toBe(1);
+
+      jasmine.clock().tick(1001);
+      cache
+        .get('key', source$, { enabled: true, ttl: 1000 })
+        .subscribe((value) => values.push(value));
+
+      expect(subscriptions()).toBe(2);
+      expect(values).toEqual(['fresh', 'fresh', 'fresh']);
+    });
+
+    it('shares one in-flight request between subscribers', () => {
+      const response = new Subject<string>();
+      const { source$, subscriptions } = counted(response);
+      const values: string[] = [];
+
+      cache
+        .get('key', source$, { enabled: true })
+        .subscribe((value) => values.push(`a:${value}`));
+      cache
+        .get('key', source$, { enabled: true })
+        .subscribe((value) => values.push(`b:${value}`));
+      response.next('data');
+      response.complete();
+
+      expect(subscriptions()).toBe(1);
+      expect(values).toEqual(['a:data', 'b:data']);
+    });
+
+    it('keeps delivering updates from live sources', () => {
+      const updates = new Subject<number>();
+      const values: number[] = [];
+
+      cache
+        .get('key', updates, { enabled: true })
+        .subscribe((value) => values.push(value));
+      updates.next(1);
+
+      cache
+        .get('key', updates, { enabled: true })
+        .subscribe((value) => values.push(value * 10));
+      updates.next(2);
+
+      expect(values).toEqual([1, 10, 2, 20]);
+    });
+
+    it('reconnects to live sources after the last subscriber leaves', () => {
+      const updates = new Subject<number>();
+      const { source$, subscriptions } = counted(updates);
+      const values: number[] = [];
+
+      const first = cache
+        .get('key', source$, { enabled: true })
+        .subscribe();
+      updates.next(1);
+      first.unsubscribe();
+
+      cache
+        .get('key', source$, { enabled: true })
+        .subscribe((value) => values.push(value));
+      updates.next(2);
+
+      expect(subscriptions()).toBe(2);
+      expect(values).toEqual([1, 2]);
+    });
+
+    it('serves stale values while revalidating', () => {
+      const response = new Subject<string>();
+      const values: string[] = [];
+
+      cache
+        .get('key', of('old'), { enabled: true, ttl: 1000 })
+        .subscribe();
+      jasmine.clock().tick(1001);
+
+      cache
+        .get('key', response, {
+          enabled: true,
+          ttl: 1000,
+          staleWhileRevalidate: true,
+        })
+        .subscribe((value) => values.push(value));
+      response.next('new');
+
+      expect(values).toEqual(['old', 'new']);
+      expect(cache.peek('key')?.value).toBe('new');
+    });
+  });
+
+  describe('invalidate', () => {
+    it('drops the entry and notifies listeners', () => {
+      const invalidated: string[] = [];
+      cache
+        .getInvalidations$('key')
+        .subscribe((key) => invalidated.push(key));
+      cache.get('key', of(1), { enabled: true }).subscribe();
+
+      expect(cache.invalidate('key')).toBe(true);
+      expect(cache.peek('key')).toBeUndefined();
+      expect(cache.invalidate('key')).toBe(false);
+      expect(invalidated).toEqual(['key', 'key']);
+    });
+
+    it('refetches after invalidation', () => {
+      const { source$, subscriptions } = counted(of(1));
+
+      cache.get('key', source$, { enabled: true }).subscribe();
+      cache.invalidate('key');
+      cache.get('key', source$, { enabled: true }).subscribe();
+
+      expect(subscriptions()).toBe(2);
+    });
+
+    it('invalidates matching keys', () => {
+      cache.get('api|a', of(1), { enabled: true }).subscribe();
+      cache.get('api|b', of(2), { enabled: true }).subscribe();
+      cache.get('static|c', of(3), { enabled: true }).subscribe();
+
+      expect(
+        cache.invalidateMatching((key) => key.startsWith('api|'))
+      ).toBe(2);
+      expect(cache.getStatistics().keys).toEqual(['static|c']);
+    });
+  });
+});
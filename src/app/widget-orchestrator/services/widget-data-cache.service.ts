@@ -0,0 +1,202 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subject, concat, of } from 'rxjs';
+import { filter, finalize, shareReplay, tap } from 'rxjs/operators';
+import { WidgetDataSource } from '../interfaces';
+
+export interface DataCacheEntry {
+  value: any;
+  timestamp: number;
+  expiresAt: number;
+
+  /** Whether the source completed after this value */
+  complete: boolean;
+}
+
+export type DataCachePolicy = NonNullable<WidgetDataSource['cache']>;
+
+/**
+ * Widget Data Cache Service
+ * Shares provider data between widgets with TTL expiry and in-flight deduplication
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WidgetDataCacheService {
+  private readonly defaultTtl = 60000;
+  private readonly entries = new Map<string, DataCacheEntry>();
+  private readonly inFlight = new Map<string, Observable<any>>();
+  private readonly invalidations = new Subject<string>();
+
+  /**
+   * Build a cache key from provider name, source and parameters
+   */
+  createKey(
+    providerName: string,
+    dataSource: WidgetDataSource
+  ): string {
+    return [
+      providerName,
+      dataSource.source,
+      this.stableStringify(dataSource.parameters ?? {}),
+    ].join('|');
+  }
+
+  /**
+   * Get data through the cache
+   */
+  get(
+    key: string,
+    source$: Observable<any>,
+    policy: DataCachePolicy
+  ): Observable<any> {
+    const entry = this.entries.get(key);
+    const live$ = this.inFlight.get(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      // Only finished sources are served from the cache alone; long
+      // lived ones keep delivering after the cached value
+      if (entry.complete) {
+        return of(entry.value);
+      }
+
+      return (
+        live$ ??
+        concat(
+          of(entry.value),
+          this.getInFlight(key, source$, policy).pipe(
+            filter((value) => value !== entry.value)
+          )
+        )
+      );
+    }
+
+    const fetch$ = live$ ?? this.getInFlight(key, source$, policy);
+
+    if (entry && policy.staleWhileRevalidate) {
+      return concat(of(entry.value), fetch$);
+    }
+
+    return fetch$;
+  }
+
+  /**
+   * Peek at a cached entry without triggering a fetch
+   */
+  peek(key: string): DataCacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  /**
+   * Invalidate a single cache entry
+   */
+  invalidate(key: string): boolean {
+    const existed = this.entries.delete(key);
+    this.inFlight.delete(key);
+    this.invalidations.next(key);
+    return existed;
+  }
+
+  /**
+   * Invalidate all entries whose key matches the predicate
+   */
+  invalidateMatching(predicate: (key: string) => boolean): number {
+    const keys = Array.from(this.entries.keys()).filter(predicate);
+    keys.forEach((key) => this.invalidate(key));
+    return keys.length;
+  }
+
+  /**
+   * Clear the entire cache
+   */
+  clear(): void {
+    const keys = Array.from(this.entries.keys());
+    this.entries.clear();
+    this.inFlight.clear();
+    keys.forEach((key) => this.invalidations.next(key));
+  }
+
+  /**
+   * Get invalidations as observable
+   */
+  getInvalidations$(key?: string): Observable<string> {
+    const stream = this.invalidations.asObservable();
+    return key ? stream.pipe(filter((k) => k === key)) : stream;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStatistics(): {
+    entries: number;
+    inFlight: number;
+    keys: string[];
+  } {
+    return {
+      entries: this.entries.size,
+      inFlight: this.inFlight.size,
+      keys: Array.from(this.entries.keys()),
+    };
+  }
+
+  /**
+   * Create the shared request for a key
+   */
+  private getInFlight(
+    key: string,
+    source$: Observable<any>,
+    policy: DataCachePolicy
+  ): Observable<any> {
+    const ttl = policy.ttl ?? this.defaultTtl;
+    const shared$ = source$.pipe(
+      tap({
+        next: (value) => {
+          const timestamp = Date.now();
+          this.entries.set(key, {
+            value,
+            timestamp,
+            expiresAt: timestamp + ttl,
+            complete: false,
+          });
+        },
+        complete: () => {
+          const entry = this.entries.get(key);
+          if (entry && this.inFlight.get(key) === shared$) {
+            entry.complete = true;
+          }
+        },
+      }),
+      finalize(() => {
+        if (this.inFlight.get(key) === shared$) {
+          this.inFlight.delete(key);
+        }
+      }),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+
+    this.inFlight.set(key, shared$);
+    return shared$;
+  }
+
+  /**
+   * Serialize a value with sorted object keys
+   */
+  private stableStringify(value: any): string {
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value) ?? 'undefined';
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value
+        .map((item) => this.stableStringify(item))
+        .join(',')}]`;
+    }
+
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${this.stableStringify(value[key])}`
+      )
+      .join(',')}}`;
+  }
+}
@@ -0,0 +1,167 @@
+import { ErrorHandler } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { WidgetRetryPolicy } from '../interfaces';
+import {
+  WidgetBoundaryError,
+  WidgetErrorBoundaryService,
+  provideWidgetErrorBoundary,
+} from './widget-error-boundary.service';
+
+describe('WidgetErrorBoundaryService', () => {
+  let boundary: WidgetErrorBoundaryService;
+  let errors: WidgetBoundaryError[];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideWidgetErrorBoundary()],
+    });
+    boundary = TestBed.inject(WidgetErrorBoundaryService);
+    errors = [];
+    boundary.getErrors$().subscribe((error) => errors.push(error));
+  });
+
+  describe('run', () => {
+    it('captures errors for the widget', () => {
+      const error = new Error('Broken');
+
+      expect(
+        boundary.run('chart-1', 'lifecycle', () => {
+          throw error;
+        })
+      ).toBeUndefined();
+      expect(errors).toEqual([
+        { instanceId: 'chart-1', source: 'lifecycle', error },
+      ]);
+    });
+
+    it('attributes errors reported to the application error handler', () => {
+      const error = new Error('Listener failed');
+      const handler = TestBed.inject(ErrorHandler);
+
+      boundary.run('chart-1', 'render', () =>
+        handler.handleError(error)
+      );
+
+      expect(errors).toEqual([
+        { instanceId: 'chart-1', source: 'render', error },
+      ]);
+    });
+  });
+
+  describe('captureUncaught', () => {
+    it('publishes errors outside widget code as uncaught', () => {
+      const uncaught: unknown[] = [];
+      boundary
+        .getUncaught$()
+        .subscribe((error) => uncaught.push(error));
+
+      expect(boundary.captureUncaught('Oops')).toBe(false);
+      expect(uncaught).toEqual(['Oops']);
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('createErrorHandler', () => {
+    it('reports to the widget it was created for', () => {
+      boundary.createErrorHandler('chart-1').handleError('Oops');
+
+      expect(errors).toEqual([
+        { instanceId: 'chart-1', source: 'event', error: 'Oops' },
+      ]);
+    });
+  });
+
+  describe('planRetry', () => {
+    const plan = (policy?: WidgetRetryPolicy) => {
+      const { attempt, circuit, delay } = boundary.planRetry(
+        'chart-1',
+        policy
+      );
+      return { attempt, circuit, delay };
+    };
+
+    it('backs off exponentially up to the max delay', () => {
+      const policy = { maxAttempts: 4, maxDelay: 3000 };
+
+      expect([1, 2, 3, 4].map(() => plan(policy).delay)).toEqual([
+        1000, 2000, 3000, 3000,
+      ]);
+    });
+
+    it('gives up once retries run out without a circuit breaker', () => {
+      plan({ maxAttempts: 1 });
+
+      expect(plan({ maxAttempts: 1 })).toEqual({
+        attempt: 2,
+        circuit: 'closed',
+        delay: null,
+      });
+    });
+
+    it('opens the circuit at the failure threshold', () => {
+      const policy = {
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 },
+      };
+
+      expect(plan(policy).circuit).toBe('closed');
+      expect(plan(policy)).toEqual({
+        attempt: 2,
+        circuit: 'open',
+        delay: 60000,
+      });
+    });
+
+    it('opens the circuit again after each failed trial', () => {
+      const policy = {
+        maxAttempts: 1,
+        circuitBreaker: {
+          failureThreshold: 5,
+          resetTimeout: 60000,
+          maxTrials: 2,
+        },
+      };
+      plan(policy);
+
+      // Retries ran out, so the circuit opens before the threshold
+      expect(plan(policy).delay).toBe(60000);
+      expect(plan(policy)).toEqual({
+        attempt: 3,
+        circuit: 'open',
+        delay: 60000,
+      });
+      expect(plan(policy)).toEqual({
+        attempt: 4,
+        circuit: 'open',
+        delay: null,
+      });
+    });
+
+    it('gives up after the default number of trials', () => {
+      const policy = {
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 },
+      };
+
+      expect([1, 2, 3, 4].map(() => plan(policy).delay)).toEqual([
+        60000,
+        60000,
+        60000,
+        null,
+      ]);
+    });
+
+    it('closes the circuit on reset', () => {
+      const policy = {
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 },
+      };
+      plan(policy);
+
+      boundary.reset('chart-1');
+
+      expect(plan()).toEqual({
+        attempt: 1,
+        circuit: 'closed',
+        delay: 1000,
+      });
+    });
+  });
+});
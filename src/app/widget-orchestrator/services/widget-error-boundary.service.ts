@@ -0,0 +1,246 @@
+import {
+  ErrorHandler,
+  Injectable,
+  Provider,
+  inject,
+} from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import {
+  WidgetErrorSource,
+  WidgetRetryPolicy,
+  WidgetRetryStatus,
+} from '../interfaces';
+
+/**
+ * Retry policy used for settings a widget leaves out
+ */
+export const DEFAULT_WIDGET_RETRY_POLICY: Required<
+  Omit<WidgetRetryPolicy, 'circuitBreaker'>
+> = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  backoffFactor: 2,
+  maxDelay: 30000,
+};
+
+/**
+ * Failed circuit breaker trials before a widget gives up, unless its
+ * policy sets `maxTrials`
+ */
+export const DEFAULT_WIDGET_CIRCUIT_TRIALS = 3;
+
+/**
+ * Error caught by a widget error boundary
+ */
+export interface WidgetBoundaryError {
+  instanceId: string;
+  source: WidgetErrorSource;
+  error: unknown;
+}
+
+/**
+ * When to retry a failing widget
+ */
+export interface WidgetRetryPlan extends WidgetRetryStatus {
+  /** Milliseconds until the retry; null gives up */
+  delay: number | null;
+}
+
+/**
+ * Failures of a widget since it last worked
+ */
+interface WidgetFailures {
+  attempt: number;
+  trials: number;
+  circuitOpen: boolean;
+}
+
+/**
+ * Widget Error Boundary Service
+ * Attributes errors to the widget that raised them and tracks
+ * failures for retry policies
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WidgetErrorBoundaryService {
+  private readonly failures = new Map<string, WidgetFailures>();
+  private readonly running: Omit<WidgetBoundaryError, 'error'>[] = [];
+  private readonly errorSubject = new Subject<WidgetBoundaryError>();
+  private readonly uncaughtSubject = new Subject<unknown>();
+
+  /**
+   * Run code on behalf of a widget, capturing anything it throws
+   * Errors Angular catches and reports to the application error
+   * handler meanwhile are captured for the widget too
+   */
+  run<T>(
+    instanceId: string,
+    source: WidgetErrorSource,
+    fn: () => T
+  ): T | undefined {
+    this.running.push({ instanceId, source });
+    try {
+      return fn();
+    } catch (error) {
+      this.capture(instanceId, source, error);
+      return undefined;
+    } finally {
+      this.running.pop();
+    }
+  }
+
+  /**
+   * Report an error raised by a widget
+   */
+  capture(
+    instanceId: string,
+    source: WidgetErrorSource,
+    error: unknown
+  ): void {
+    this.errorSubject.next({ instanceId, source, error });
+  }
+
+  /**
+   * Capture an error reported to the application error handler for
+   * the widget whose code is running
+   * Returns false and publishes it as uncaught if no widget is running
+   */
+  captureUncaught(error: unknown): boolean {
+    const current = this.running[this.running.length - 1];
+    if (!current) {
+      this.uncaughtSubject.next(error);
+      return false;
+    }
+
+    this.capture(current.instanceId, current.source, error);
+    return true;
+  }
+
+  /**
+   * Create the error handler for a widget's injector
+   * Reports errors that widget code or its outputs pass to the
+   * injected `ErrorHandler` for that widget
+   */
+  createErrorHandler(instanceId: string): ErrorHandler {
+    return new WidgetScopedErrorHandler((error) =>
+      this.capture(instanceId, 'event', error)
+    );
+  }
+
+  /**
+   * Get captured errors as observable
+   */
+  getErrors$(): Observable<WidgetBoundaryError> {
+    return this.errorSubject.asObservable();
+  }
+
+  /**
+   * Get errors no widget was running for as observable, such as
+   * errors from application change detection
+   */
+  getUncaught$(): Observable<unknown> {
+    return this.uncaughtSubject.asObservable();
+  }
+
+  /**
+   * Count a failure and decide when to retry
+   * Delays grow exponentially; once retries run out or failures
+   * reach the circuit breaker threshold, the circuit opens and waits
+   * for its reset timeout before one trial retry. A failure while
+   * the circuit is open is that trial failing, which opens it again
+   * until the trials run out
+   */
+  planRetry(
+    instanceId: string,
+    policy: WidgetRetryPolicy = {}
+  ): WidgetRetryPlan {
+    const { maxAttempts, initialDelay, backoffFactor, maxDelay } = {
+      ...DEFAULT_WIDGET_RETRY_POLICY,
+      ...policy,
+    };
+    const breaker = policy.circuitBreaker;
+    const failures = this.failures.get(instanceId) ?? {
+      attempt: 0,
+      trials: 0,
+      circuitOpen: false,
+    };
+    const attempt = ++failures.attempt;
+    this.failures.set(instanceId, failures);
+
+    if (breaker) {
+      if (failures.circuitOpen) {
+        failures.trials++;
+      } else {
+        failures.circuitOpen =
+          attempt > maxAttempts ||
+          attempt >= breaker.failureThreshold;
+      }
+    }
+
+    if (breaker && failures.circuitOpen) {
+      const maxTrials =
+        breaker.maxTrials ?? DEFAULT_WIDGET_CIRCUIT_TRIALS;
+      return {
+        attempt,
+        circuit: 'open',
+        delay:
+          failures.trials >= maxTrials ? null : breaker.resetTimeout,
+      };
+    }
+
+    return {
+      attempt,
+      circuit: 'closed',
+      delay:
+        attempt > maxAttempts
+          ? null
+          : Math.min(
+              maxDelay,
+              initialDelay * backoffFactor ** (attempt - 1)
+            ),
+    };
+  }
+
+  /**
+   * Forget a widget's failures once it works again
+   */
+  reset(instanceId: string): void {
+    this.failures.delete(instanceId);
+  }
+}
+
+/**
+ * Error handler provided to a single widget
+ */
+class WidgetScopedErrorHandler extends ErrorHandler {
+  constructor(private readonly report: (error: unknown) => void) {
+    super();
+  }
+
+  override handleError(error: unknown): void {
+    this.report(error);
+  }
+}
+
+/**
+ * Error handler that routes errors raised while widget code runs to
+ * that widget's error boundary
+ */
+@Injectable()
+export class WidgetErrorHandler extends ErrorHandler {
+  private readonly boundary = inject(WidgetErrorBoundaryService);
+
+  override handleError(error: unknown): void {
+    if (!this.boundary.captureUncaught(error)) {
+      super.handleError(error);
+    }
+  }
+}
+
+/**
+ * Provide the widget error handler
+ */
+export function provideWidgetErrorBoundary(): Provider[] {
+  return [{ provide: ErrorHandler, useClass: WidgetErrorHandler }];
+}
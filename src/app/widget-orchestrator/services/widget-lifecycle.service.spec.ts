@@ -0,0 +1,161 @@
+import { WidgetInstance, WidgetState } from '../interfaces';
+import {
+  WIDGET_STATE_TRANSITIONS,
+  WidgetLifecycleService,
+} from './widget-lifecycle.service';
+
+class ClockWidgetComponent {}
+
+function createInstance(state: WidgetState): WidgetInstance {
+  return {
+    id: 'clock-1',
+    definition: {
+      type: 'clock',
+      name: 'Clock',
+      description: 'Clock widget',
+      component: ClockWidgetComponent,
+      category: 'general',
+      defaultConfig: {},
+    },
+    config: {
+      type: 'clock',
+      title: 'Clock',
+      layout: { cols: 2, rows: 2 },
+    },
+    state,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('WidgetLifecycleService', () => {
+  let lifecycle: WidgetLifecycleService;
+
+  beforeEach(() => {
+    lifecycle = new WidgetLifecycleService();
+  });
+
+  describe('transition', () => {
+    it('allows exactly the listed transitions', () => {
+      const states = Object.values(WidgetState);
+
+      states.forEach((from) =>
+        states
+          .filter((to) => to !== from)
+          .forEach((to) => {
+            const instance = createInstance(from);
+            const allowed =
+              WIDGET_STATE_TRANSITIONS[from].includes(to);
+
+            expect(lifecycle.canTransition(from, to)).toBe(allowed);
+            if (allowed) {
+              expect(lifecycle.transition(instance, to)).toBe(true);
+              expect(instance.state).toBe(to);
+            } else {
+              expect(() =>
+                lifecycle.transition(instance, to)
+              ).toThrowError(
+                `Invalid state transition for widget 'clock-1': ${from} -> ${to}`
+              );
+              expect(instance.state).toBe(from);
+            }
+          })
+      );
+    });
+
+    it('never leaves the destroyed state', () => {
+      expect(WIDGET_STATE_TRANSITIONS[WidgetState.DESTROYED]).toEqual(
+        []
+      );
+    });
+
+    it('ignores moves to the current state', () => {
+      const instance = createInstance(WidgetState.LOADED);
+      const events: unknown[] = [];
+      lifecycle.getEvents$().subscribe((event) => events.push(event));
+
+      expect(lifecycle.transition(instance, WidgetState.LOADED)).toBe(
+        false
+      );
+      expect(events).toEqual([]);
+    });
+
+    it('publishes state changes and completes on destroy', () => {
+      const instance = createInstance(WidgetState.INITIALIZING);
+      const states: WidgetState[] = [];
+      let completed = false;
+      const changes: [WidgetState, WidgetState][] = [];
+
+      lifecycle.track(instance);
+      lifecycle.getState$(instance.id).subscribe({
+        next: (state) => states.push(state),
+        complete: () => (completed = true),
+      });
+      lifecycle
+        .getEvents$('stateChange')
+        .subscribe(({ from, to }) => changes.push([from, to]));
+
+      lifecycle.transition(instance, WidgetState.LOADING);
+      lifecycle.transition(instance, WidgetState.DESTROYED);
+
+      expect(states).toEqual([
+        WidgetState.INITIALIZING,
+        WidgetState.LOADING,
+        WidgetState.DESTROYED,
+      ]);
+      expect(changes).toEqual([
+        [WidgetState.INITIALIZING, WidgetState.LOADING],
+        [WidgetState.LOADING, WidgetState.DESTROYED],
+      ]);
+      expect(completed).toBe(true);
+    });
+  });
+
+  describe('emit', () => {
+    it('rethrows errors from blocking hooks', () => {
+      const instance = createInstance(WidgetState.LOADING);
+      const published = jasmine.createSpy('published');
+      lifecycle.getEvents$().subscribe(published);
+      lifecycle.registerHooks('guard', {
+        beforeCreate: () => {
+          throw new Error('Quota reached');
+        },
+        beforeLoad: () => {
+          throw new Error('Not allowed');
+        },
+      });
+
+      expect(() =>
+        lifecycle.emit({
+          type: 'beforeCreate',
+          widgetType: 'clock',
+          config: instance.config,
+        })
+      ).toThrowError('Quota reached');
+      expect(() =>
+        lifecycle.emit({ type: 'beforeLoad', instance })
+      ).toThrowError('Not allowed');
+      expect(published).not.toHaveBeenCalled();
+    });
+
+    it('logs errors from other hooks and keeps running the rest', () => {
+      spyOn(console, 'error');
+      const instance = createInstance(WidgetState.LOADED);
+      const afterCreate = jasmine.createSpy('afterCreate');
+      lifecycle.registerHooks('broken', {
+        afterCreate: () => {
+          throw new Error('Hook failed');
+        },
+      });
+      lifecycle.registerHooks('audit', { afterCreate });
+
+      lifecycle.emit({ type: 'afterCreate', instance });
+
+      expect(afterCreate).toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        "Lifecycle hook 'broken' failed on afterCreate:",
+        jasmine.any(Error)
+      );
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, EMPTY, Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import {
+  WidgetInstance,
+  WidgetLifecycleEvent,
+  WidgetLifecycleEventType,
+  WidgetLifecycleHooks,
+  WidgetState,
+} from '../interfaces';
+
+/**
+ * States each widget state may move to
+ */
+export const WIDGET_STATE_TRANSITIONS: Record<
+  WidgetState,
+  readonly WidgetState[]
+> = {
+  [WidgetState.INITIALIZING]: [
+    WidgetState.LOADING,
+    WidgetState.ERROR,
+    WidgetState.DESTROYED,
+  ],
+  [WidgetState.LOADING]: [
+    WidgetState.LOADED,
+    WidgetState.ERROR,
+    WidgetState.DESTROYED,
+  ],
+  [WidgetState.LOADED]: [
+    WidgetState.LOADING,
+    WidgetState.STALE,
+    WidgetState.SUSPENDED,
+    WidgetState.ERROR,
+    WidgetState.DESTROYED,
+  ],
+  [WidgetState.STALE]: [
+    WidgetState.LOADING,
+    WidgetState.LOADED,
+    WidgetState.SUSPENDED,
+    WidgetState.ERROR,
+    WidgetState.DESTROYED,
+  ],
+  [WidgetState.SUSPENDED]: [
+    WidgetState.LOADING,
+    WidgetState.LOADED,
+    WidgetState.STALE,
+    WidgetState.ERROR,
+    WidgetState.DESTROYED,
+  ],
+  [WidgetState.ERROR]: [WidgetState.LOADING, WidgetState.DESTROYED],
+  [WidgetState.DESTROYED]: [],
+};
+
+/**
+ * Widget Lifecycle Service
+ * Enforces widget state transitions and dispatches lifecycle events
+ * to registered plugin hooks
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WidgetLifecycleService {
+  private readonly hooks = new Map<string, WidgetLifecycleHooks>();
+  private readonly states = new Map<
+    string,
+    BehaviorSubject<WidgetState>
+  >();
+  private readonly eventSubject = new Subject<WidgetLifecycleEvent>();
+
+  /**
+   * Register named lifecycle hooks
+   */
+  registerHooks(name: string, hooks: WidgetLifecycleHooks): void {
+    if (this.hooks.has(name)) {
+      console.warn(
+        `Lifecycle hooks '${name}' are already registered. Overwriting...`
+      );
+    }
+
+    this.hooks.set(name, hooks);
+  }
+
+  /**
+   * Unregister named lifecycle hooks
+   */
+  unregisterHooks(name: string): boolean {
+    return this.hooks.delete(name);
+  }
+
+  /**
+   * Check if a widget may move from one state to another
+   */
+  canTransition(from: WidgetState, to: WidgetState): boolean {
+    return WIDGET_STATE_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Start tracking the state of a new instance
+   */
+  track(instance: WidgetInstance): void {
+    this.states.set(
+      instance.id,
+      new BehaviorSubject<WidgetState>(instance.state)
+    );
+  }
+
+  /**
+   * Move an instance to a new state
+   * Returns false if it is already in that state and throws if the
+   * transition is not allowed
+   */
+  transition(instance: WidgetInstance, to: WidgetState): boolean {
+    const from = instance.state;
+    if (from === to) {
+      return false;
+    }
+
+    if (!this.canTransition(from, to)) {
+      throw new Error(
+        `Invalid state transition for widget '${instance.id}': ${from} -> ${to}`
+      );
+    }
+
+    instance.state = to;
+    instance.updatedAt = new Date();
+    this.emit({ type: 'stateChange', instance, from, to });
+
+    const state = this.states.get(instance.id);
+    state?.next(to);
+
+    if (to === WidgetState.DESTROYED) {
+      state?.complete();
+      this.states.delete(instance.id);
+    }
+    return true;
+  }
+
+  /**
+   * Get an instance's state as observable
+   * Completes when the instance is destroyed
+   */
+  getState$(instanceId: string): Observable<WidgetState> {
+    return this.states.get(instanceId)?.asObservable() ?? EMPTY;
+  }
+
+  /**
+   * Get lifecycle events as observable, optionally of one type
+   */
+  getEvents$(): Observable<WidgetLifecycleEvent>;
+  getEvents$<T extends WidgetLifecycleEventType>(
+    type: T
+  ): Observable<Extract<WidgetLifecycleEvent, { type: T }>>;
+  getEvents$(
+    type?: WidgetLifecycleEventType
+  ): Observable<WidgetLifecycleEvent> {
+    return type
+      ? this.eventSubject.pipe(filter((event) => event.type === type))
+      : this.eventSubject.asObservable();
+  }
+
+  /**
+   * Run hooks for an event, then publish it
+   * Errors from `beforeCreate` and `beforeLoad` hooks are rethrown
+   */
+  emit(event: WidgetLifecycleEvent): void {
+    const blocking =
+      event.type === 'beforeCreate' || event.type === 'beforeLoad';
+
+    this.hooks.forEach((hooks, name) => {
+      const hook = hooks[event.type] as
+        | ((event: WidgetLifecycleEvent) => void)
+        | undefined;
+
+      try {
+        hook?.(event);
+      } catch (error) {
+        if (blocking) {
+          throw error;
+        }
+        console.error(
+          `Lifecycle hook '${name}' failed on ${event.type}:`,
+          error
+        );
+      }
+    });
+
+    this.eventSubject.next(event);
+  }
+}
@@ -1,27 +1,78 @@
+import { DOCUMENT } from '@angular/common';
 import {
   ComponentRef,
+  DestroyRef,
+  EnvironmentInjector,
+  ErrorHandler,
   Injectable,
+  Injector,
   ViewContainerRef,
+  afterNextRender,
   inject,
+  reflectComponentType,
 } from '@angular/core';
 import {
   BehaviorSubject,
+  EMPTY,
   Observable,
   Subject,
   Subscription,
+  combineLatest,
+  defer,
+  fromEvent,
+  merge,
+  of,
+  timer,
 } from 'rxjs';
-import { filter, takeUntil } from 'rxjs/operators';
+import {
+  catchError,
+  debounceTime,
+  distinctUntilChanged,
+  filter,
+  map,
+  startWith,
+  switchMap,
+  takeUntil,
+  takeWhile,
+  tap,
+} from 'rxjs/operators';
 import {
   IWidget,
   WidgetConfig,
   WidgetDataProvider,
   WidgetDataSource,
   WidgetError,
+  WidgetErrorSource,
   WidgetEvent,
   WidgetInstance,
   WidgetState,
+  WidgetTransformFn,
 } from '../interfaces';
+import { DashboardLayoutManagerService } from './dashboard-layout-manager.service';
+import { DashboardSerializerService } from './dashboard-serializer.service';
+import {
+  DASHBOARD_STORAGE_ADAPTER,
+  IndexedDbDashboardAdapter,
+  LocalStorageDashboardAdapter,
+  RestDashboardAdapter,
+  SessionStorageDashboardAdapter,
+} from './dashboard-storage.service';
+import { DashboardTemplateRegistryService } from './dashboard-template-registry.service';
+import {
+  ApiDataProvider,
+  AssessmentDataProvider,
+  StaticDataProvider,
+} from './data-providers.service';
+import { WidgetConfigValidatorService } from './widget-config-validator.service';
+import { WidgetDataCacheService } from './widget-data-cache.service';
+import {
+  WidgetBoundaryError,
+  WidgetErrorBoundaryService,
+} from './widget-error-boundary.service';
+import { WidgetLifecycleService } from './widget-lifecycle.service';
 import { WidgetRegistryService } from './widget-registry.service';
+import { WidgetSandboxService } from './widget-sandbox.service';
+import { WidgetTransformRegistryService } from './widget-transform-registry.service';
 
 /**
  * Widget Orchestrator Service
@@ -32,16 +83,47 @@ import { WidgetRegistryService } from './widget-registry.service';
 })
 export class WidgetOrchestratorService {
   private readonly widgetRegistry = inject(WidgetRegistryService);
+  private readonly configValidator = inject(
+    WidgetConfigValidatorService
+  );
+  private readonly dataCache = inject(WidgetDataCacheService);
+  private readonly transforms = inject(
+    WidgetTransformRegistryService
+  );
+  private readonly lifecycle = inject(WidgetLifecycleService);
+  private readonly boundary = inject(WidgetErrorBoundaryService);
+  private readonly sandbox = inject(WidgetSandboxService);
+  private readonly injector = inject(EnvironmentInjector);
   private readonly instances = new Map<string, WidgetInstance>();
   private readonly componentRefs = new Map<
     string,
     ComponentRef<any>
   >();
+  private readonly containers = new Map<string, ViewContainerRef>();
   private readonly dataProviders = new Map<
     string,
     WidgetDataProvider
   >();
   private readonly subscriptions = new Map<string, Subscription>();
+  private readonly document = inject(DOCUMENT);
+
+  // Data refresh scheduling
+  private readonly refreshRequests = new Subject<string>();
+  private readonly lastFetchTimes = new Map<string, number>();
+
+  // Error recovery
+  private readonly fallbackRefs = new Map<
+    string,
+    ComponentRef<any>
+  >();
+  private readonly retryTimers = new Map<string, Subscription>();
+  private readonly recovering = new Set<string>();
+
+  // Environment injectors of sandboxed widgets
+  private readonly sandboxInjectors = new Map<
+    string,
+    EnvironmentInjector
+  >();
 
   // Event system
   private readonly eventBus = new Subject<WidgetEvent>();
@@ -59,6 +141,7 @@ export class WidgetOrchestratorService {
   constructor() {
     // Setup event bus
     this.setupEventBus();
+    this.setupErrorBoundary();
   }
 
   /**
@@ -96,6 +179,28 @@ export class WidgetOrchestratorService {
         type,
       } as WidgetConfig;
 
+      // Let plugins adjust or reject the configuration
+      this.lifecycle.emit({
+        type: 'beforeCreate',
+        widgetType: type,
+        config: widgetConfig,
+      });
+
+      // Validate configuration against the definition schema
+      const issues = this.configValidator.validateConfig(
+        type,
+        widgetConfig
+      );
+      if (issues.length > 0) {
+        const validationError =
+          this.configValidator.createValidationError(issues, {
+            type,
+          });
+        throw new Error(validationError.message, {
+          cause: validationError,
+        });
+      }
+
       // Create widget instance
       const instance: WidgetInstance = {
         id: instanceId,
@@ -108,24 +213,28 @@ export class WidgetOrchestratorService {
 
       // Store instance
       this.instances.set(instanceId, instance);
+      this.lifecycle.track(instance);
+      this.lifecycle.emit({ type: 'afterCreate', instance });
+      this.notifyInstancesChange();
 
-      // Load and create component if container provided
+      // Load and create component if container provided; otherwise
+      // the instance stays initializing until a container loads it
       if (container) {
         await this.loadWidgetComponent(instance, container);
       }
 
-      // Update state
-      this.updateInstanceState(instanceId, WidgetState.LOADED);
-      this.notifyInstancesChange();
-
       return instance;
     } catch (error) {
-      const widgetError: WidgetError = {
-        code: 'CREATION_FAILED',
-        message: `Failed to create widget: ${error}`,
-        timestamp: new Date(),
-        recoverable: false,
-      };
+      const widgetError: WidgetError = this.isWidgetError(
+        (error as Error)?.cause
+      )
+        ? ((error as Error).cause as WidgetError)
+        : {
+            code: 'CREATION_FAILED',
+            message: `Failed to create widget: ${error}`,
+            timestamp: new Date(),
+            recoverable: false,
+          };
 
       this.errorSubject.next({ instanceId: '', error: widgetError });
       throw error;
@@ -140,7 +249,14 @@ export class WidgetOrchestratorService {
     container: ViewContainerRef
   ): Promise<ComponentRef<any>> {
     try {
+      // Replace the current component or fallback, if any
+      this.cancelRetry(instance.id);
+      this.unmountWidget(instance.id);
+      this.trackContainer(instance.id, container);
+
       this.updateInstanceState(instance.id, WidgetState.LOADING);
+      instance.error = undefined;
+      this.lifecycle.emit({ type: 'beforeLoad', instance });
 
       // Load component class
       const componentType = await this.widgetRegistry.loadComponent(
@@ -148,7 +264,11 @@ export class WidgetOrchestratorService {
       );
 
       // Create component
-      const componentRef = container.createComponent(componentType);
+      const componentRef = container.createComponent(
+        componentType,
+        this.createWidgetInjectors(instance, container)
+      );
+      this.componentRefs.set(instance.id, componentRef);
 
       // Configure component if it implements IWidget
       const component = componentRef.instance;
@@ -158,7 +278,7 @@ export class WidgetOrchestratorService {
 
         // Set initial data
         if (instance.data) {
-          component.data = instance.data;
+          this.setComponentInput(componentRef, 'data', instance.data);
         }
 
         // Setup component lifecycle hooks
@@ -171,24 +291,30 @@ export class WidgetOrchestratorService {
           component.emit = (event: WidgetEvent) =>
             this.emitEvent(instance.id, event);
         }
-
-        // Setup configuration change handling
-        if (component.onConfigChange) {
-          component.onConfigChange = (
-            config: Partial<WidgetConfig>
-          ) => this.updateWidgetConfig(instance.id, config);
-        }
       }
 
-      // Store component reference
-      this.componentRefs.set(instance.id, componentRef);
+      // First render; errors here fail the load
+      componentRef.changeDetectorRef.detectChanges();
 
       // Setup data binding if configured
       if (instance.config.dataSource) {
         await this.setupDataBinding(instance);
+      } else {
+        this.watchRecovery(instance);
+      }
+
+      // The first fetch may already have failed and been handled
+      if (instance.state !== WidgetState.LOADING) {
+        return componentRef;
       }
 
       this.updateInstanceState(instance.id, WidgetState.LOADED);
+      this.lifecycle.emit({
+        type: 'afterLoad',
+        instance,
+        component,
+      });
+      this.notifyInstancesChange();
       return componentRef;
     } catch (error) {
       this.handleWidgetError(instance.id, {
@@ -196,11 +322,33 @@ export class WidgetOrchestratorService {
         message: `Failed to load widget component: ${error}`,
         timestamp: new Date(),
         recoverable: true,
+        source: 'load',
       });
       throw error;
     }
   }
 
+  /**
+   * Reload a failed widget into its container now, resetting its
+   * retry policy
+   * Returns false if the widget was never mounted; load failures are
+   * reported like any other widget error
+   */
+  async retryWidget(instanceId: string): Promise<boolean> {
+    const instance = this.instances.get(instanceId);
+    const container = this.containers.get(instanceId);
+    if (!instance || !container) {
+      return false;
+    }
+
+    this.boundary.reset(instanceId);
+    instance.retry = undefined;
+    await this.loadWidgetComponent(instance, container).catch(
+      () => undefined
+    );
+    return true;
+  }
+
   /**
    * Destroy widget instance
    */
@@ -211,34 +359,25 @@ export class WidgetOrchestratorService {
     }
 
     try {
-      // Clean up component
-      const componentRef = this.componentRefs.get(instanceId);
-      if (componentRef) {
-        const component = componentRef.instance;
+      this.lifecycle.emit({ type: 'beforeDestroy', instance });
 
-        // Call onDestroy if available
-        if (
-          this.isWidgetComponent(component) &&
-          component.onDestroy
-        ) {
-          component.onDestroy();
-        }
-
-        // Destroy component
-        componentRef.destroy();
-        this.componentRefs.delete(instanceId);
+      // Call onDestroy if available
+      const component = this.componentRefs.get(instanceId)?.instance;
+      if (this.isWidgetComponent(component) && component.onDestroy) {
+        component.onDestroy();
       }
 
-      // Clean up subscriptions
-      const subscription = this.subscriptions.get(instanceId);
-      if (subscription) {
-        subscription.unsubscribe();
-        this.subscriptions.delete(instanceId);
-      }
+      // Clean up component, subscriptions and pending retries
+      this.cancelRetry(instanceId);
+      this.unmountWidget(instanceId);
+      this.containers.delete(instanceId);
+      this.boundary.reset(instanceId);
+      this.lastFetchTimes.delete(instanceId);
 
       // Update state and remove instance
       this.updateInstanceState(instanceId, WidgetState.DESTROYED);
       this.instances.delete(instanceId);
+      this.lifecycle.emit({ type: 'afterDestroy', instance });
 
       this.notifyInstancesChange();
       return true;
@@ -265,9 +404,25 @@ export class WidgetOrchestratorService {
       return false;
     }
 
+    // Reject invalid configuration without failing the running widget
+    const updatedConfig = { ...instance.config, ...config };
+    const issues = this.configValidator.validateConfig(
+      updatedConfig.type,
+      updatedConfig
+    );
+    if (issues.length > 0) {
+      this.errorSubject.next({
+        instanceId,
+        error: this.configValidator.createValidationError(issues, {
+          instanceId,
+        }),
+      });
+      return false;
+    }
+
     try {
       // Update configuration
-      instance.config = { ...instance.config, ...config };
+      instance.config = updatedConfig;
       instance.updatedAt = new Date();
 
       // Update component if available
@@ -278,9 +433,24 @@ export class WidgetOrchestratorService {
           component.config = instance.config;
 
           if (component.onConfigChange) {
-            component.onConfigChange(config);
+            this.boundary.run(instanceId, 'lifecycle', () =>
+              component.onConfigChange!(config)
+            );
           }
         }
+
+        // Rebind data when the data source changes
+        if (config.dataSource) {
+          this.setupDataBinding(instance).catch((error) =>
+            this.handleWidgetError(instanceId, {
+              code: 'DATA_BINDING_FAILED',
+              message: `Failed to bind widget data: ${error}`,
+              timestamp: new Date(),
+              recoverable: true,
+              source: 'data',
+            })
+          );
+        }
       }
 
       this.notifyInstancesChange();
@@ -310,15 +480,22 @@ export class WidgetOrchestratorService {
       instance.data = data;
       instance.updatedAt = new Date();
 
+      // Fresh data replaces stale data
+      if (instance.state === WidgetState.STALE) {
+        this.updateInstanceState(instanceId, WidgetState.LOADED);
+      }
+
       // Update component if available
       const componentRef = this.componentRefs.get(instanceId);
       if (componentRef) {
         const component = componentRef.instance;
         if (this.isWidgetComponent(component)) {
-          component.data = data;
+          this.setComponentInput(componentRef, 'data', data);
 
           if (component.onDataChange) {
-            component.onDataChange(data);
+            this.boundary.run(instanceId, 'lifecycle', () =>
+              component.onDataChange!(data)
+            );
           }
         }
       }
@@ -330,6 +507,7 @@ export class WidgetOrchestratorService {
         message: `Failed to update widget data: ${error}`,
         timestamp: new Date(),
         recoverable: true,
+        source: 'data',
       });
       return false;
     }
@@ -342,6 +520,29 @@ export class WidgetOrchestratorService {
     return this.instances.get(instanceId);
   }
 
+  /**
+   * Get a widget instance as observable
+   * Emits on every change to the instance and completes when it is
+   * destroyed
+   */
+  getWidget$(instanceId: string): Observable<WidgetInstance> {
+    return this.instancesSubject.pipe(
+      map(() => this.instances.get(instanceId)),
+      takeWhile(
+        (instance): instance is WidgetInstance =>
+          instance !== undefined
+      )
+    );
+  }
+
+  /**
+   * Get a widget's lifecycle state as observable
+   * Completes when the widget is destroyed
+   */
+  getWidgetState$(instanceId: string): Observable<WidgetState> {
+    return this.lifecycle.getState$(instanceId);
+  }
+
   /**
    * Get all widget instances
    */
@@ -371,6 +572,14 @@ export class WidgetOrchestratorService {
    * Emit event from widget
    */
   emitEvent(sourceId: string, event: Partial<WidgetEvent>): void {
+    const source = this.instances.get(sourceId);
+    if (
+      source &&
+      !this.sandbox.canEmit(source, event.type || 'custom')
+    ) {
+      return;
+    }
+
     const fullEvent: WidgetEvent = {
       type: event.type || 'custom',
       source: sourceId,
@@ -439,6 +648,105 @@ export class WidgetOrchestratorService {
     return this.dataProviders.delete(name);
   }
 
+  /**
+   * Register named data transform
+   */
+  registerTransform(
+    name: string,
+    transform: WidgetTransformFn
+  ): void {
+    this.transforms.register(name, transform);
+  }
+
+  /**
+   * Unregister named data transform
+   */
+  unregisterTransform(name: string): boolean {
+    return this.transforms.unregister(name);
+  }
+
+  /**
+   * Refetch widget data without recreating its component
+   */
+  refreshWidgetData(instanceId: string): boolean {
+    const subscription = this.subscriptions.get(instanceId);
+    if (!subscription || subscription.closed) {
+      return false;
+    }
+
+    this.markStale(instanceId);
+    this.invalidateWidgetData(instanceId);
+    this.refreshRequests.next(instanceId);
+    return true;
+  }
+
+  /**
+   * Pause a loaded widget; polling stops until it is resumed
+   */
+  suspendWidget(instanceId: string): boolean {
+    const instance = this.instances.get(instanceId);
+    if (
+      instance?.state !== WidgetState.LOADED &&
+      instance?.state !== WidgetState.STALE
+    ) {
+      return false;
+    }
+
+    this.updateInstanceState(instanceId, WidgetState.SUSPENDED);
+    this.notifyInstancesChange();
+    return true;
+  }
+
+  /**
+   * Resume a suspended widget
+   * Widgets that missed a scheduled refresh are stale until polling
+   * catches up
+   */
+  resumeWidget(instanceId: string): boolean {
+    const instance = this.instances.get(instanceId);
+    if (instance?.state !== WidgetState.SUSPENDED) {
+      return false;
+    }
+
+    const refreshInterval =
+      instance.config.dataSource?.refreshInterval ?? 0;
+    const lastFetch = this.lastFetchTimes.get(instanceId) ?? 0;
+    const overdue =
+      refreshInterval > 0 &&
+      lastFetch + refreshInterval <= Date.now();
+
+    this.updateInstanceState(
+      instanceId,
+      overdue ? WidgetState.STALE : WidgetState.LOADED
+    );
+    this.notifyInstancesChange();
+    return true;
+  }
+
+  /**
+   * Invalidate cached data for a widget's data source
+   */
+  invalidateWidgetData(instanceId: string): boolean {
+    const dataSource =
+      this.instances.get(instanceId)?.config.dataSource;
+    if (!dataSource?.cache?.enabled) {
+      return false;
+    }
+
+    const provider = this.findDataProvider(dataSource);
+    if (
+      !provider ||
+      !this.dataCache.invalidate(
+        this.dataCache.createKey(provider.name, dataSource)
+      )
+    ) {
+      return false;
+    }
+
+    this.markStale(instanceId);
+    return true;
+  }
+
   /**
    * Setup data binding for widget
    */
@@ -458,24 +766,168 @@ export class WidgetOrchestratorService {
       );
     }
 
+    // Drop any previous binding before re-subscribing
+    this.subscriptions.get(instance.id)?.unsubscribe();
+
     try {
-      const subscription = provider.getData(dataSource).subscribe({
-        next: (data) => this.updateWidgetData(instance.id, data),
-        error: (error) =>
-          this.handleWidgetError(instance.id, {
-            code: 'DATA_FETCH_FAILED',
-            message: `Failed to fetch data: ${error}`,
-            timestamp: new Date(),
-            recoverable: true,
-          }),
-      });
+      const data$ = defer(() =>
+        dataSource.cache?.enabled
+          ? this.dataCache.get(
+              this.dataCache.createKey(provider.name, dataSource),
+              provider.getData(dataSource),
+              dataSource.cache
+            )
+          : provider.getData(dataSource)
+      );
+
+      const refreshInterval = dataSource.refreshInterval ?? 0;
+      const trigger$ = merge(
+        refreshInterval > 0
+          ? this.createPollingTrigger(instance.id, refreshInterval)
+          : of(undefined),
+        this.refreshRequests.pipe(filter((id) => id === instance.id))
+      );
 
+      // Register the binding first so a fetch failing synchronously
+      // can already tear it down
+      const subscription = new Subscription();
       this.subscriptions.set(instance.id, subscription);
+
+      // A failed fetch is a recoverable widget error: the widget is
+      // unmounted with this binding and its retry binds data again
+      subscription.add(
+        trigger$
+          .pipe(
+            tap(() =>
+              this.lastFetchTimes.set(instance.id, Date.now())
+            ),
+            switchMap(() =>
+              data$.pipe(
+                catchError((error) => {
+                  this.handleWidgetError(instance.id, {
+                    code: 'DATA_FETCH_FAILED',
+                    message: `Failed to fetch data: ${
+                      error?.message ?? error
+                    }`,
+                    details: error,
+                    timestamp: new Date(),
+                    recoverable: true,
+                    source: 'data',
+                  });
+                  return EMPTY;
+                })
+              )
+            )
+          )
+          .subscribe((data) =>
+            this.applyDataTransform(instance, data)
+          )
+      );
     } catch (error) {
       throw new Error(`Failed to setup data binding: ${error}`);
     }
   }
 
+  /**
+   * Emit on the refresh interval while the widget is visible and not
+   * suspended
+   */
+  private createPollingTrigger(
+    instanceId: string,
+    refreshInterval: number
+  ): Observable<number> {
+    return combineLatest([
+      this.observeDocumentVisible(),
+      this.observeWidgetInView(instanceId),
+      this.lifecycle
+        .getState$(instanceId)
+        .pipe(map((state) => state !== WidgetState.SUSPENDED)),
+    ]).pipe(
+      map(
+        ([documentVisible, inView, running]) =>
+          documentVisible && inView && running
+      ),
+      distinctUntilChanged(),
+      switchMap((active) => {
+        if (!active) {
+          return EMPTY;
+        }
+
+        // Resume where the schedule left off instead of refetching
+        // on every visibility flip
+        const lastFetch = this.lastFetchTimes.get(instanceId) ?? 0;
+        const dueIn = Math.max(
+          0,
+          lastFetch + refreshInterval - Date.now()
+        );
+        return timer(dueIn, refreshInterval);
+      })
+    );
+  }
+
+  /**
+   * Observe whether the document is visible
+   */
+  private observeDocumentVisible(): Observable<boolean> {
+    return fromEvent(this.document, 'visibilitychange').pipe(
+      map(() => !this.document.hidden),
+      startWith(!this.document.hidden)
+    );
+  }
+
+  /**
+   * Observe whether a widget's component is scrolled into view
+   */
+  private observeWidgetInView(
+    instanceId: string
+  ): Observable<boolean> {
+    const element = this.componentRefs.get(instanceId)?.location
+      .nativeElement as Element | undefined;
+
+    if (!element || typeof IntersectionObserver === 'undefined') {
+      return of(true);
+    }
+
+    return new Observable<boolean>((subscriber) => {
+      const observer = new IntersectionObserver((entries) =>
+        subscriber.next(
+          entries[entries.length - 1]?.isIntersecting ?? true
+        )
+      );
+      observer.observe(element);
+      return () => observer.disconnect();
+    }).pipe(startWith(true), distinctUntilChanged());
+  }
+
+  /**
+   * Run fetched data through the data source transform pipeline
+   */
+  private applyDataTransform(
+    instance: WidgetInstance,
+    data: any
+  ): void {
+    try {
+      const transformed = this.transforms.apply(
+        data,
+        instance.config.dataSource?.transform
+      );
+      if (this.updateWidgetData(instance.id, transformed)) {
+        this.watchRecovery(instance);
+      }
+    } catch (error) {
+      this.handleWidgetError(instance.id, {
+        code: 'DATA_TRANSFORM_FAILED',
+        message: `Failed to transform data: ${
+          (error as Error)?.message ?? error
+        }`,
+        details: error,
+        timestamp: new Date(),
+        recoverable: true,
+        source: 'data',
+      });
+    }
+  }
+
   /**
    * Find appropriate data provider
    */
@@ -498,13 +950,7 @@ export class WidgetOrchestratorService {
         if (event.target) {
           const componentRef = this.componentRefs.get(event.target);
           if (componentRef) {
-            const component = componentRef.instance;
-            if (
-              this.isWidgetComponent(component) &&
-              component.onEvent
-            ) {
-              component.onEvent(event);
-            }
+            this.deliverEvent(event.target, componentRef, event);
           }
         }
 
@@ -512,19 +958,320 @@ export class WidgetOrchestratorService {
         if (event.bubble) {
           this.componentRefs.forEach((componentRef, instanceId) => {
             if (instanceId !== event.source) {
-              const component = componentRef.instance;
-              if (
-                this.isWidgetComponent(component) &&
-                component.onEvent
-              ) {
-                component.onEvent(event);
-              }
+              this.deliverEvent(instanceId, componentRef, event);
             }
           });
         }
       });
   }
 
+  /**
+   * Create the injectors for a widget's components
+   * Its `ErrorHandler` reports to the widget's error boundary, and
+   * sandboxed widgets get their own environment injector without the
+   * orchestration, dashboard and data services
+   */
+  private createWidgetInjectors(
+    instance: WidgetInstance,
+    container: ViewContainerRef
+  ): {
+    injector: Injector;
+    environmentInjector?: EnvironmentInjector;
+  } {
+    const injector = Injector.create({
+      providers: [
+        {
+          provide: ErrorHandler,
+          useValue: this.boundary.createErrorHandler(instance.id),
+        },
+      ],
+      parent: container.injector,
+    });
+
+    if (!this.sandbox.isSandboxed(instance)) {
+      return { injector };
+    }
+
+    const environmentInjector =
+      this.sandboxInjectors.get(instance.id) ??
+      this.sandbox.createInjector(
+        instance,
+        container.injector.get(EnvironmentInjector),
+        [
+          WidgetOrchestratorService,
+          WidgetLifecycleService,
+          WidgetRegistryService,
+          WidgetErrorBoundaryService,
+          WidgetSandboxService,
+          WidgetDataCacheService,
+          DashboardLayoutManagerService,
+          DashboardSerializerService,
+          DashboardTemplateRegistryService,
+          DASHBOARD_STORAGE_ADAPTER,
+          LocalStorageDashboardAdapter,
+          SessionStorageDashboardAdapter,
+          IndexedDbDashboardAdapter,
+          RestDashboardAdapter,
+          AssessmentDataProvider,
+          StaticDataProvider,
+          ApiDataProvider,
+        ]
+      );
+    this.sandboxInjectors.set(instance.id, environmentInjector);
+    return { injector, environmentInjector };
+  }
+
+  /**
+   * Pass an event to a widget component
+   */
+  private deliverEvent(
+    instanceId: string,
+    componentRef: ComponentRef<any>,
+    event: WidgetEvent
+  ): void {
+    const instance = this.instances.get(instanceId);
+    if (instance && !this.sandbox.receives(instance, event.type)) {
+      return;
+    }
+
+    const component = componentRef.instance;
+    if (this.isWidgetComponent(component) && component.onEvent) {
+      this.boundary.run(instanceId, 'lifecycle', () =>
+        component.onEvent!(event)
+      );
+    }
+  }
+
+  /**
+   * Route errors caught by the error boundary to their widgets and
+   * look for the failing widget when change detection fails
+   */
+  private setupErrorBoundary(): void {
+    this.boundary
+      .getErrors$()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((captured) => {
+        console.error(
+          `Widget '${captured.instanceId}' failed:`,
+          captured.error
+        );
+        this.handleWidgetError(
+          captured.instanceId,
+          this.createBoundaryError(captured)
+        );
+      });
+
+    // A widget that throws while rendering aborts the whole render
+    // without saying which widget it was
+    this.boundary
+      .getUncaught$()
+      .pipe(debounceTime(0), takeUntil(this.destroy$))
+      .subscribe(() => this.checkWidgets());
+  }
+
+  /**
+   * Render each widget on its own, so the one that keeps failing is
+   * caught by its error boundary and the rest of the dashboard renders
+   */
+  private checkWidgets(): void {
+    this.componentRefs.forEach((componentRef, instanceId) =>
+      this.boundary.run(instanceId, 'render', () =>
+        componentRef.changeDetectorRef.detectChanges()
+      )
+    );
+  }
+
+  /**
+   * Reset a widget's retry policy once it renders with its data
+   */
+  private watchRecovery(instance: WidgetInstance): void {
+    if (this.recovering.has(instance.id)) {
+      return;
+    }
+
+    this.recovering.add(instance.id);
+    afterNextRender(
+      () => {
+        if (!this.recovering.delete(instance.id)) {
+          return;
+        }
+
+        this.boundary.reset(instance.id);
+        if (instance.retry) {
+          instance.retry = undefined;
+          this.notifyInstancesChange();
+        }
+      },
+      { injector: this.injector }
+    );
+  }
+
+  /**
+   * Describe an error caught by the error boundary
+   */
+  private createBoundaryError({
+    source,
+    error,
+  }: WidgetBoundaryError): WidgetError {
+    const descriptions: Record<WidgetErrorSource, string> = {
+      load: 'Failed to load widget',
+      render: 'Widget failed to render',
+      lifecycle: 'Widget lifecycle hook failed',
+      event: 'Widget event handler failed',
+      data: 'Failed to update widget data',
+    };
+
+    return {
+      code: `${source.toUpperCase()}_FAILED`,
+      message: `${descriptions[source]}: ${
+        (error as Error)?.message ?? error
+      }`,
+      details: error,
+      timestamp: new Date(),
+      recoverable: true,
+      source,
+    };
+  }
+
+  /**
+   * Retry a failed widget according to its retry policy
+   */
+  private scheduleRetry(instance: WidgetInstance): void {
+    const { delay, ...status } = this.boundary.planRetry(
+      instance.id,
+      instance.config.retryPolicy
+    );
+
+    this.cancelRetry(instance.id);
+    if (delay === null || !this.containers.has(instance.id)) {
+      instance.retry = status;
+      return;
+    }
+
+    instance.retry = {
+      ...status,
+      nextRetryAt: new Date(Date.now() + delay),
+    };
+    this.retryTimers.set(
+      instance.id,
+      timer(delay).subscribe(() => {
+        this.retryTimers.delete(instance.id);
+
+        // An open circuit lets a single trial through
+        if (status.circuit === 'open') {
+          instance.retry = { ...status, circuit: 'half-open' };
+        }
+        this.loadWidgetComponent(
+          instance,
+          this.containers.get(instance.id)!
+        ).catch(() => undefined);
+      })
+    );
+  }
+
+  /**
+   * Remember where a widget is mounted until that view is destroyed
+   */
+  private trackContainer(
+    instanceId: string,
+    container: ViewContainerRef
+  ): void {
+    if (this.containers.get(instanceId) === container) {
+      return;
+    }
+
+    this.containers.set(instanceId, container);
+    container.injector.get(DestroyRef).onDestroy(() => {
+      if (this.containers.get(instanceId) === container) {
+        this.containers.delete(instanceId);
+        this.cancelRetry(instanceId);
+      }
+    });
+  }
+
+  /**
+   * Cancel a widget's pending retry
+   */
+  private cancelRetry(instanceId: string): void {
+    this.retryTimers.get(instanceId)?.unsubscribe();
+    this.retryTimers.delete(instanceId);
+  }
+
+  /**
+   * Show the definition's fallback component in place of a failed
+   * widget
+   */
+  private mountFallback(instance: WidgetInstance): void {
+    const fallback = instance.definition.fallbackComponent;
+    const container = this.containers.get(instance.id);
+    if (!fallback || !container) {
+      return;
+    }
+
+    try {
+      const fallbackRef =
+        this.fallbackRefs.get(instance.id) ??
+        container.createComponent(
+          fallback,
+          this.createWidgetInjectors(instance, container)
+        );
+      this.fallbackRefs.set(instance.id, fallbackRef);
+      this.setComponentInput(fallbackRef, 'error', instance.error);
+      this.setComponentInput(fallbackRef, 'instance', instance);
+    } catch (error) {
+      console.error(
+        `Fallback for widget '${instance.id}' failed:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Remove a widget's component, fallback and data binding
+   */
+  private unmountWidget(instanceId: string): void {
+    this.subscriptions.get(instanceId)?.unsubscribe();
+    this.subscriptions.delete(instanceId);
+    this.recovering.delete(instanceId);
+
+    const componentRef = this.componentRefs.get(instanceId);
+    this.componentRefs.delete(instanceId);
+    try {
+      componentRef?.destroy();
+    } catch (error) {
+      console.error(
+        `Failed to destroy widget '${instanceId}':`,
+        error
+      );
+    }
+
+    this.fallbackRefs.get(instanceId)?.destroy();
+    this.fallbackRefs.delete(instanceId);
+
+    this.sandboxInjectors.get(instanceId)?.destroy();
+    this.sandboxInjectors.delete(instanceId);
+  }
+
+  /**
+   * Pass a value to a component, preferring a declared input of the
+   * same name
+   */
+  private setComponentInput(
+    componentRef: ComponentRef<any>,
+    name: string,
+    value: any
+  ): void {
+    const hasInput = reflectComponentType(
+      componentRef.componentType
+    )?.inputs.some((input) => input.propName === name);
+
+    if (hasInput) {
+      componentRef.setInput(name, value);
+    } else {
+      componentRef.instance[name] = value;
+    }
+  }
+
   /**
    * Check if component implements IWidget interface
    */
@@ -542,7 +1289,7 @@ export class WidgetOrchestratorService {
   }
 
   /**
-   * Update instance state
+   * Update instance state through the lifecycle state machine
    */
   private updateInstanceState(
     instanceId: string,
@@ -550,8 +1297,19 @@ export class WidgetOrchestratorService {
   ): void {
     const instance = this.instances.get(instanceId);
     if (instance) {
-      instance.state = state;
-      instance.updatedAt = new Date();
+      this.lifecycle.transition(instance, state);
+    }
+  }
+
+  /**
+   * Mark a loaded widget's data as out of date until new data arrives
+   */
+  private markStale(instanceId: string): void {
+    if (
+      this.instances.get(instanceId)?.state === WidgetState.LOADED
+    ) {
+      this.updateInstanceState(instanceId, WidgetState.STALE);
+      this.notifyInstancesChange();
     }
   }
 
@@ -563,16 +1321,35 @@ export class WidgetOrchestratorService {
     error: WidgetError
   ): void {
     const instance = this.instances.get(instanceId);
-    if (instance) {
+    if (instance && instance.state !== WidgetState.DESTROYED) {
       instance.error = error;
-      instance.state = WidgetState.ERROR;
-      instance.updatedAt = new Date();
+      this.updateInstanceState(instanceId, WidgetState.ERROR);
+
+      // Take the failing component out of the page until it is retried
+      if (error.recoverable !== false) {
+        this.unmountWidget(instanceId);
+        this.scheduleRetry(instance);
+        this.mountFallback(instance);
+      }
     }
 
     this.errorSubject.next({ instanceId, error });
     this.notifyInstancesChange();
   }
 
+  /**
+   * Check if value is a widget error
+   */
+  private isWidgetError(value: unknown): value is WidgetError {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      'code' in value &&
+      'message' in value &&
+      'timestamp' in value
+    );
+  }
+
   /**
    * Notify instances change
    */
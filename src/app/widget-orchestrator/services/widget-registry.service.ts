@@ -2,10 +2,191 @@ import { Injectable, Type } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 import {
+  WidgetConfigSchema,
   WidgetDefinition,
   WidgetRegistryConfig,
 } from '../interfaces';
 
+/**
+ * Schema for configuration shared by every widget type
+ */
+const BASE_CONFIG_SCHEMA: WidgetConfigSchema = {
+  type: 'object',
+  required: ['type', 'title', 'layout'],
+  properties: {
+    type: { type: 'string', minLength: 1, readOnly: true },
+    layout: {
+      type: 'object',
+      readOnly: true,
+      required: ['cols', 'rows'],
+      properties: {
+        cols: { type: 'integer', minimum: 1 },
+        rows: { type: 'integer', minimum: 1 },
+        x: { type: 'integer', minimum: 0 },
+        y: { type: 'integer', minimum: 0 },
+        minCols: { type: 'integer', minimum: 1 },
+        minRows: { type: 'integer', minimum: 1 },
+        maxCols: { type: 'integer', minimum: 1 },
+        maxRows: { type: 'integer', minimum: 1 },
+      },
+    },
+    layouts: { type: 'object', readOnly: true },
+    resizable: { type: 'boolean', readOnly: true },
+    movable: { type: 'boolean', readOnly: true },
+    locked: { type: 'boolean', readOnly: true },
+    removable: { type: 'boolean', readOnly: true },
+    title: {
+      type: 'string',
+      title: 'Title',
+      minLength: 1,
+      maxLength: 80,
+    },
+    description: {
+      type: 'string',
+      title: 'Description',
+      maxLength: 200,
+    },
+    appearance: {
+      type: 'object',
+      title: 'Appearance',
+      properties: {
+        icon: {
+          type: 'string',
+          title: 'Icon',
+          description: 'Material icon name',
+        },
+        backgroundColor: {
+          type: 'string',
+          title: 'Background color',
+          format: 'color',
+        },
+        textColor: {
+          type: 'string',
+          title: 'Text color',
+          format: 'color',
+        },
+        border: {
+          type: 'object',
+          title: 'Border',
+          properties: {
+            width: {
+              type: 'integer',
+              title: 'Width (px)',
+              minimum: 0,
+              maximum: 10,
+            },
+            color: {
+              type: 'string',
+              title: 'Color',
+              format: 'color',
+            },
+            style: {
+              type: 'string',
+              title: 'Style',
+              enum: ['solid', 'dashed', 'dotted', 'none'],
+            },
+          },
+        },
+      },
+    },
+    dataSource: {
+      type: 'object',
+      title: 'Data Source',
+      required: ['type', 'source'],
+      properties: {
+        type: {
+          type: 'string',
+          title: 'Type',
+          enum: ['service', 'api', 'static', 'event'],
+        },
+        source: {
+          type: 'string',
+          title: 'Source',
+          description: 'Service source name or API endpoint',
+          minLength: 1,
+        },
+        refreshInterval: {
+          type: 'integer',
+          title: 'Refresh interval (ms)',
+          description: 'Leave empty to disable polling',
+          minimum: 0,
+        },
+        parameters: {
+          type: 'object',
+          title: 'Parameters',
+          description: 'JSON object',
+        },
+        cache: {
+          type: 'object',
+          title: 'Cache',
+          properties: {
+            enabled: { type: 'boolean', title: 'Enabled' },
+            ttl: { type: 'integer', title: 'TTL (ms)', minimum: 0 },
+            staleWhileRevalidate: {
+              type: 'boolean',
+              title: 'Serve stale data while refreshing',
+            },
+          },
+        },
+      },
+    },
+    settings: {
+      type: 'object',
+      title: 'Settings',
+      properties: {},
+    },
+    retryPolicy: {
+      type: 'object',
+      title: 'Retry policy',
+      properties: {
+        maxAttempts: {
+          type: 'integer',
+          title: 'Max attempts',
+          description: '0 disables automatic retries',
+          minimum: 0,
+        },
+        initialDelay: {
+          type: 'integer',
+          title: 'Initial delay (ms)',
+          minimum: 0,
+        },
+        backoffFactor: {
+          type: 'number',
+          title: 'Backoff factor',
+          minimum: 1,
+        },
+        maxDelay: {
+          type: 'integer',
+          title: 'Max delay (ms)',
+          minimum: 0,
+        },
+        circuitBreaker: {
+          type: 'object',
+          title: 'Circuit breaker',
+          required: ['failureThreshold', 'resetTimeout'],
+          properties: {
+            failureThreshold: {
+              type: 'integer',
+              title: 'Failure threshold',
+              minimum: 1,
+            },
+            resetTimeout: {
+              type: 'integer',
+              title: 'Reset timeout (ms)',
+              minimum: 0,
+            },
+            maxTrials: {
+              type: 'integer',
+              title: 'Max trials',
+              minimum: 1,
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
 /**
  * Widget Registry Service
  * Manages registration, discovery, and lazy loading of widgets
@@ -155,6 +336,21 @@ export class WidgetRegistryService {
     }
   }
 
+  /**
+   * Get the configuration schema for a widget type
+   * Merges the definition's configSchema over the shared base schema
+   */
+  getConfigSchema(type: string): WidgetConfigSchema | undefined {
+    const definition = this.getWidget(type);
+    if (!definition) {
+      return undefined;
+    }
+
+    return definition.configSchema
+      ? this.mergeSchemas(BASE_CONFIG_SCHEMA, definition.configSchema)
+      : BASE_CONFIG_SCHEMA;
+  }
+
   /**
    * Check if widget type exists
    */
@@ -233,6 +429,39 @@ export class WidgetRegistryService {
     }
   }
 
+  /**
+   * Deep-merge object schemas, letting the override win
+   */
+  private mergeSchemas(
+    base: WidgetConfigSchema,
+    override: WidgetConfigSchema
+  ): WidgetConfigSchema {
+    if (base.type !== 'object' || override.type !== 'object') {
+      return override;
+    }
+
+    const properties = { ...base.properties };
+    Object.entries(override.properties ?? {}).forEach(
+      ([key, schema]) => {
+        properties[key] = properties[key]
+          ? this.mergeSchemas(properties[key], schema)
+          : schema;
+      }
+    );
+
+    return {
+      ...base,
+      ...override,
+      properties,
+      required: Array.from(
+        new Set([
+          ...(base.required ?? []),
+          ...(override.required ?? []),
+        ])
+      ),
+    };
+  }
+
   /**
    * Update category mapping
    */
@@ -0,0 +1,192 @@
+import {
+  Component,
+  EnvironmentInjector,
+  Injector,
+  createComponent,
+  inject,
+} from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  WidgetEvent,
+  WidgetInstance,
+  WidgetState,
+} from '../interfaces';
+import { DashboardLayoutManagerService } from './dashboard-layout-manager.service';
+import { WidgetCommunicationService } from './widget-communication.service';
+import {
+  SandboxedWidgetCommunication,
+  WidgetSandboxService,
+  WidgetSandboxViolation,
+} from './widget-sandbox.service';
+
+class TickerWidgetComponent {}
+
+@Component({ template: '' })
+class InjectingWidgetComponent {
+  readonly fromInjector = inject(Injector).get(
+    WidgetCommunicationService
+  );
+  readonly fromEnvironment = inject(EnvironmentInjector).get(
+    WidgetCommunicationService
+  );
+}
+
+function createInstance(): WidgetInstance {
+  return {
+    id: 'ticker-1',
+    definition: {
+      type: 'ticker',
+      name: 'Ticker',
+      description: 'Ticker widget',
+      component: TickerWidgetComponent,
+      category: 'general',
+      defaultConfig: {},
+      sandbox: {
+        emits: ['STOCK_SELECTED'],
+        listens: ['MARKET_*'],
+        reads: ['market.*'],
+        writes: ['market.watchlist'],
+      },
+    },
+    config: {
+      type: 'ticker',
+      title: 'Ticker',
+      layout: { cols: 2, rows: 2 },
+    },
+    state: WidgetState.LOADED,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function createEvent(type: string, source = 'ticker-1'): WidgetEvent {
+  return { type, source, timestamp: new Date() };
+}
+
+describe('WidgetSandboxService', () => {
+  let sandbox: WidgetSandboxService;
+  let communication: WidgetCommunicationService;
+  let violations: WidgetSandboxViolation[];
+  let environmentInjector: EnvironmentInjector;
+
+  beforeEach(() => {
+    spyOn(console, 'warn');
+    sandbox = TestBed.inject(WidgetSandboxService);
+    communication = TestBed.inject(WidgetCommunicationService);
+    violations = [];
+    sandbox.getViolations$().subscribe((v) => violations.push(v));
+    environmentInjector = sandbox.createInjector(
+      createInstance(),
+      TestBed.inject(EnvironmentInjector),
+      [DashboardLayoutManagerService]
+    );
+  });
+
+  afterEach(() => {
+    environmentInjector.destroy();
+  });
+
+  describe('createInjector', () => {
+    it('provides the restricted communication facade', () => {
+      expect(
+        environmentInjector.get(WidgetCommunicationService)
+      ).toEqual(jasmine.any(SandboxedWidgetCommunication));
+    });
+
+    it('refuses restricted services and reports it', () => {
+      expect(() =>
+        environmentInjector.get(DashboardLayoutManagerService)
+      ).toThrowError(
+        'DashboardLayoutManagerService is not available to sandboxed widgets'
+      );
+      expect(violations).toEqual([
+        jasmine.objectContaining({
+          instanceId: 'ticker-1',
+          action: 'inject',
+          target: 'DashboardLayoutManagerService',
+        }),
+      ]);
+    });
+
+    it('keeps injected injectors inside the sandbox', () => {
+      const componentRef = createComponent(InjectingWidgetComponent, {
+        environmentInjector,
+      });
+      const facade = environmentInjector.get(
+        WidgetCommunicationService
+      );
+
+      expect(componentRef.instance.fromInjector).toBe(facade);
+      expect(componentRef.instance.fromEnvironment).toBe(facade);
+      componentRef.destroy();
+    });
+  });
+
+  describe('SandboxedWidgetCommunication', () => {
+    let facade: WidgetCommunicationService;
+    let events: WidgetEvent[];
+
+    beforeEach(() => {
+      facade = environmentInjector.get(WidgetCommunicationService);
+      events = [];
+      communication.getAllEvents().subscribe((e) => events.push(e));
+    });
+
+    it('only sends declared events, as the widget itself', () => {
+      facade.broadcast(createEvent('STOCK_SELECTED', 'system'));
+      facade.broadcast(createEvent('ORDER_PLACED'));
+
+      expect(
+        events.map(({ type, source }) => [type, source])
+      ).toEqual([['STOCK_SELECTED', 'ticker-1']]);
+      expect(
+        violations.map(({ action, target }) => [action, target])
+      ).toEqual([
+        ['send as', 'system'],
+        ['emit', 'ORDER_PLACED'],
+      ]);
+    });
+
+    it('only subscribes to declared events', () => {
+      const handler = jasmine.createSpy('handler');
+      facade.subscribe('MARKET_OPEN', handler);
+      facade.subscribe('ORDER_PLACED', handler);
+
+      communication.broadcast(createEvent('MARKET_OPEN', 'other'));
+      communication.broadcast(createEvent('ORDER_PLACED', 'other'));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(violations.map(({ target }) => target)).toEqual([
+        'ORDER_PLACED',
+      ]);
+    });
+
+    it('limits shared state to declared keys', () => {
+      communication.setSharedState('market.index', 42);
+      communication.setSharedState('user.token', 'secret');
+
+      facade.setSharedState('market.watchlist', ['ACME']);
+      facade.setSharedState('market.index', 0);
+
+      expect(facade.getSharedState('market.index')).toBe(42);
+      expect(facade.getSharedState('user.token')).toBeUndefined();
+      expect(facade.getSharedStateKeys()).toEqual([
+        'market.index',
+        'market.watchlist',
+      ]);
+    });
+
+    it('refuses channels and clearing shared state', () => {
+      communication.setSharedState('market.index', 42);
+
+      facade.clearSharedState();
+      expect(facade.getChannel('ticker')).toBeUndefined();
+
+      expect(communication.getSharedState('market.index')).toBe(42);
+      expect(violations.map(({ action }) => action)).toEqual([
+        'clear',
+        'open channel',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,399 @@
+import {
+  EnvironmentInjector,
+  Injectable,
+  ProviderToken,
+  createEnvironmentInjector,
+  inject,
+} from '@angular/core';
+import { EMPTY, Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import {
+  WidgetEvent,
+  WidgetInstance,
+  WidgetSandboxPolicy,
+} from '../interfaces';
+import { WidgetCommunicationService } from './widget-communication.service';
+
+/**
+ * Events every sandboxed widget receives; the base widget relies on them
+ */
+const SANDBOX_SYSTEM_EVENTS = [
+  'WIDGET_CONFIG_CHANGED',
+  'WIDGET_DATA_CHANGED',
+];
+
+/**
+ * Something a sandboxed widget tried to do but may not
+ */
+export interface WidgetSandboxViolation {
+  instanceId: string;
+  widgetType: string;
+
+  /** What the widget tried to do */
+  action: string;
+
+  /** Event type, state key, widget or service involved */
+  target: string;
+
+  timestamp: Date;
+}
+
+/**
+ * Widget Sandbox Service
+ * Isolates untrusted widgets behind a scoped injector and restricted
+ * communication, and logs what they are not allowed to do
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WidgetSandboxService {
+  private readonly communication = inject(WidgetCommunicationService);
+  private readonly violationSubject =
+    new Subject<WidgetSandboxViolation>();
+
+  /**
+   * Check if a widget runs in the sandbox
+   */
+  isSandboxed(instance: WidgetInstance): boolean {
+    return instance.definition.sandbox !== undefined;
+  }
+
+  /**
+   * Create the environment injector for a sandboxed widget
+   * Communication goes through a restricted facade and the given
+   * services cannot be injected at all, also not through an injected
+   * `Injector` or `EnvironmentInjector`. Destroy it with the widget
+   */
+  createInjector(
+    instance: WidgetInstance,
+    parent: EnvironmentInjector,
+    restricted: ProviderToken<unknown>[] = []
+  ): EnvironmentInjector {
+    return createEnvironmentInjector(
+      [
+        {
+          provide: WidgetCommunicationService,
+          useValue: new SandboxedWidgetCommunication(
+            this.communication,
+            instance,
+            this
+          ),
+        },
+        ...restricted.map((token) => ({
+          provide: token,
+          useFactory: () => {
+            const name =
+              typeof token === 'function'
+                ? token.name
+                : String(token);
+            this.report(instance, 'inject', name);
+            throw new Error(
+              `${name} is not available to sandboxed widgets`
+            );
+          },
+        })),
+      ],
+      parent,
+      `WidgetSandbox(${instance.id})`
+    );
+  }
+
+  /**
+   * Check if a widget may send an event type, logging it if not
+   */
+  canEmit(instance: WidgetInstance, type: string): boolean {
+    return this.check(instance, 'emits', 'emit', type);
+  }
+
+  /**
+   * Check if a widget may subscribe to an event type, logging it if not
+   */
+  canListen(instance: WidgetInstance, type: string): boolean {
+    return this.check(instance, 'listens', 'listen to', type);
+  }
+
+  /**
+   * Check if a widget may read a shared state key, logging it if not
+   */
+  canRead(instance: WidgetInstance, key: string): boolean {
+    return this.check(instance, 'reads', 'read', key);
+  }
+
+  /**
+   * Check if a widget may write a shared state key, logging it if not
+   */
+  canWrite(instance: WidgetInstance, key: string): boolean {
+    return this.check(instance, 'writes', 'write', key);
+  }
+
+  /**
+   * Check if an event may be delivered to a widget
+   * Unlike `canListen`, undelivered events are not violations
+   */
+  receives(instance: WidgetInstance, type: string): boolean {
+    return (
+      !this.isSandboxed(instance) ||
+      SANDBOX_SYSTEM_EVENTS.includes(type) ||
+      this.matches(instance.definition.sandbox?.listens, type)
+    );
+  }
+
+  /**
+   * Check if a shared state key is visible to a widget
+   */
+  sees(instance: WidgetInstance, key: string): boolean {
+    return (
+      !this.isSandboxed(instance) ||
+      this.matches(instance.definition.sandbox?.reads, key)
+    );
+  }
+
+  /**
+   * Log a sandbox violation
+   */
+  report(
+    instance: WidgetInstance,
+    action: string,
+    target: string
+  ): void {
+    console.warn(
+      `Sandboxed widget '${instance.id}' may not ${action} '${target}'`
+    );
+    this.violationSubject.next({
+      instanceId: instance.id,
+      widgetType: instance.definition.type,
+      action,
+      target,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Get sandbox violations as observable
+   */
+  getViolations$(): Observable<WidgetSandboxViolation> {
+    return this.violationSubject.asObservable();
+  }
+
+  /**
+   * Check a sandbox policy entry, logging a violation if it fails
+   */
+  private check(
+    instance: WidgetInstance,
+    permission: keyof WidgetSandboxPolicy,
+    action: string,
+    target: string
+  ): boolean {
+    const allowed =
+      !this.isSandboxed(instance) ||
+      (permission === 'listens' &&
+        SANDBOX_SYSTEM_EVENTS.includes(target)) ||
+      this.matches(instance.definition.sandbox?.[permission], target);
+
+    if (!allowed) {
+      this.report(instance, action, target);
+    }
+    return allowed;
+  }
+
+  /**
+   * Match a value against policy entries; `*` suffixes match by prefix
+   */
+  private matches(
+    patterns: string[] | undefined,
+    value: string
+  ): boolean {
+    return (patterns ?? []).some((pattern) =>
+      pattern.endsWith('*')
+        ? value.startsWith(pattern.slice(0, -1))
+        : pattern === value
+    );
+  }
+}
+
+/**
+ * Communication service given to sandboxed widgets
+ * Events always carry the widget's own id as source, and only the
+ * events and shared state declared in its sandbox policy get through
+ */
+export class SandboxedWidgetCommunication
+  implements Omit<WidgetCommunicationService, 'ngOnDestroy'>
+{
+  constructor(
+    private readonly communication: WidgetCommunicationService,
+    private readonly instance: WidgetInstance,
+    private readonly sandbox: WidgetSandboxService
+  ) {}
+
+  broadcast(event: WidgetEvent): void {
+    if (this.sandbox.canEmit(this.instance, event.type)) {
+      this.communication.broadcast(this.ownEvent(event));
+    }
+  }
+
+  send(targetId: string, event: WidgetEvent): void {
+    if (this.sandbox.canEmit(this.instance, event.type)) {
+      this.communication.send(targetId, this.ownEvent(event));
+    }
+  }
+
+  subscribe(
+    eventType: string,
+    handler: (event: WidgetEvent) => void
+  ): () => void {
+    return this.sandbox.canListen(this.instance, eventType)
+      ? this.communication.subscribe(eventType, handler)
+      : () => undefined;
+  }
+
+  subscribeToWidget(
+    sourceId: string,
+    handler: (event: WidgetEvent) => void
+  ): () => void {
+    return this.communication.subscribeToWidget(sourceId, (event) => {
+      if (this.sandbox.receives(this.instance, event.type)) {
+        handler(event);
+      }
+    });
+  }
+
+  subscribeToTargetedEvents(
+    targetId: string,
+    handler: (event: WidgetEvent) => void
+  ): () => void {
+    if (targetId !== this.instance.id) {
+      this.sandbox.report(
+        this.instance,
+        'watch events for',
+        targetId
+      );
+      return () => undefined;
+    }
+
+    return this.communication.subscribeToTargetedEvents(
+      targetId,
+      (event) => {
+        if (this.sandbox.receives(this.instance, event.type)) {
+          handler(event);
+        }
+      }
+    );
+  }
+
+  createChannel(channelId: string): Subject<WidgetEvent> {
+    // Channels bypass the policy, so hand out a disconnected one
+    this.sandbox.report(this.instance, 'open channel', channelId);
+    return new Subject<WidgetEvent>();
+  }
+
+  getChannel(channelId: string): Subject<WidgetEvent> | undefined {
+    this.sandbox.report(this.instance, 'open channel', channelId);
+    return undefined;
+  }
+
+  closeChannel(channelId: string): boolean {
+    this.sandbox.report(this.instance, 'close channel', channelId);
+    return false;
+  }
+
+  getAllEvents(): Observable<WidgetEvent> {
+    return this.communication
+      .getAllEvents()
+      .pipe(
+        filter((event) =>
+          this.sandbox.receives(this.instance, event.type)
+        )
+      );
+  }
+
+  setSharedState<T>(key: string, value: T): void {
+    if (this.sandbox.canWrite(this.instance, key)) {
+      this.communication.setSharedState(key, value);
+    }
+  }
+
+  getSharedState<T>(key: string): T | undefined {
+    return this.sandbox.canRead(this.instance, key)
+      ? this.communication.getSharedState<T>(key)
+      : undefined;
+  }
+
+  subscribeToSharedState<T>(key: string): Observable<T> {
+    return this.sandbox.canRead(this.instance, key)
+      ? this.communication.subscribeToSharedState<T>(key)
+      : EMPTY;
+  }
+
+  removeSharedState(key: string): boolean {
+    return (
+      this.sandbox.canWrite(this.instance, key) &&
+      this.communication.removeSharedState(key)
+    );
+  }
+
+  getSharedStateKeys(): string[] {
+    return this.communication
+      .getSharedStateKeys()
+      .filter((key) => this.sandbox.sees(this.instance, key));
+  }
+
+  clearSharedState(): void {
+    this.sandbox.report(this.instance, 'clear', 'shared state');
+  }
+
+  async request<T>(
+    targetId: string,
+    requestType: string,
+    payload?: any
+  ): Promise<T> {
+    if (!this.sandbox.canEmit(this.instance, requestType)) {
+      throw new Error(
+        `Sandboxed widget may not send '${requestType}' requests`
+      );
+    }
+
+    return this.communication.request<T>(
+      targetId,
+      requestType,
+      payload,
+      this.instance.id
+    );
+  }
+
+  respond(
+    requestEvent: WidgetEvent,
+    responseData?: any,
+    error?: string
+  ): void {
+    if (this.sandbox.canListen(this.instance, requestEvent.type)) {
+      this.communication.respond(
+        requestEvent,
+        responseData,
+        error,
+        this.instance.id
+      );
+    }
+  }
+
+  getStatistics(): ReturnType<
+    WidgetCommunicationService['getStatistics']
+  > {
+    const stateKeys = this.getSharedStateKeys();
+    return {
+      activeChannels: 0,
+      sharedStateKeys: stateKeys.length,
+      channelIds: [],
+      stateKeys,
+    };
+  }
+
+  /**
+   * Stamp an event with the widget's own id, logging spoofing attempts
+   */
+  private ownEvent(event: WidgetEvent): WidgetEvent {
+    if (event.source && event.source !== this.instance.id) {
+      this.sandbox.report(this.instance, 'send as', event.source);
+    }
+    return { ...event, source: this.instance.id };
+  }
+}
@@ -0,0 +1,172 @@
+import { WidgetTransformRegistryService } from './widget-transform-registry.service';
+
+const ASSESSMENTS = [
+  { user: { name: 'ada' }, subject: 'math', score: 90 },
+  { user: { name: 'bob' }, subject: 'math', score: 70 },
+  { user: { name: 'cy' }, subject: 'art', score: 80 },
+  { user: { name: 'di' }, subject: 'art' },
+];
+
+describe('WidgetTransformRegistryService', () => {
+  let transforms: WidgetTransformRegistryService;
+
+  beforeEach(() => {
+    transforms = new WidgetTransformRegistryService();
+  });
+
+  describe('normalize', () => {
+    it('splits piped names into steps', () => {
+      expect(
+        transforms.normalize([
+          'sort | pick',
+          { name: 'filter', options: { op: 'truthy' } },
+        ])
+      ).toEqual([
+        { name: 'sort' },
+        { name: 'pick' },
+        { name: 'filter', options: { op: 'truthy' } },
+      ]);
+    });
+
+    it('returns no steps without a transform', () => {
+      expect(transforms.normalize(undefined)).toEqual([]);
+    });
+  });
+
+  describe('apply', () => {
+    it('runs steps in order', () => {
+      expect(
+        transforms.apply(ASSESSMENTS, [
+          {
+            name: 'filter',
+            options: { path: 'score', op: 'gte', value: 75 },
+          },
+          {
+            name: 'sort',
+            options: { path: 'score', direction: 'desc' },
+          },
+          { name: 'map', options: { path: 'user.name' } },
+        ])
+      ).toEqual(['ada', 'cy']);
+    });
+
+    it('applies custom transforms with their options', () => {
+      transforms.register('scale', (data, { factor }) =>
+        data.map((value: number) => value * factor)
+      );
+
+      expect(
+        transforms.apply([1, 2], {
+          name: 'scale',
+          options: { factor: 3 },
+        })
+      ).toEqual([3, 6]);
+    });
+
+    it('throws for unknown transforms', () => {
+      expect(() => transforms.apply([], 'missing')).toThrowError(
+        "Transform 'missing' not found"
+      );
+    });
+
+    it('returns data unchanged without a transform', () => {
+      expect(transforms.apply(ASSESSMENTS, undefined)).toBe(
+        ASSESSMENTS
+      );
+    });
+  });
+
+  describe('built-in transforms', () => {
+    it('picks a nested path and fields', () => {
+      expect(
+        transforms.apply(
+          { data: { items: ASSESSMENTS.slice(0, 1) } },
+          {
+            name: 'pick',
+            options: {
+              path: 'data.items',
+              fields: ['subject', 'user.name'],
+            },
+          }
+        )
+      ).toEqual([{ subject: 'math', 'user.name': 'ada' }]);
+    });
+
+    it('maps fields', () => {
+      expect(
+        transforms.apply(ASSESSMENTS.slice(0, 1), {
+          name: 'map',
+          options: { fields: { label: 'user.name', value: 'score' } },
+        })
+      ).toEqual([{ label: 'ada', value: 90 }]);
+    });
+
+    it('groups items', () => {
+      expect(
+        transforms
+          .apply(ASSESSMENTS, {
+            name: 'group-by',
+            options: { path: 'subject', asArray: true },
+          })
+          .map((group: { key: string; items: unknown[] }) => [
+            group.key,
+            group.items.length,
+          ])
+      ).toEqual([
+        ['math', 2],
+        ['art', 2],
+      ]);
+    });
+
+    it('sorts missing values last', () => {
+      expect(
+        transforms.apply(ASSESSMENTS, [
+          { name: 'sort', options: { path: 'score' } },
+          { name: 'map', options: { path: 'score' } },
+        ])
+      ).toEqual([70, 80, 90, undefined]);
+    });
+
+    it('aggregates per group and skips non-numeric values', () => {
+      expect(
+        transforms.apply(ASSESSMENTS, {
+          name: 'aggregate',
+          options: { op: 'avg', path: 'score', groupBy: 'subject' },
+        })
+      ).toEqual({ math: 80, art: 80 });
+    });
+
+    it('supports list and text filters', () => {
+      expect(
+        transforms.apply(ASSESSMENTS, [
+          {
+            name: 'filter',
+            options: {
+              path: 'user.name',
+              op: 'in',
+              value: ['bob', 'di'],
+            },
+          },
+          { name: 'aggregate', options: { op: 'count' } },
+        ])
+      ).toBe(2);
+      expect(
+        transforms.apply(['maths', 'art'], {
+          name: 'filter',
+          options: { op: 'contains', value: 'th' },
+        })
+      ).toEqual(['maths']);
+    });
+  });
+
+  describe('register', () => {
+    it('tracks registered names', () => {
+      transforms.register('custom', (data) => data);
+
+      expect(transforms.has('custom')).toBe(true);
+      expect(transforms.getNames()).toContain('aggregate');
+      expect(transforms.unregister('custom')).toBe(true);
+      expect(transforms.has('custom')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { Injectable } from '@angular/core';
+import {
+  WidgetDataSource,
+  WidgetTransformFn,
+  WidgetTransformStep,
+} from '../interfaces';
+
+type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'contains'
+  | 'truthy'
+  | 'falsy';
+
+type AggregateOperation = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * Widget Transform Registry Service
+ * Manages named data transforms and applies transform pipelines
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WidgetTransformRegistryService {
+  private readonly transforms = new Map<string, WidgetTransformFn>();
+
+  constructor() {
+    this.registerBuiltInTransforms();
+  }
+
+  /**
+   * Register a named transform
+   */
+  register(name: string, transform: WidgetTransformFn): void {
+    if (this.transforms.has(name)) {
+      console.warn(
+        `Transform '${name}' is already registered. Overwriting...`
+      );
+    }
+
+    this.transforms.set(name, transform);
+  }
+
+  /**
+   * Unregister a named transform
+   */
+  unregister(name: string): boolean {
+    return this.transforms.delete(name);
+  }
+
+  /**
+   * Check if transform exists
+   */
+  has(name: string): boolean {
+    return this.transforms.has(name);
+  }
+
+  /**
+   * Get all registered transform names
+   */
+  getNames(): string[] {
+    return Array.from(this.transforms.keys());
+  }
+
+  /**
+   * Apply a transform pipeline to data
+   */
+  apply(data: any, transform: WidgetDataSource['transform']): any {
+    return this.normalize(transform).reduce((result, step) => {
+      const transformFn = this.transforms.get(step.name);
+      if (!transformFn) {
+        throw new Error(`Transform '${step.name}' not found`);
+      }
+
+      return transformFn(result, step.options ?? {});
+    }, data);
+  }
+
+  /**
+   * Normalize a transform definition into pipeline steps
+   */
+  normalize(
+    transform: WidgetDataSource['transform']
+  ): WidgetTransformStep[] {
+    if (!transform) {
+      return [];
+    }
+
+    const steps = Array.isArray(transform) ? transform : [transform];
+
+    return steps.flatMap((step) =>
+      typeof step === 'string'
+        ? step
+            .split('|')
+            .map((name) => name.trim())
+            .filter((name) => name.length > 0)
+            .map((name) => ({ name }))
+        : [step]
+    );
+  }
+
+  /**
+   * Register built-in transforms
+   */
+  private registerBuiltInTransforms(): void {
+    // Select a nested value or a subset of fields
+    this.transforms.set('pick', (data, { path, fields }) => {
+      const value = path ? this.getPath(data, path) : data;
+      if (!fields) {
+        return value;
+      }
+
+      return Array.isArray(value)
+        ? value.map((item) => this.pickFields(item, fields))
+        : this.pickFields(value, fields);
+    });
+
+    // Reshape each item, either plucking a path or mapping fields
+    this.transforms.set('map', (data, { path, fields }) =>
+      this.toArray(data).map((item) => {
+        if (fields) {
+          return Object.fromEntries(
+            Object.entries(fields as Record<string, string>).map(
+              ([key, fieldPath]) => [
+                key,
+                this.getPath(item, fieldPath),
+              ]
+            )
+          );
+        }
+
+        return path ? this.getPath(item, path) : item;
+      })
+    );
+
+    // Keep items matching a condition
+    this.transforms.set('filter', (data, { path, op, value }) =>
+      this.toArray(data).filter((item) =>
+        this.matches(
+          path ? this.getPath(item, path) : item,
+          op ?? 'eq',
+          value
+        )
+      )
+    );
+
+    // Group items by the value at a path
+    this.transforms.set('group-by', (data, { path, asArray }) => {
+      const groups = this.groupBy(this.toArray(data), path);
+
+      return asArray
+        ? Object.entries(groups).map(([key, items]) => ({
+            key,
+            items,
+          }))
+        : groups;
+    });
+
+    // Sort items by the value at a path
+    this.transforms.set('sort', (data, { path, direction }) => {
+      const factor = direction === 'desc' ? -1 : 1;
+
+      return [...this.toArray(data)].sort((a, b) => {
+        const valueA = path ? this.getPath(a, path) : a;
+        const valueB = path ? this.getPath(b, path) : b;
+
+        if (valueA === valueB) return 0;
+        if (valueA === undefined || valueA === null) return 1;
+        if (valueB === undefined || valueB === null) return -1;
+        return (valueA < valueB ? -1 : 1) * factor;
+      });
+    });
+
+    // Reduce items to a single value, optionally per group
+    this.transforms.set(
+      'aggregate',
+      (data, { op, path, groupBy }) => {
+        const items = this.toArray(data);
+
+        if (groupBy) {
+          return Object.fromEntries(
+            Object.entries(this.groupBy(items, groupBy)).map(
+              ([key, group]) => [
+                key,
+                this.aggregate(group, op ?? 'count', path),
+              ]
+            )
+          );
+        }
+
+        return this.aggregate(items, op ?? 'count', path);
+      }
+    );
+  }
+
+  /**
+   * Resolve a dot-separated path
+   */
+  private getPath(source: any, path: string): any {
+    return path
+      .split('.')
+      .reduce(
+        (value, key) =>
+          value === undefined || value === null
+            ? undefined
+            : value[key],
+        source
+      );
+  }
+
+  /**
+   * Pick fields from an object
+   */
+  private pickFields(
+    source: any,
+    fields: string[]
+  ): Record<string, any> {
+    return Object.fromEntries(
+      fields.map((field) => [field, this.getPath(source, field)])
+    );
+  }
+
+  /**
+   * Coerce transform input to an array
+   */
+  private toArray(data: any): any[] {
+    if (Array.isArray(data)) {
+      return data;
+    }
+
+    return data === undefined || data === null ? [] : [data];
+  }
+
+  /**
+   * Group items by the value at a path
+   */
+  private groupBy(items: any[], path: string): Record<string, any[]> {
+    return items.reduce((groups, item) => {
+      const key = String(this.getPath(item, path));
+      (groups[key] ??= []).push(item);
+      return groups;
+    }, {} as Record<string, any[]>);
+  }
+
+  /**
+   * Aggregate a list of items
+   */
+  private aggregate(
+    items: any[],
+    op: AggregateOperation,
+    path?: string
+  ): number {
+    if (op === 'count') {
+      return items.length;
+    }
+
+    const values = items
+      .map((item) => Number(path ? this.getPath(item, path) : item))
+      .filter((value) => !Number.isNaN(value));
+
+    if (values.length === 0) {
+      return 0;
+    }
+
+    switch (op) {
+      case 'sum':
+        return values.reduce((total, value) => total + value, 0);
+      case 'avg':
+        return (
+          values.reduce((total, value) => total + value, 0) /
+          values.length
+        );
+      case 'min':
+        return Math.min(...values);
+      case 'max':
+        return Math.max(...values);
+      default:
+        throw new Error(`Unknown aggregate operation '${op}'`);
+    }
+  }
+
+  /**
+   * Evaluate a filter condition
+   */
+  private matches(
+    actual: any,
+    op: FilterOperator,
+    expected: any
+  ): boolean {
+    switch (op) {
+      case 'eq':
+        return actual === expected;
+      case 'neq':
+        return actual !== expected;
+      case 'gt':
+        return actual > expected;
+      case 'gte':
+        return actual >= expected;
+      case 'lt':
+        return actual < expected;
+      case 'lte':
+        return actual <= expected;
+      case 'in':
+        return Array.isArray(expected) && expected.includes(actual);
+      case 'contains':
+        return (
+          (Array.isArray(actual) || typeof actual === 'string') &&
+          actual.includes(expected)
+        );
+      case 'truthy':
+        return !!actual;
+      case 'falsy':
+        return !actual;
+      default:
+        throw new Error(`Unknown filter operator '${op}'`);
+    }
+  }
+}
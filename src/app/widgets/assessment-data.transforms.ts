@@ -0,0 +1,137 @@
+import { TestInfo } from '../assessment-test.service';
+import { WidgetTransformFn } from '../widget-orchestrator/interfaces';
+
+export interface TestInfoViewModel {
+  subjectLevels: {
+    subjectTitle: string;
+    subjectIcon: string;
+    levelCount: number;
+    completedTests?: {
+      testName: string;
+      score: number;
+      questionsLength: number;
+      scorePercent: number;
+    }[];
+    incompleteTests?: {
+      testName: string;
+    }[];
+  }[];
+}
+
+export interface TodoItem {
+  id: string;
+  title: string;
+  description: string;
+  completed: boolean;
+  priority: 'low' | 'medium' | 'high';
+  dueDate?: Date;
+}
+
+export interface AssessmentTodos {
+  todos: TodoItem[];
+  hasSubjects: boolean;
+}
+
+const iconMap = new Map<string, string>([
+  ['ANGULAR', 'angular_white_logomark'],
+  ['RXJS', 'rxjs_white_logomark'],
+  ['NESTJS', 'nestjs_white_logomark'],
+]);
+
+/**
+ * Shape combined assessment data for the tests info widget
+ */
+export function toTestInfoViewModel(
+  data: Partial<TestInfo> | null | undefined
+): TestInfoViewModel {
+  const assessmentTests = data?.assessmentTests ?? [];
+
+  const subjectLevels = (data?.subjectLevels ?? []).map(
+    (subjectLevel) => {
+      const testsForSubject = assessmentTests.filter(
+        (test) => test.subject === subjectLevel.subject
+      );
+
+      const incompleteTests = testsForSubject.filter(
+        (test) => !test.completed
+      );
+      const completedTests = testsForSubject
+        .filter((test) => test.completed)
+        .map((test) => {
+          return {
+            testName: test.testName,
+            score: test.score,
+            questionsLength: test.userAnswers.length,
+            scorePercent:
+              (test.score / test.userAnswers.length) * 100,
+          };
+        });
+
+      return {
+        subjectTitle: subjectLevel.subject,
+        subjectIcon: iconMap.get(subjectLevel.subject) ?? '',
+        levelCount: subjectLevel.levelCount,
+        incompleteTests,
+        completedTests,
+      };
+    }
+  );
+
+  return { subjectLevels };
+}
+
+/**
+ * Derive learning todos from combined assessment data
+ */
+export function toAssessmentTodos(
+  data: Partial<TestInfo> | null | undefined
+): AssessmentTodos {
+  const subjectLevels = data?.subjectLevels ?? [];
+  const todos: TodoItem[] = [];
+
+  subjectLevels.forEach((subject) => {
+    if (!subject.enabled) {
+      todos.push({
+        id: `unlock-${subject.subject.toLowerCase()}`,
+        title: `Unlock ${subject.subject}`,
+        description: `Complete prerequisites to unlock ${subject.subject} assessments`,
+        completed: false,
+        priority: 'medium',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 1 week from now
+      });
+    } else if (subject.levelCount < subject.totalCount) {
+      todos.push({
+        id: `advance-${subject.subject.toLowerCase()}`,
+        title: `Advance in ${subject.subject}`,
+        description: `Current level: ${subject.levelCount}/${subject.totalCount}. Take more tests to advance!`,
+        completed: false,
+        priority: subject.levelCount === 0 ? 'high' : 'medium',
+      });
+    }
+  });
+
+  // Add generic todos if no specific ones generated
+  if (todos.length === 0) {
+    todos.push({
+      id: 'start-assessment',
+      title: 'Start Your First Assessment',
+      description:
+        'Begin your learning journey by taking an assessment test',
+      completed: false,
+      priority: 'high',
+    });
+  }
+
+  return { todos, hasSubjects: subjectLevels.length > 0 };
+}
+
+/**
+ * Assessment transforms for registration with the orchestrator
+ */
+export const ASSESSMENT_TRANSFORMS: Record<
+  string,
+  WidgetTransformFn
+> = {
+  'tests-info-view-model': (data) => toTestInfoViewModel(data),
+  'assessment-todos': (data) => toAssessmentTodos(data),
+};
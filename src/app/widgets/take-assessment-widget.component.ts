@@ -0,0 +1,421 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, inject, signal } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatRadioModule } from '@angular/material/radio';
+import { takeUntil } from 'rxjs/operators';
+import {
+  AssessmentTestService,
+  IAssessmentTest,
+  ITestQuestion,
+  IUserAssessmentTest,
+} from '../assessment-test.service';
+import { BaseWidget } from '../widget-orchestrator/base/base-widget.directive';
+
+type AssessmentStep =
+  | 'select'
+  | 'loading'
+  | 'question'
+  | 'submitting'
+  | 'result'
+  | 'error';
+
+interface AnswerFeedback {
+  correct: boolean;
+  message: string;
+}
+
+@Component({
+  selector: 'ngx-take-assessment-widget',
+  imports: [
+    CommonModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule,
+    MatRadioModule,
+  ],
+  template: `
+    <div class="take-assessment-widget">
+      <h2>{{ widgetTitle() }}</h2>
+
+      @switch (step()) {
+      <!-- Subject Selection -->
+      @case ('select') {
+      <div class="subject-select">
+        <p>Choose a subject to take your next assessment.</p>
+        @for (subject of subjects(); track subject) {
+        <button mat-stroked-button (click)="startAssessment(subject)">
+          {{ subject }}
+        </button>
+        }
+      </div>
+      }
+
+      <!-- Loading -->
+      @case ('loading') {
+      <div class="centered">
+        <mat-spinner diameter="40"></mat-spinner>
+        <p>Loading assessment...</p>
+      </div>
+      }
+
+      <!-- Question -->
+      @case ('question') { @if (currentQuestion(); as question) {
+      <div class="question">
+        <div class="question-header">
+          <span>{{ assessmentTest()?.name }}</span>
+          <span
+            >Question {{ questionIndex() + 1 }} of
+            {{ questionCount() }}</span
+          >
+        </div>
+        <mat-progress-bar
+          mode="determinate"
+          [value]="progress()"
+        ></mat-progress-bar>
+
+        <h3>{{ question.question }}</h3>
+
+        <mat-radio-group
+          class="choices"
+          [value]="selectedChoice()"
+          [disabled]="!!feedback()"
+          (change)="selectChoice($event.value)"
+        >
+          @for (choice of question.choices; track choice.value) {
+          <mat-radio-button [value]="choice.value">
+            {{ choice.value }}
+          </mat-radio-button>
+          }
+        </mat-radio-group>
+
+        @if (feedback(); as feedback) {
+        <div
+          class="feedback"
+          [class.correct]="feedback.correct"
+          [class.incorrect]="!feedback.correct"
+        >
+          <mat-icon>{{
+            feedback.correct ? 'check_circle' : 'cancel'
+          }}</mat-icon>
+          <span>{{ feedback.message }}</span>
+        </div>
+        }
+
+        <div class="actions">
+          @if (!feedback()) {
+          <button
+            mat-flat-button
+            [disabled]="!selectedChoice()"
+            (click)="checkAnswer()"
+          >
+            Check Answer
+          </button>
+          } @else if (isLastQuestion()) {
+          <button mat-flat-button (click)="submitAssessment()">
+            Submit
+          </button>
+          } @else {
+          <button mat-flat-button (click)="nextQuestion()">
+            Next
+          </button>
+          }
+        </div>
+      </div>
+      } }
+
+      <!-- Submitting -->
+      @case ('submitting') {
+      <div class="centered">
+        <mat-spinner diameter="40"></mat-spinner>
+        <p>Submitting answers...</p>
+      </div>
+      }
+
+      <!-- Result -->
+      @case ('result') { @if (result(); as result) {
+      <div class="centered result" [class.passed]="result.passed">
+        <mat-icon>{{
+          result.passed ? 'emoji_events' : 'replay'
+        }}</mat-icon>
+        <h3>{{ result.passed ? 'Passed!' : 'Not passed yet' }}</h3>
+        <p>
+          {{ result.testName }}: {{ result.score }}/{{
+            questionCount()
+          }}
+        </p>
+        <button mat-stroked-button (click)="reset()">
+          Take Another
+        </button>
+      </div>
+      } }
+
+      <!-- Error -->
+      @case ('error') {
+      <div class="centered">
+        <mat-icon color="warn">error</mat-icon>
+        <p>{{ errorMessage() }}</p>
+        <button mat-stroked-button (click)="reset()">
+          Try Again
+        </button>
+      </div>
+      } }
+    </div>
+  `,
+  styles: [
+    `
+      .take-assessment-widget {
+        padding: 16px;
+        height: 100%;
+        display: flex;
+        flex-direction: column;
+        box-sizing: border-box;
+        overflow-y: auto;
+      }
+
+      h2 {
+        font-weight: 300;
+        margin: 0 0 16px 0;
+        color: var(--mat-sys-on-surface);
+      }
+
+      h3 {
+        font-weight: 500;
+        font-size: 16px;
+        margin: 16px 0 8px 0;
+      }
+
+      .subject-select {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .subject-select p {
+        margin: 0 0 8px 0;
+        color: var(--mat-sys-on-surface-variant);
+      }
+
+      .question-header {
+        display: flex;
+        justify-content: space-between;
+        margin-bottom: 8px;
+        font-size: 12px;
+        color: var(--mat-sys-on-surface-variant);
+      }
+
+      .choices {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+      }
+
+      .feedback {
+        display: flex;
+        align-items: flex-start;
+        gap: 8px;
+        margin-top: 12px;
+        padding: 12px;
+        border-radius: 8px;
+        font-size: 14px;
+      }
+
+      .feedback.correct {
+        background-color: rgba(76, 175, 80, 0.12);
+        color: #2e7d32;
+      }
+
+      .feedback.incorrect {
+        background-color: rgba(244, 67, 54, 0.12);
+        color: #c62828;
+      }
+
+      .actions {
+        display: flex;
+        justify-content: flex-end;
+        margin-top: 16px;
+      }
+
+      .centered {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        gap: 8px;
+        text-align: center;
+        color: var(--mat-sys-on-surface-variant);
+      }
+
+      .result mat-icon {
+        font-size: 48px;
+        width: 48px;
+        height: 48px;
+      }
+
+      .result.passed mat-icon {
+        color: #ffc107;
+      }
+    `,
+  ],
+})
+export class TakeAssessmentWidgetComponent extends BaseWidget {
+  private readonly assessmentService = inject(AssessmentTestService);
+
+  // Widget-specific state
+  readonly step = signal<AssessmentStep>('select');
+  readonly assessmentTest = signal<IAssessmentTest | null>(null);
+  readonly questionIndex = signal(0);
+  readonly selectedChoice = signal<string | null>(null);
+  readonly feedback = signal<AnswerFeedback | null>(null);
+  readonly result = signal<IUserAssessmentTest | null>(null);
+  readonly errorMessage = signal('');
+  private readonly answers = signal<string[]>([]);
+
+  // Computed properties
+  readonly widgetTitle = computed(
+    () => this.config?.title || 'Take Assessment'
+  );
+  readonly subjects = computed<string[]>(
+    () =>
+      this.config?.settings?.['subjects'] ?? [
+        'ANGULAR',
+        'NESTJS',
+        'RXJS',
+      ]
+  );
+  readonly questionCount = computed(
+    () => this.assessmentTest()?.testQuestions.length ?? 0
+  );
+  readonly currentQuestion = computed<ITestQuestion | undefined>(
+    () => this.assessmentTest()?.testQuestions[this.questionIndex()]
+  );
+  readonly isLastQuestion = computed(
+    () => this.questionIndex() === this.questionCount() - 1
+  );
+  readonly progress = computed(() =>
+    this.questionCount()
+      ? (this.answers().length / this.questionCount()) * 100
+      : 0
+  );
+
+  /**
+   * Start (or resume) the next assessment test for a subject
+   */
+  startAssessment(subject: string): void {
+    this.step.set('loading');
+
+    this.assessmentService
+      .startUserAssessmentTest(subject)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: ([, assessmentTest]) => {
+          this.assessmentTest.set(assessmentTest);
+          this.questionIndex.set(0);
+          this.answers.set([]);
+          this.selectedChoice.set(null);
+          this.feedback.set(null);
+          this.step.set('question');
+        },
+        error: (error) =>
+          this.showError(
+            `Failed to start ${subject} assessment`,
+            error
+          ),
+      });
+  }
+
+  /**
+   * Select an answer for the current question
+   */
+  selectChoice(value: string): void {
+    this.selectedChoice.set(value);
+  }
+
+  /**
+   * Record the selected answer and show feedback
+   */
+  checkAnswer(): void {
+    const question = this.currentQuestion();
+    const choice = this.selectedChoice();
+    if (!question || !choice) {
+      return;
+    }
+
+    const correct = choice === question.answer;
+    this.answers.update((answers) => [...answers, choice]);
+    this.feedback.set({
+      correct,
+      message: correct
+        ? question.correctResponse
+        : question.incorrectResponse,
+    });
+  }
+
+  /**
+   * Move to the next question
+   */
+  nextQuestion(): void {
+    this.questionIndex.update((index) => index + 1);
+    this.selectedChoice.set(null);
+    this.feedback.set(null);
+  }
+
+  /**
+   * Submit answers and broadcast the result
+   */
+  submitAssessment(): void {
+    this.step.set('submitting');
+
+    this.assessmentService
+      .submitTest(this.answers())
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (result) => {
+          this.result.set(result);
+          this.step.set('result');
+
+          this.communication.broadcast({
+            type: 'ASSESSMENT_COMPLETED',
+            source: this.id,
+            payload: {
+              subject: result.subject,
+              passed: result.passed,
+              score: result.score,
+              total: this.questionCount(),
+              testName: result.testName,
+              userAssessmentTestId: result._id,
+            },
+            timestamp: new Date(),
+            bubble: true,
+          });
+        },
+        error: (error) =>
+          this.showError('Failed to submit assessment', error),
+      });
+  }
+
+  /**
+   * Return to subject selection
+   */
+  reset(): void {
+    this.assessmentTest.set(null);
+    this.result.set(null);
+    this.answers.set([]);
+    this.selectedChoice.set(null);
+    this.feedback.set(null);
+    this.step.set('select');
+  }
+
+  /**
+   * Show an error state
+   */
+  private showError(message: string, error: any): void {
+    console.error(`${message}:`, error);
+    this.errorMessage.set(message);
+    this.step.set('error');
+  }
+}
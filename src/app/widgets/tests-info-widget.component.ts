@@ -7,38 +7,7 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { RouterLink } from '@angular/router';
 import { map, timer } from 'rxjs';
-import {
-  IUserAssessmentTest,
-  SubjectLevel,
-} from '../assessment-test.service';
-
-type TestInfo = {
-  assessmentTests: IUserAssessmentTest[];
-  subjectLevels: SubjectLevel[];
-};
-
-interface TestInfoViewModel {
-  subjectLevels: {
-    subjectTitle: string;
-    subjectIcon: string;
-    levelCount: number;
-    completedTests?: {
-      testName: string;
-      score: number;
-      questionsLength: number;
-      scorePercent: number;
-    }[];
-    incompleteTests?: {
-      testName: string;
-    }[];
-  }[];
-}
-
-const iconMap = new Map<string, string>([
-  ['ANGULAR', 'angular_white_logomark'],
-  ['RXJS', 'rxjs_white_logomark'],
-  ['NESTJS', 'nestjs_white_logomark'],
-]);
+import { TestInfoViewModel } from './assessment-data.transforms';
 
 @Component({
   selector: 'ngx-tests-info-widget',
@@ -152,38 +121,5 @@ const iconMap = new Map<string, string>([
 export class TestsInfoWidgetComponent {
   openPanelDelay = timer(800).pipe(map(() => true));
 
-  data = input.required<TestInfoViewModel, TestInfo>({
-    transform: (data) => {
-      const subjectLevels = data.subjectLevels.map((subjectLevel) => {
-        const testsForSubject = data.assessmentTests.filter(
-          (test) => test.subject === subjectLevel.subject
-        );
-
-        const incompleteTests = testsForSubject.filter(
-          (test) => !test.completed
-        );
-        const completedTests = testsForSubject
-          .filter((test) => test.completed)
-          .map((test) => {
-            return {
-              testName: test.testName,
-              score: test.score,
-              questionsLength: test.userAnswers.length,
-              scorePercent:
-                (test.score / test.userAnswers.length) * 100,
-            };
-          });
-
-        return {
-          subjectTitle: subjectLevel.subject,
-          subjectIcon: iconMap.get(subjectLevel.subject) ?? '',
-          levelCount: subjectLevel.levelCount,
-          incompleteTests,
-          completedTests,
-        };
-      });
-
-      return { subjectLevels };
-    },
-  });
+  data = input<TestInfoViewModel>({ subjectLevels: [] });
 }
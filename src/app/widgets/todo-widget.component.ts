@@ -2,18 +2,9 @@ import { CommonModule } from '@angular/common';
 import { Component, computed, signal } from '@angular/core';
 import { MatExpansionModule } from '@angular/material/expansion';
 import { RouterLink } from '@angular/router';
-import { SubjectLevel } from '../assessment-test.service';
 import { BaseWidget } from '../widget-orchestrator/base/base-widget.directive';
 import { WidgetConfig } from '../widget-orchestrator/interfaces';
-
-interface TodoItem {
-  id: string;
-  title: string;
-  description: string;
-  completed: boolean;
-  priority: 'low' | 'medium' | 'high';
-  dueDate?: Date;
-}
+import { AssessmentTodos, TodoItem } from './assessment-data.transforms';
 
 @Component({
   selector: 'ngx-todo-widget',
@@ -201,25 +192,28 @@ export class TodoWidgetComponent extends BaseWidget {
     () => this.config?.title || 'To Do'
   );
   readonly emptyMessage = computed(() => {
-    const subjectData = this.data() as {
-      subjectLevels?: SubjectLevel[];
-    };
-    if (
-      subjectData?.subjectLevels &&
-      subjectData.subjectLevels.length > 0
-    ) {
+    const todoData = this.data() as AssessmentTodos | undefined;
+    if (todoData?.hasSubjects) {
       return 'Great progress! Keep going!';
     }
     return 'Just keep taking tests for now...';
   });
 
+  constructor() {
+    super();
+
+    // Assessment results are broadcast on the communication bus
+    this.subscribeToEvents('ASSESSMENT_COMPLETED', (event) =>
+      this.onEvent(event)
+    );
+  }
+
   override onInit(): void {
-    this.generateTodosFromData();
-    this.setupDataSubscription();
+    this.syncTodosFromData();
   }
 
   override onDataChange(data: any): void {
-    this.generateTodosFromData();
+    this.syncTodosFromData();
   }
 
   override onConfigChange(config: Partial<WidgetConfig>): void {
@@ -272,63 +266,11 @@ export class TodoWidgetComponent extends BaseWidget {
   }
 
   /**
-   * Generate todos from assessment data
+   * Sync todos from data shaped by the assessment-todos transform
    */
-  private generateTodosFromData(): void {
-    const data = this.data() as {
-      subjectLevels?: SubjectLevel[];
-      assessmentTests?: any[];
-    };
-    const todos: TodoItem[] = [];
-
-    if (data?.subjectLevels) {
-      data.subjectLevels.forEach((subject) => {
-        if (!subject.enabled) {
-          todos.push({
-            id: `unlock-${subject.subject.toLowerCase()}`,
-            title: `Unlock ${subject.subject}`,
-            description: `Complete prerequisites to unlock ${subject.subject} assessments`,
-            completed: false,
-            priority: 'medium',
-            dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 1 week from now
-          });
-        } else if (subject.levelCount < subject.totalCount) {
-          todos.push({
-            id: `advance-${subject.subject.toLowerCase()}`,
-            title: `Advance in ${subject.subject}`,
-            description: `Current level: ${subject.levelCount}/${subject.totalCount}. Take more tests to advance!`,
-            completed: false,
-            priority: subject.levelCount === 0 ? 'high' : 'medium',
-          });
-        }
-      });
-    }
-
-    // Add generic todos if no specific ones generated
-    if (todos.length === 0) {
-      todos.push({
-        id: 'start-assessment',
-        title: 'Start Your First Assessment',
-        description:
-          'Begin your learning journey by taking an assessment test',
-        completed: false,
-        priority: 'high',
-      });
-    }
-
-    this._todos.set(todos);
-  }
-
-  /**
-   * Setup data subscription for real-time updates
-   */
-  private setupDataSubscription(): void {
-    // Subscribe to shared state changes
-    this.subscribeToSharedState<any>('assessmentData', (data) => {
-      if (data) {
-        this.generateTodosFromData();
-      }
-    });
+  private syncTodosFromData(): void {
+    const data = this.data() as AssessmentTodos | undefined;
+    this._todos.set(data?.todos ?? []);
   }
 
   /**
@@ -363,6 +305,6 @@ export class TodoWidgetComponent extends BaseWidget {
    * Handle subject level change event
    */
   private handleSubjectLevelChanged(payload: any): void {
-    this.generateTodosFromData();
+    this.syncTodosFromData();
   }
 }